@@ -6,7 +6,7 @@
 import { BaseComponent, BaseProps } from './BaseComponent.js';
 import { ShowCard } from './ShowCard.js';
 import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
-import { Show, ShowDatabase } from '../types/index.js';
+import { Show, ShowDatabase, SeasonEstimate, ProgressSummary, Profile } from '../types/index.js';
 
 /**
  * Props for AllShowsList component
@@ -112,19 +112,54 @@ export class AllShowsList extends BaseComponent<AllShowsListProps> {
   private subscribeToFilteredShows(): void {
     this.addSubscription(
       this.manager.subscribeToFilteredShows((filteredShows) => {
-        // Update internal state
-        this.filteredShows = filteredShows;
-        
-        // Re-render the component
-        this.update({});
-        
-        // Recreate show cards after DOM update
-        this.cleanupShowCards();
-        this.createShowCards();
+        this.refreshShows(filteredShows);
+      })
+    );
+
+    // Re-render when estimate settings change so estimated season data stays current
+    this.addSubscription(
+      this.manager.subscribeToEstimates(() => {
+        this.refreshShows(this.manager.getFilteredShows());
+      })
+    );
+
+    // Re-render when the hiatus calendar changes since estimated end dates depend on it
+    this.addSubscription(
+      this.manager.subscribeToHiatusCalendar(() => {
+        this.refreshShows(this.manager.getFilteredShows());
+      })
+    );
+
+    // Re-render when episodes are marked watched
+    this.addSubscription(
+      this.manager.subscribeToProgress(() => {
+        this.refreshShows(this.manager.getFilteredShows());
+      })
+    );
+
+    // Re-render when shows are followed or unfollowed
+    this.addSubscription(
+      this.manager.subscribeToProfiles(() => {
+        this.refreshShows(this.manager.getFilteredShows());
       })
     );
   }
 
+  /**
+   * Update displayed shows and re-render
+   */
+  private refreshShows(filteredShows: ShowDatabase): void {
+    // Update internal state
+    this.filteredShows = filteredShows;
+    
+    // Re-render the component
+    this.update({});
+    
+    // Recreate show cards after DOM update
+    this.cleanupShowCards();
+    this.createShowCards();
+  }
+
   /**
    * Create ShowCard instances for all shows
    */
@@ -139,14 +174,32 @@ export class AllShowsList extends BaseComponent<AllShowsListProps> {
             show: Show;
             showEditButton: boolean;
             onEdit?: (show: Show) => void;
+            estimate?: SeasonEstimate;
+            progress?: ProgressSummary;
+            profiles: Profile[];
+            onToggleFollow: (show: Show, profileId: string, following: boolean) => void;
           } = {
             show,
-            showEditButton: this.props.showEditButton ?? false
+            showEditButton: this.props.showEditButton ?? false,
+            profiles: this.manager.getProfiles(),
+            onToggleFollow: (target, profileId, following) => {
+              this.manager.setFollowing(profileId, target.t, following);
+            }
           };
           
           if (this.props.onShowEdit) {
             showCardProps.onEdit = this.props.onShowEdit;
           }
+
+          const estimate = this.manager.getSeasonEstimate(show);
+          if (estimate) {
+            showCardProps.estimate = estimate;
+          }
+
+          const progress = this.manager.getProgressSummary(show, estimate);
+          if (progress) {
+            showCardProps.progress = progress;
+          }
           
           const showCard = new ShowCard(showCardProps);
           showCard.mount(container);
@@ -16,6 +16,7 @@
  */
 
 import { logger } from '../utils/logger.js';
+import { escapeHtml } from '../utils/domUtils.js';
 
 /**
  * Base properties that all components receive
@@ -307,11 +308,6 @@ export abstract class BaseComponent<TProps extends BaseProps = BaseProps> {
    * @returns Escaped safe string
    */
   protected escapeHtml(unsafe: string): string {
-    return unsafe
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
+    return escapeHtml(unsafe);
   }
 }
@@ -0,0 +1,159 @@
+/**
+ * CalendarImportReview Component - Lists season updates read from a calendar before applying them
+ *
+ * Features:
+ * - A row per matched show with current and proposed start, end, season, episodes and air day
+ * - A checkbox per show to leave proposals out
+ * - Event summaries that matched no show
+ * - Apply and cancel callbacks (the owner applies the chosen updates)
+ */
+
+import { BaseComponent, BaseProps } from './BaseComponent.js';
+import { Show, CalendarImportResult, CalendarProposal, CalendarSeasonFields } from '../types/index.js';
+import { CALENDAR_FIELDS } from '../modules/calendarImport.js';
+
+/**
+ * Column headings for the proposed fields
+ */
+const FIELD_LABELS: Record<keyof CalendarSeasonFields, string> = {
+  s: 'Season',
+  start: 'Start',
+  end: 'End',
+  eps: 'Eps',
+  air: 'Air Day'
+};
+
+/**
+ * CalendarImportReview component properties
+ */
+export interface CalendarImportReviewProps extends BaseProps {
+  /** Proposals and unmatched events read from the calendar */
+  result: CalendarImportResult;
+  /** Optional name of the imported file */
+  fileName?: string;
+  /** Callback with the chosen updates keyed by show ID */
+  onApply: (updates: Record<number, Partial<Show>>) => void;
+  /** Optional callback when the import is cancelled */
+  onCancel?: () => void;
+}
+
+/**
+ * CalendarImportReview Component - Calendar import review screen
+ */
+export class CalendarImportReview extends BaseComponent<CalendarImportReviewProps> {
+
+  /**
+   * Create a new CalendarImportReview instance
+   */
+  constructor(props: CalendarImportReviewProps) {
+    super(props);
+  }
+
+  /**
+   * Render the review screen HTML
+   */
+  protected render(): string {
+    const { result, fileName } = this.props;
+    const { proposals, unmatched } = result;
+
+    return `
+      <div class="import-review" role="dialog" aria-label="Review calendar import">
+        <div class="import-review__header">
+          <h3 class="import-review__title">Review calendar import</h3>
+          ${fileName ? `<span class="muted">${this.escapeHtml(fileName)}</span>` : ''}
+        </div>
+
+        ${proposals.length > 0 ? `
+          <table class="editor import-review__table">
+            <thead>
+              <tr>
+                <th scope="col">Apply</th>
+                <th scope="col">Show</th>
+                ${CALENDAR_FIELDS.map(field => `<th scope="col">${FIELD_LABELS[field]}</th>`).join('')}
+                <th scope="col">From</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${proposals.map(proposal => this.renderProposal(proposal)).join('')}
+            </tbody>
+          </table>
+        ` : '<p class="muted">The calendar has no new season data for the shows in the guide.</p>'}
+
+        ${unmatched.length > 0 ? `
+          <details class="import-review__unmatched">
+            <summary>${unmatched.length} event${unmatched.length === 1 ? '' : 's'} matched no show</summary>
+            <ul>${unmatched.map(summary => `<li>${this.escapeHtml(summary)}</li>`).join('')}</ul>
+          </details>
+        ` : ''}
+
+        <div class="import-review__actions">
+          <button type="button" class="btn apply-import-btn" ${proposals.length === 0 ? 'disabled' : ''}>Apply selected</button>
+          <button type="button" class="btn cancel-import-btn">Cancel</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render a proposal row with current → proposed values for each field
+   */
+  private renderProposal(proposal: CalendarProposal): string {
+    return `
+      <tr>
+        <td style="text-align: center">
+          <input type="checkbox" name="proposal" value="${proposal.id}" checked aria-label="Apply to ${this.escapeHtml(proposal.title)}">
+        </td>
+        <td>${this.escapeHtml(proposal.title)}</td>
+        ${CALENDAR_FIELDS.map(field => field in proposal.updates ? `
+          <td>
+            <span class="muted">${this.formatValue(proposal.current[field])}</span> →
+            <strong>${this.formatValue(proposal.updates[field])}</strong>
+          </td>
+        ` : '<td></td>').join('')}
+        <td><span class="meta">${proposal.sources.map(source => this.escapeHtml(source)).join('<br>')}</span></td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Format a field value, showing a dash for empty values
+   */
+  private formatValue(value: string | number | null | undefined): string {
+    return value === null || value === undefined || value === '' ? '—' : this.escapeHtml(String(value));
+  }
+
+  /**
+   * Called after component is mounted
+   */
+  protected override onMount(): void {
+    const applyBtn = this.query<HTMLButtonElement>('.apply-import-btn');
+    if (applyBtn) {
+      this.addEventListener(applyBtn, 'click', () => this.handleApply());
+    }
+
+    const cancelBtn = this.query<HTMLButtonElement>('.cancel-import-btn');
+    if (cancelBtn) {
+      this.addEventListener(cancelBtn, 'click', () => this.props.onCancel?.());
+    }
+  }
+
+  /**
+   * Apply the checked proposals
+   */
+  private handleApply(): void {
+    const selected = new Set(
+      Array.from(this.queryAll<HTMLInputElement>('input[name="proposal"]'))
+        .filter(checkbox => checkbox.checked)
+        .map(checkbox => Number(checkbox.value))
+    );
+
+    const updates: Record<number, Partial<Show>> = {};
+    this.props.result.proposals
+      .filter(proposal => selected.has(proposal.id))
+      .forEach(proposal => {
+        updates[proposal.id] = proposal.updates;
+      });
+
+    this.props.onApply(updates);
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * CoWatchPlanner Component - Proposes nights to watch shared shows together
+ *
+ * Features:
+ * - Free evenings per household profile
+ * - Max-episodes-per-night limit
+ * - Weekly plan laid out like the week table, with episodes that did not fit
+ * - Export as JSON or as calendar events (.ics)
+ * - Reactive updates from ReactiveShowManager (week shows, week offset, profiles,
+ *   watch progress, estimates, hiatus calendar)
+ */
+
+import { BaseComponent, BaseProps } from './BaseComponent.js';
+import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
+import { Show, SeasonEstimate, AirDay, CoWatchPlan, Profile } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { buildCoWatchPlan, formatCoWatchEpisode, getCoWatchEvents } from '../modules/coWatchPlanner.js';
+import { getWeekRange, addDaysISO, formatShortDate } from '../utils/dateUtils.js';
+import { buildICalendar } from '../utils/icalUtils.js';
+import { downloadFile } from '../utils/domUtils.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * CoWatchPlanner component properties
+ */
+export interface CoWatchPlannerProps extends BaseProps {
+  /** Initial max episodes per night (default: CONFIG.CO_WATCH_MAX_EPISODES) */
+  maxEpisodesPerNight?: number;
+  /** Season estimate source (default: the show manager's estimate settings) */
+  getEstimate?: (show: Show) => SeasonEstimate | null;
+}
+
+/**
+ * CoWatchPlanner Component - Weekly co-watching plan
+ */
+export class CoWatchPlanner extends BaseComponent<CoWatchPlannerProps> {
+  private showManager: ReactiveShowManager;
+  private maxEpisodesPerNight: number;
+  private plan: CoWatchPlan;
+  private readonly days = CONFIG.DAY_ORDER as readonly AirDay[];
+
+  /**
+   * Create a new CoWatchPlanner instance
+   */
+  constructor(props: CoWatchPlannerProps, showManager: ReactiveShowManager) {
+    super(props);
+    this.showManager = showManager;
+    this.maxEpisodesPerNight = props.maxEpisodesPerNight ?? CONFIG.CO_WATCH_MAX_EPISODES;
+    this.plan = this.calculatePlan();
+  }
+
+  /**
+   * Render the co-watch planner HTML
+   */
+  protected render(): string {
+    const { profiles, evenings, nights, unscheduled, start } = this.plan;
+
+    return `
+      <div class="cowatch-planner">
+        <div class="cowatch-planner__header">
+          <h3 class="cowatch-planner__title">Co-watching Nights</h3>
+          <span class="muted">${profiles.map(name => this.escapeHtml(name)).join(' & ')} · week of ${formatShortDate(start)}</span>
+          <label class="pill">
+            Max episodes per night
+            <input type="number" name="max-episodes" min="1" max="10" value="${this.maxEpisodesPerNight}">
+          </label>
+          <div class="cowatch-planner__actions">
+            <button type="button" class="btn btn--small export-json-btn">Export JSON</button>
+            <button type="button" class="btn btn--small export-ics-btn">Export Calendar (.ics)</button>
+          </div>
+        </div>
+
+        ${this.renderEvenings(this.showManager.getWatchingProfiles())}
+
+        <div class="week-schedule">
+          <table class="week-table cowatch-table" role="table" aria-label="Co-watching plan">
+            <thead>
+              <tr>
+                ${this.days.map((day, i) => `
+                  <th>${day}<br><span class="day-count">${formatShortDate(addDaysISO(start, i))}</span></th>
+                `).join('')}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                ${this.days.map(day => evenings.includes(day) ? `
+                  <td class="show-cell">
+                    ${nights[day].length > 0
+                      ? nights[day].map(episode => `<div class="cowatch-episode">${this.escapeHtml(formatCoWatchEpisode(episode))}</div>`).join('')
+                      : '<span class="muted">Free</span>'}
+                  </td>
+                ` : '<td class="empty-cell cowatch-table__busy"><span class="muted">Busy</span></td>').join('')}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        ${unscheduled.length > 0 ? `
+          <p class="cowatch-planner__unscheduled muted">
+            Did not fit this week: ${unscheduled.map(episode => this.escapeHtml(formatCoWatchEpisode(episode))).join(', ')}
+          </p>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the free-evening checkboxes for each profile watching together
+   */
+  private renderEvenings(profiles: Profile[]): string {
+    return `
+      <table class="cowatch-evenings" role="table" aria-label="Free evenings">
+        <thead>
+          <tr>
+            <th scope="col">Free evenings</th>
+            ${this.days.map(day => `<th scope="col">${day.slice(0, 3)}</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${profiles.map(profile => `
+            <tr>
+              <th scope="row">${this.escapeHtml(profile.name)}</th>
+              ${this.days.map(day => `
+                <td>
+                  <input type="checkbox" name="evening" data-profile-id="${this.escapeHtml(profile.id)}" value="${day}"
+                    aria-label="${this.escapeHtml(profile.name)} free ${day}"
+                    ${!profile.evenings || profile.evenings.includes(day) ? 'checked' : ''}>
+                </td>
+              `).join('')}
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  /**
+   * Calculate the plan for the selected week and profiles
+   */
+  private calculatePlan(): CoWatchPlan {
+    const getEstimate = this.props.getEstimate ??
+      ((show: Show): SeasonEstimate | null => this.showManager.getSeasonEstimate(show));
+    const { startDate } = getWeekRange(this.showManager.getWeekOffset());
+
+    return buildCoWatchPlan(this.showManager.getWeekViewData(), this.showManager.getWatchingProfiles(), {
+      start: startDate,
+      maxEpisodesPerNight: this.maxEpisodesPerNight,
+      calendar: this.showManager.getHiatusCalendar(),
+      getEstimate,
+      isWatched: (show, episode) => this.showManager.isEpisodeWatched(show, episode)
+    });
+  }
+
+  /**
+   * Called after component is mounted
+   */
+  protected override onMount(): void {
+    this.bindControls();
+
+    this.addSubscription(this.showManager.subscribeToWeekView(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToWeekOffset(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToProfiles(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToProgress(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToEstimates(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToHiatusCalendar(() => this.refresh()));
+  }
+
+  /**
+   * Called after component is re-rendered
+   */
+  protected override onUpdate(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Attach listeners to the rendered controls
+   */
+  private bindControls(): void {
+    const maxInput = this.query<HTMLInputElement>('input[name="max-episodes"]');
+    if (maxInput) {
+      this.addEventListener(maxInput, 'change', () => {
+        const value = parseInt(maxInput.value, 10);
+        if (value > 0) {
+          this.setMaxEpisodesPerNight(value);
+        }
+      });
+    }
+
+    this.queryAll<HTMLInputElement>('input[name="evening"]').forEach(checkbox => {
+      this.addEventListener(checkbox, 'change', () => this.handleEveningChange(checkbox.dataset.profileId ?? ''));
+    });
+
+    const jsonBtn = this.query<HTMLButtonElement>('.export-json-btn');
+    if (jsonBtn) {
+      this.addEventListener(jsonBtn, 'click', () => this.exportJSON());
+    }
+
+    const icsBtn = this.query<HTMLButtonElement>('.export-ics-btn');
+    if (icsBtn) {
+      this.addEventListener(icsBtn, 'click', () => this.exportCalendar());
+    }
+  }
+
+  /**
+   * Save a profile's free evenings from its row of checkboxes
+   */
+  private handleEveningChange(profileId: string): void {
+    const evenings = Array.from(this.queryAll<HTMLInputElement>('input[name="evening"]'))
+      .filter(checkbox => checkbox.dataset.profileId === profileId && checkbox.checked)
+      .map(checkbox => checkbox.value as AirDay);
+    this.showManager.setProfileEvenings(profileId, evenings);
+  }
+
+  /**
+   * Download the plan as JSON
+   */
+  exportJSON(): void {
+    downloadFile(JSON.stringify(this.plan, null, 2), `co-watch-${this.plan.start}.json`, 'application/json');
+    logger.info('Co-watch plan exported as JSON');
+  }
+
+  /**
+   * Download the plan's nights as an iCalendar file
+   */
+  exportCalendar(): void {
+    const calendar = buildICalendar(getCoWatchEvents(this.plan), 'Co-watching Nights');
+    downloadFile(calendar, `co-watch-${this.plan.start}.ics`, 'text/calendar');
+    logger.info('Co-watch plan exported as calendar');
+  }
+
+  /**
+   * Set the max episodes per night and re-plan
+   */
+  setMaxEpisodesPerNight(max: number): void {
+    this.maxEpisodesPerNight = max;
+    this.refresh();
+  }
+
+  /**
+   * Get the current plan
+   */
+  getPlan(): CoWatchPlan {
+    return this.plan;
+  }
+
+  /**
+   * Recalculate the plan and re-render
+   */
+  refresh(): void {
+    this.plan = this.calculatePlan();
+    if (this.mounted) {
+      this.update(this.props);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * CostPlanner Component - Shows the cheapest subscription plan for the followed shows
+ *
+ * Features:
+ * - Ads / ad-free tier toggle
+ * - Total cost for the planning window (a year by default)
+ * - Month timeline with the platforms to subscribe to and what to watch on each
+ * - Titles that no priced platform covers
+ * - Reactive updates from ReactiveShowManager (shows, estimates, hiatus calendar)
+ */
+
+import { BaseComponent, BaseProps } from './BaseComponent.js';
+import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
+import { Show, SeasonEstimate, CostPlan, CostPlanMonth, PriceTier } from '../types/index.js';
+import { buildCostPlan } from '../modules/costOptimizer.js';
+import { withEstimate } from '../modules/estimationEngine.js';
+import { registry } from '../services/registryService.js';
+import { renderPlatformChip } from '../utils/platformUtils.js';
+import { formatMonth } from '../utils/dateUtils.js';
+
+/**
+ * CostPlanner component properties
+ */
+export interface CostPlannerProps extends BaseProps {
+  /** Initial price tier (default: 'ads') */
+  tier?: PriceTier;
+  /** Season estimate source (default: the show manager's estimate settings) */
+  getEstimate?: (show: Show) => SeasonEstimate | null;
+  /** Callback when the plan is recalculated */
+  onPlanUpdate?: (plan: CostPlan) => void;
+}
+
+/**
+ * CostPlanner Component - Month-by-month subscription plan and yearly cost
+ */
+export class CostPlanner extends BaseComponent<CostPlannerProps> {
+  private showManager: ReactiveShowManager;
+  private tier: PriceTier;
+  private plan: CostPlan;
+
+  /**
+   * Create a new CostPlanner instance
+   */
+  constructor(props: CostPlannerProps, showManager: ReactiveShowManager) {
+    super(props);
+    this.showManager = showManager;
+    this.tier = props.tier ?? 'ads';
+    this.plan = this.calculatePlan();
+  }
+
+  /**
+   * Render the cost planner HTML
+   */
+  protected render(): string {
+    const { months, total, uncovered } = this.plan;
+    const first = months[0];
+    const last = months[months.length - 1];
+    const period = first && last ? `${formatMonth(first.month)} – ${formatMonth(last.month)}` : '';
+
+    return `
+      <div class="cost-planner">
+        <div class="cost-planner__header">
+          <h3 class="cost-planner__title">Subscription Plan</h3>
+          <label class="cost-planner__tier">
+            Tier
+            <select name="price-tier" aria-label="Price tier">
+              <option value="ads" ${this.tier === 'ads' ? 'selected' : ''}>With ads</option>
+              <option value="ad-free" ${this.tier === 'ad-free' ? 'selected' : ''}>Ad-free</option>
+            </select>
+          </label>
+        </div>
+
+        <div class="stat-card stat-card--cost">
+          <div class="stat-card__value">${this.formatPrice(total)}</div>
+          <div class="stat-card__label">Total ${this.escapeHtml(period)}</div>
+        </div>
+
+        <ol class="cost-timeline">
+          ${months.map(month => this.renderMonth(month)).join('')}
+        </ol>
+
+        ${uncovered.length > 0 ? `
+          <p class="cost-planner__uncovered muted">
+            Not covered by a priced platform: ${uncovered.map(title => this.escapeHtml(title)).join(', ')}
+          </p>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Render a month in the timeline
+   */
+  private renderMonth(month: CostPlanMonth): string {
+    const subscriptions = month.platforms.map(platform => {
+      const titles = month.shows[platform] ?? [];
+      return renderPlatformChip(platform, registry.getName('platform', platform), {
+        title: titles.join(', ')
+      });
+    }).join(' ');
+
+    return `
+      <li class="cost-timeline__month${month.platforms.length === 0 ? ' cost-timeline__month--empty' : ''}">
+        <span class="cost-timeline__label">${formatMonth(month.month)}</span>
+        <span class="cost-timeline__platforms">${subscriptions || '<span class="muted">No subscriptions</span>'}</span>
+        <span class="cost-timeline__cost">${this.formatPrice(month.cost)}</span>
+      </li>
+    `;
+  }
+
+  /**
+   * Calculate the plan from all shows, with estimates applied where enabled
+   */
+  private calculatePlan(): CostPlan {
+    const getEstimate = this.props.getEstimate ??
+      ((show: Show): SeasonEstimate | null => this.showManager.getSeasonEstimate(show));
+    const shows = Object.values(this.showManager.getAllShows())
+      .map(show => withEstimate(show, getEstimate(show)));
+
+    return buildCostPlan(shows, {
+      tier: this.tier,
+      calendar: this.showManager.getHiatusCalendar()
+    });
+  }
+
+  /**
+   * Format a price in dollars
+   */
+  private formatPrice(value: number): string {
+    return `$${value.toFixed(2)}`;
+  }
+
+  /**
+   * Called after component is mounted
+   */
+  protected override onMount(): void {
+    this.bindControls();
+
+    this.addSubscription(this.showManager.subscribeToShows(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToEstimates(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToHiatusCalendar(() => this.refresh()));
+    this.addSubscription(registry.subscribe(() => this.refresh()));
+  }
+
+  /**
+   * Called after component is re-rendered
+   */
+  protected override onUpdate(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Attach listeners to the rendered controls
+   */
+  private bindControls(): void {
+    const tierSelect = this.query<HTMLSelectElement>('select[name="price-tier"]');
+    if (tierSelect) {
+      this.addEventListener(tierSelect, 'change', () => {
+        this.setTier(tierSelect.value === 'ad-free' ? 'ad-free' : 'ads');
+      });
+    }
+  }
+
+  /**
+   * Change the price tier and recalculate
+   */
+  setTier(tier: PriceTier): void {
+    this.tier = tier;
+    this.refresh();
+  }
+
+  /**
+   * Get the current plan
+   */
+  getPlan(): CostPlan {
+    return this.plan;
+  }
+
+  /**
+   * Recalculate the plan and re-render
+   */
+  refresh(): void {
+    this.plan = this.calculatePlan();
+    if (this.mounted) {
+      this.update(this.props);
+    }
+    if (this.props.onPlanUpdate) {
+      this.props.onPlanUpdate(this.plan);
+    }
+  }
+}
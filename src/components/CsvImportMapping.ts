@@ -0,0 +1,137 @@
+/**
+ * CsvImportMapping Component - Maps a spreadsheet's columns onto show fields before importing it
+ *
+ * Features:
+ * - A row per CSV column with its header and sample values
+ * - A field choice per column, pre-filled from the header (or ignored)
+ * - Continue and cancel callbacks (the owner reads the rows with the mapping)
+ */
+
+import { BaseComponent, BaseProps } from './BaseComponent.js';
+import { CsvColumnMapping, CsvField, CsvTable } from '../types/index.js';
+import { CSV_FIELD_LABELS } from '../modules/showCsv.js';
+
+/**
+ * Number of sample values shown per column
+ */
+const SAMPLE_ROWS = 2;
+
+/**
+ * CsvImportMapping component properties
+ */
+export interface CsvImportMappingProps extends BaseProps {
+  /** Parsed CSV file */
+  table: CsvTable;
+  /** Initial field for each column */
+  mapping: CsvColumnMapping;
+  /** Optional name of the imported file */
+  fileName?: string;
+  /** Callback with the chosen field for each column */
+  onConfirm: (mapping: CsvColumnMapping) => void;
+  /** Optional callback when the import is cancelled */
+  onCancel?: () => void;
+}
+
+/**
+ * CsvImportMapping Component - CSV column mapping screen
+ */
+export class CsvImportMapping extends BaseComponent<CsvImportMappingProps> {
+
+  /**
+   * Create a new CsvImportMapping instance
+   */
+  constructor(props: CsvImportMappingProps) {
+    super(props);
+  }
+
+  /**
+   * Render the mapping screen HTML
+   */
+  protected render(): string {
+    const { table, fileName } = this.props;
+
+    return `
+      <div class="import-review" role="dialog" aria-label="Map CSV columns">
+        <div class="import-review__header">
+          <h3 class="import-review__title">Map CSV columns</h3>
+          ${fileName ? `<span class="muted">${this.escapeHtml(fileName)}</span>` : ''}
+        </div>
+
+        <p class="muted">
+          ${table.rows.length} row${table.rows.length === 1 ? '' : 's'}.
+          Rows are matched to shows by Show ID, or by Title when there is no ID column.
+        </p>
+
+        <table class="editor import-review__table">
+          <thead>
+            <tr>
+              <th scope="col">Column</th>
+              <th scope="col">Sample</th>
+              <th scope="col">Import as</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${table.headers.map((header, column) => this.renderColumn(header, column)).join('')}
+          </tbody>
+        </table>
+
+        <div class="import-review__actions">
+          <button type="button" class="btn apply-import-btn">Continue</button>
+          <button type="button" class="btn cancel-import-btn">Cancel</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render a column row with its sample values and field choice
+   */
+  private renderColumn(header: string, column: number): string {
+    const selected = this.props.mapping[column] ?? null;
+    const samples = this.props.table.rows
+      .slice(0, SAMPLE_ROWS)
+      .map(row => row[column] ?? '')
+      .filter(value => value !== '');
+
+    return `
+      <tr>
+        <td>${this.escapeHtml(header) || `<span class="muted">Column ${column + 1}</span>`}</td>
+        <td><span class="meta">${samples.map(value => this.escapeHtml(value)).join('<br>') || '—'}</span></td>
+        <td>
+          <select name="csv-field" data-column="${column}" aria-label="Import ${this.escapeHtml(header)} as">
+            <option value="" ${selected === null ? 'selected' : ''}>Ignore</option>
+            ${(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map(field => `
+              <option value="${field}" ${selected === field ? 'selected' : ''}>${CSV_FIELD_LABELS[field]}</option>
+            `).join('')}
+          </select>
+        </td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Called after component is mounted
+   */
+  protected override onMount(): void {
+    const continueBtn = this.query<HTMLButtonElement>('.apply-import-btn');
+    if (continueBtn) {
+      this.addEventListener(continueBtn, 'click', () => this.handleConfirm());
+    }
+
+    const cancelBtn = this.query<HTMLButtonElement>('.cancel-import-btn');
+    if (cancelBtn) {
+      this.addEventListener(cancelBtn, 'click', () => this.props.onCancel?.());
+    }
+  }
+
+  /**
+   * Confirm the chosen field for each column
+   */
+  private handleConfirm(): void {
+    const mapping: CsvColumnMapping = this.props.table.headers.map(() => null);
+    this.queryAll<HTMLSelectElement>('select[name="csv-field"]').forEach(select => {
+      mapping[Number(select.dataset.column)] = (select.value || null) as CsvField | null;
+    });
+    this.props.onConfirm(mapping);
+  }
+}
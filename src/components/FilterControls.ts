@@ -2,15 +2,20 @@
  * FilterControls Component - Provides filtering controls for TV shows
  * 
  * Features:
- * - Platform checkboxes (Hulu, Peacock, Paramount)
+ * - Platform checkboxes from the platform registry
  * - "Show Non-Returning" toggle
- * - "Use Estimates" toggle with network checkboxes
+ * - "Watchable Days" toggle (week view by streaming day instead of broadcast day)
+ * - "Premieres & Finales Only" toggle (week view limited to the selected week's season milestones)
+ * - "Use Estimates" toggle with registry network checkboxes (fills in missing end dates and episode counts)
+ * - Platform and non-returning choices saved with the selected household profile
  * - Reactive filtering through ReactiveShowManager
  */
 
 import { BaseComponent, BaseProps } from './BaseComponent.js';
 import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
 import { Platform, Network } from '../types/index.js';
+import { registry } from '../services/registryService.js';
+import { renderPlatformChip, renderNetworkBadge } from '../utils/platformUtils.js';
 
 /**
  * Filter state interface
@@ -20,6 +25,10 @@ export interface FilterState {
   platforms: Platform[];
   /** Whether to show non-returning shows */
   showNonReturning: boolean;
+  /** Whether the week view places shows on the day episodes can be streamed */
+  watchable: boolean;
+  /** Whether the week view only lists premieres and finales */
+  milestonesOnly: boolean;
   /** Whether to use network estimates */
   useEstimates: boolean;
   /** Selected networks for estimates */
@@ -42,6 +51,8 @@ export interface FilterControlsProps extends BaseProps {
 export class FilterControls extends BaseComponent<FilterControlsProps> {
   private showManager: ReactiveShowManager;
   private filterState: FilterState;
+  private knownPlatforms: Set<Platform>;
+  private applying = false;
 
   /**
    * Create a new FilterControls instance
@@ -52,27 +63,28 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
     
     // Initialize filter state with default values
     this.filterState = {
-      platforms: ['hulu', 'peacock', 'paramount'],
+      platforms: registry.getPlatforms().map(p => p.id),
       showNonReturning: false,
+      watchable: false,
+      milestonesOnly: false,
       useEstimates: false,
       estimateNetworks: []
     };
+    this.knownPlatforms = new Set(this.filterState.platforms);
   }
 
   /**
    * Render the filter controls HTML
    */
   protected render(): string {
-    const { platforms, showNonReturning, useEstimates, estimateNetworks } = this.filterState;
+    const { platforms, showNonReturning, watchable, milestonesOnly, useEstimates, estimateNetworks } = this.filterState;
 
     return `
       <div class="filter-controls">
         <div class="filter-section">
           <h3 class="filter-section__title">Platforms</h3>
           <div class="filter-group">
-            ${this.renderPlatformCheckbox('hulu', 'Hulu', platforms)}
-            ${this.renderPlatformCheckbox('peacock', 'Peacock', platforms)}
-            ${this.renderPlatformCheckbox('paramount', 'Paramount+', platforms)}
+            ${registry.getPlatforms().map(p => this.renderPlatformCheckbox(p.id, p.name, platforms)).join('')}
           </div>
         </div>
 
@@ -87,6 +99,22 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
               />
               <span>Show Non-Returning Shows</span>
             </label>
+            <label class="filter-checkbox" title="Place shows on the day new episodes can be streamed">
+              <input 
+                type="checkbox" 
+                name="watchable" 
+                ${watchable ? 'checked' : ''}
+              />
+              <span>Watchable Days</span>
+            </label>
+            <label class="filter-checkbox" title="Only list premieres, midseason finales and finales in the selected week">
+              <input 
+                type="checkbox" 
+                name="milestones-only" 
+                ${milestonesOnly ? 'checked' : ''}
+              />
+              <span>Premieres &amp; Finales Only</span>
+            </label>
           </div>
         </div>
 
@@ -105,10 +133,7 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
           
           ${useEstimates ? `
             <div class="filter-subgroup">
-              ${this.renderNetworkCheckbox('ABC', estimateNetworks)}
-              ${this.renderNetworkCheckbox('NBC', estimateNetworks)}
-              ${this.renderNetworkCheckbox('CBS', estimateNetworks)}
-              ${this.renderNetworkCheckbox('FOX', estimateNetworks)}
+              ${registry.getNetworks().map(n => this.renderNetworkCheckbox(n.id, estimateNetworks)).join('')}
             </div>
           ` : ''}
         </div>
@@ -138,7 +163,7 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
           value="${platform}" 
           ${isChecked ? 'checked' : ''}
         />
-        <span class="${platform} chip">${label}</span>
+        ${renderPlatformChip(platform, label)}
       </label>
     `;
   }
@@ -156,7 +181,7 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
           value="${network}" 
           ${isChecked ? 'checked' : ''}
         />
-        <span class="${network.toLowerCase()}-logo network-badge">${network}</span>
+        ${renderNetworkBadge(network, 'network-badge')}
       </label>
     `;
   }
@@ -165,6 +190,62 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
    * Called after component is mounted
    */
   protected override onMount(): void {
+    this.bindControls();
+
+    // Re-render when platforms or networks are added; new platforms start selected
+    this.addSubscription(
+      registry.subscribe(() => {
+        registry.getPlatforms().forEach(({ id }) => {
+          if (!this.knownPlatforms.has(id)) {
+            this.knownPlatforms.add(id);
+            this.filterState.platforms.push(id);
+          }
+        });
+        if (this.mounted) {
+          this.update(this.props);
+        }
+        this.applyFilters();
+      })
+    );
+
+    // Follow filter changes made elsewhere (e.g., opening a link or going back)
+    this.addSubscription(
+      this.showManager.subscribeToFilters(filters => {
+        if (this.applying) {
+          return;
+        }
+        const platforms = [...(filters.platforms ?? [])];
+        const showNonReturning = filters.returning !== true;
+        const samePlatforms = platforms.length === this.filterState.platforms.length &&
+          platforms.every(platform => this.filterState.platforms.includes(platform));
+        if (!samePlatforms || showNonReturning !== this.filterState.showNonReturning) {
+          this.setFilterState({ platforms, showNonReturning });
+        }
+      })
+    );
+
+    // Restore the filter preferences of a profile selected on its own
+    this.addSubscription(
+      this.showManager.subscribeToProfiles(() => {
+        const saved = this.showManager.getSelectedProfileFilters();
+        if (saved) {
+          this.setFilterState({ platforms: [...saved.platforms], showNonReturning: saved.showNonReturning });
+        }
+      })
+    );
+  }
+
+  /**
+   * Called after component is re-rendered
+   */
+  protected override onUpdate(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Attach listeners to the rendered controls
+   */
+  private bindControls(): void {
     // Set up platform checkbox listeners
     const platformCheckboxes = this.queryAll<HTMLInputElement>('input[name="platform"]');
     platformCheckboxes.forEach(checkbox => {
@@ -177,6 +258,18 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
       this.addEventListener(nonReturningCheckbox, 'change', this.handleNonReturningChange.bind(this));
     }
 
+    // Set up watchable days toggle
+    const watchableCheckbox = this.query<HTMLInputElement>('input[name="watchable"]');
+    if (watchableCheckbox) {
+      this.addEventListener(watchableCheckbox, 'change', this.handleWatchableChange.bind(this));
+    }
+
+    // Set up premieres and finales toggle
+    const milestonesCheckbox = this.query<HTMLInputElement>('input[name="milestones-only"]');
+    if (milestonesCheckbox) {
+      this.addEventListener(milestonesCheckbox, 'change', this.handleMilestonesOnlyChange.bind(this));
+    }
+
     // Set up use estimates toggle
     const useEstimatesCheckbox = this.query<HTMLInputElement>('input[name="use-estimates"]');
     if (useEstimatesCheckbox) {
@@ -231,6 +324,28 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
     this.applyFilters();
   }
 
+  /**
+   * Handle watchable days toggle change
+   */
+  private handleWatchableChange(event: Event): void {
+    const checkbox = event.target as HTMLInputElement;
+    this.filterState.watchable = checkbox.checked;
+    
+    // Auto-apply filters immediately
+    this.applyFilters();
+  }
+
+  /**
+   * Handle premieres and finales toggle change
+   */
+  private handleMilestonesOnlyChange(event: Event): void {
+    const checkbox = event.target as HTMLInputElement;
+    this.filterState.milestonesOnly = checkbox.checked;
+    
+    // Auto-apply filters immediately
+    this.applyFilters();
+  }
+
   /**
    * Handle use estimates toggle change
    */
@@ -274,8 +389,10 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
 
     // Reset to default state
     this.filterState = {
-      platforms: ['hulu', 'peacock', 'paramount'],
+      platforms: registry.getPlatforms().map(p => p.id),
       showNonReturning: false,
+      watchable: false,
+      milestonesOnly: false,
       useEstimates: false,
       estimateNetworks: []
     };
@@ -306,26 +423,43 @@ export class FilterControls extends BaseComponent<FilterControlsProps> {
    * Apply current filters to the show manager
    */
   private applyFilters(): void {
-    // Update show manager with new platform filters
-    this.showManager.setPlatformFilter(this.filterState.platforms);
-    
-    // Update returning filter based on showNonReturning toggle
-    // If showNonReturning is false, filter out non-returning shows (returning: true)
-    // If showNonReturning is true, show all shows (returning: undefined)
-    this.showManager.setReturningFilter(
-      this.filterState.showNonReturning ? undefined : true
-    );
+    // Platform and returning filters are set one at a time, so ignore the state in between
+    this.applying = true;
+    try {
+      // Update show manager with new platform filters
+      this.showManager.setPlatformFilter(this.filterState.platforms);
+
+      // Update returning filter based on showNonReturning toggle
+      // If showNonReturning is false, filter out non-returning shows (returning: true)
+      // If showNonReturning is true, show all shows (returning: undefined)
+      this.showManager.setReturningFilter(
+        this.filterState.showNonReturning ? undefined : true
+      );
+    } finally {
+      this.applying = false;
+    }
 
-    // Apply network filters when useEstimates is enabled
-    if (this.filterState.useEstimates && this.filterState.estimateNetworks.length > 0) {
-      this.showManager.setNetworkFilter(this.filterState.estimateNetworks);
-    } else if (this.filterState.useEstimates) {
-      // If useEstimates is on but no networks selected, show all networks
-      this.showManager.setNetworkFilter([]);
-    } else {
-      // If useEstimates is off, clear network filter (show all networks)
-      this.showManager.setNetworkFilter([]);
+    // Place week view shows on broadcast or streaming days
+    if (this.showManager.isWatchableMode() !== this.filterState.watchable) {
+      this.showManager.setWatchableMode(this.filterState.watchable);
     }
+
+    // Limit the week view to premieres and finales
+    if (this.showManager.isMilestonesOnly() !== this.filterState.milestonesOnly) {
+      this.showManager.setMilestonesOnly(this.filterState.milestonesOnly);
+    }
+
+    // Estimate missing season data for the selected networks (does not hide any shows)
+    this.showManager.setEstimateSettings({
+      enabled: this.filterState.useEstimates,
+      networks: this.filterState.estimateNetworks
+    });
+
+    // Remember platform and non-returning choices for the selected profile
+    this.showManager.saveProfileFilters({
+      platforms: [...this.filterState.platforms],
+      showNonReturning: this.filterState.showNonReturning
+    });
     
     // Notify callback
     if (this.props.onFilterChange) {
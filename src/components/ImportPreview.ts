@@ -0,0 +1,183 @@
+/**
+ * ImportPreview Component - Previews a JSON import per show before applying it
+ *
+ * Features:
+ * - A choice of merge strategy (replace, merge or skip existing shows)
+ * - When and by which version an exported file was made
+ * - A row per imported show with its status and changed fields
+ * - Validation errors for entries that are left out
+ * - Apply and cancel callbacks (the owner applies the plan)
+ */
+
+import { BaseComponent, BaseProps } from './BaseComponent.js';
+import { ImportPlan, ImportPreviewEntry, ImportStatus, ImportStrategy } from '../types/index.js';
+
+/**
+ * Merge strategy choices with a short description
+ */
+const STRATEGY_LABELS: Record<ImportStrategy, string> = {
+  replace: 'Replace — imported shows overwrite the guide\'s',
+  merge: 'Merge — fill in imported values and seasons',
+  skip: 'Skip existing — only add new shows'
+};
+
+/**
+ * Status labels
+ */
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'New',
+  updated: 'Updated',
+  unchanged: 'Unchanged',
+  skipped: 'Skipped',
+  invalid: 'Invalid'
+};
+
+/**
+ * ImportPreview component properties
+ */
+export interface ImportPreviewProps extends BaseProps {
+  /** Import worked out with the selected strategy */
+  plan: ImportPlan;
+  /** Optional name of the imported file */
+  fileName?: string;
+  /** Callback when another strategy is chosen (the owner rebuilds the plan) */
+  onStrategyChange: (strategy: ImportStrategy) => void;
+  /** Callback to apply the plan */
+  onApply: (plan: ImportPlan) => void;
+  /** Optional callback when the import is cancelled */
+  onCancel?: () => void;
+}
+
+/**
+ * ImportPreview Component - JSON import preview screen
+ */
+export class ImportPreview extends BaseComponent<ImportPreviewProps> {
+
+  /**
+   * Create a new ImportPreview instance
+   */
+  constructor(props: ImportPreviewProps) {
+    super(props);
+  }
+
+  /**
+   * Render the preview screen HTML
+   */
+  protected render(): string {
+    const { plan, fileName } = this.props;
+    const { imported, skipped, errors } = plan.result;
+
+    return `
+      <div class="import-review" role="dialog" aria-label="Review import">
+        <div class="import-review__header">
+          <h3 class="import-review__title">Review import</h3>
+          ${fileName ? `<span class="muted">${this.escapeHtml(fileName)}</span>` : ''}
+        </div>
+
+        ${plan.metadata ? `
+          <p class="muted">
+            Exported ${this.escapeHtml(new Date(plan.metadata.exportedAt).toLocaleString())}
+            from version ${this.escapeHtml(plan.metadata.appVersion)}
+          </p>
+        ` : ''}
+
+        <label class="import-review__strategy">
+          Shows already in the guide:
+          <select name="merge-strategy">
+            ${(Object.keys(STRATEGY_LABELS) as ImportStrategy[]).map(strategy => `
+              <option value="${strategy}" ${strategy === plan.strategy ? 'selected' : ''}>${this.escapeHtml(STRATEGY_LABELS[strategy])}</option>
+            `).join('')}
+          </select>
+        </label>
+
+        <p class="muted">
+          ${imported} to import · ${skipped} left out${errors.length > 0 ? ` · ${errors.length} error${errors.length === 1 ? '' : 's'}` : ''}
+        </p>
+
+        ${plan.entries.length > 0 ? `
+          <table class="editor import-review__table">
+            <thead>
+              <tr>
+                <th scope="col">Show</th>
+                <th scope="col">Status</th>
+                <th scope="col">Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${plan.entries.map(entry => this.renderEntry(entry)).join('')}
+            </tbody>
+          </table>
+        ` : `<p class="muted">${errors.map(error => this.escapeHtml(error)).join('<br>') || 'The file has no shows.'}</p>`}
+
+        <div class="import-review__actions">
+          <button type="button" class="btn apply-import-btn" ${imported === 0 ? 'disabled' : ''}>Apply import</button>
+          <button type="button" class="btn cancel-import-btn">Cancel</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render a show row with its status and changes (or errors)
+   */
+  private renderEntry(entry: ImportPreviewEntry): string {
+    const details = entry.status === 'invalid'
+      ? entry.errors.map(error => `<span class="import-review__error">${this.escapeHtml(error)}</span>`).join('<br>')
+      : entry.changes.map(change => `
+          ${this.escapeHtml(change.field)}:
+          <span class="muted">${this.formatValue(change.from)}</span> →
+          <strong>${this.formatValue(change.to)}</strong>
+        `).join('<br>');
+
+    return `
+      <tr>
+        <td>${this.escapeHtml(entry.title)}</td>
+        <td><span class="import-status import-status--${entry.status}">${STATUS_LABELS[entry.status]}</span></td>
+        <td>${details}</td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Format a field value, showing a dash for empty values
+   */
+  private formatValue(value: string): string {
+    return value === '' ? '—' : this.escapeHtml(value);
+  }
+
+  /**
+   * Called after component is mounted
+   */
+  protected override onMount(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Called after component is re-rendered
+   */
+  protected override onUpdate(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Attach listeners to the rendered controls
+   */
+  private bindControls(): void {
+    const strategySelect = this.query<HTMLSelectElement>('select[name="merge-strategy"]');
+    if (strategySelect) {
+      this.addEventListener(strategySelect, 'change', () => {
+        this.props.onStrategyChange(strategySelect.value as ImportStrategy);
+      });
+    }
+
+    const applyBtn = this.query<HTMLButtonElement>('.apply-import-btn');
+    if (applyBtn) {
+      this.addEventListener(applyBtn, 'click', () => this.props.onApply(this.props.plan));
+    }
+
+    const cancelBtn = this.query<HTMLButtonElement>('.cancel-import-btn');
+    if (cancelBtn) {
+      this.addEventListener(cancelBtn, 'click', () => this.props.onCancel?.());
+    }
+  }
+}
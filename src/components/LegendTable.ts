@@ -4,6 +4,7 @@
  * Features:
  * - Displays all shows in a table format
  * - Shows platform, network, title, season info, air day, status
+ * - Badges the season milestone (premiere, finale...) each show reaches in the selected week
  * - Uses ShowCard components for individual show display
  * - Supports sorting and filtering
  * - Integrates with ReactiveShowManager
@@ -18,7 +19,10 @@
 import { BaseComponent, BaseProps } from './BaseComponent.js';
 import { ShowCard } from './ShowCard.js';
 import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
-import { Show, ShowDatabase } from '../types/index.js';
+import { Show, ShowDatabase, SeasonEstimate, SeasonMilestone } from '../types/index.js';
+import { getSeasonMilestone } from '../modules/seasonMilestones.js';
+import { withEstimate } from '../modules/estimationEngine.js';
+import { getWeekRange } from '../utils/dateUtils.js';
 
 /**
  * LegendTable component properties
@@ -121,24 +125,52 @@ export class LegendTable extends BaseComponent<LegendTableProps> {
 
     // Subscribe to filtered shows changes
     this.unsubscribe = this.showManager.subscribeToFilteredShows((shows) => {
-      this.filteredShows = shows;
-      
-      if (this.mounted) {
-        // Clean up old show cards
-        this.cleanupShowCards();
-        
-        // Re-render
-        this.update(this.props);
-        
-        // Create new show cards
-        this.createShowCards();
-      }
+      this.refreshShows(shows);
     });
 
     // Track the subscription for cleanup
     if (this.unsubscribe) {
       this.addSubscription(this.unsubscribe);
     }
+
+    // Re-render when estimate settings change so estimated season data stays current
+    this.addSubscription(
+      this.showManager.subscribeToEstimates(() => {
+        this.refreshShows(this.showManager.getFilteredShows());
+      })
+    );
+
+    // Re-render when the hiatus calendar changes since estimated end dates depend on it
+    this.addSubscription(
+      this.showManager.subscribeToHiatusCalendar(() => {
+        this.refreshShows(this.showManager.getFilteredShows());
+      })
+    );
+
+    // Re-render when the selected week changes so milestone badges follow it
+    this.addSubscription(
+      this.showManager.subscribeToWeekOffset(() => {
+        this.refreshShows(this.showManager.getFilteredShows());
+      })
+    );
+  }
+
+  /**
+   * Update displayed shows and re-render
+   */
+  private refreshShows(shows: ShowDatabase): void {
+    this.filteredShows = shows;
+    
+    if (this.mounted) {
+      // Clean up old show cards
+      this.cleanupShowCards();
+      
+      // Re-render
+      this.update(this.props);
+      
+      // Create new show cards
+      this.createShowCards();
+    }
   }
 
   /**
@@ -146,13 +178,21 @@ export class LegendTable extends BaseComponent<LegendTableProps> {
    */
   private createShowCards(): void {
     const shows = Object.entries(this.filteredShows);
+    const { startDate, endDate } = getWeekRange(this.showManager.getWeekOffset());
+    const calendar = this.showManager.getHiatusCalendar();
     
     shows.forEach(([id, show]) => {
       const row = this.query<HTMLElement>(`[data-show-id="${id}"]`);
       if (row) {
         const container = row.querySelector('.show-card-container') as HTMLElement;
         if (container) {
-          const showCardProps: { show: Show; showEditButton: boolean; onEdit?: (show: Show) => void } = {
+          const showCardProps: {
+            show: Show;
+            showEditButton: boolean;
+            onEdit?: (show: Show) => void;
+            estimate?: SeasonEstimate;
+            milestone?: SeasonMilestone;
+          } = {
             show,
             showEditButton: this.props.showEditButton ?? false
           };
@@ -160,6 +200,16 @@ export class LegendTable extends BaseComponent<LegendTableProps> {
           if (this.props.onShowEdit) {
             showCardProps.onEdit = this.props.onShowEdit;
           }
+
+          const estimate = this.showManager.getSeasonEstimate(show);
+          if (estimate) {
+            showCardProps.estimate = estimate;
+          }
+
+          const milestone = getSeasonMilestone(withEstimate(show, estimate), startDate, endDate, calendar);
+          if (milestone) {
+            showCardProps.milestone = milestone;
+          }
           
           const showCard = new ShowCard(showCardProps);
           
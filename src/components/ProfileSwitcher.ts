@@ -0,0 +1,154 @@
+/**
+ * ProfileSwitcher Component - Chooses whose shows the views are scoped to
+ *
+ * Features:
+ * - A checkbox per household profile
+ * - No profile selected: everyone's shows; one profile: that person's shows and
+ *   saved filter preferences; several profiles: shared view of the shows all of
+ *   them follow
+ * - Adding profiles
+ * - Reactive updates from ReactiveShowManager (profiles and selection)
+ */
+
+import { BaseComponent, BaseProps } from './BaseComponent.js';
+import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
+import { Profile } from '../types/index.js';
+
+/**
+ * ProfileSwitcher component properties
+ */
+export interface ProfileSwitcherProps extends BaseProps {
+  /** Optional callback when the selected profiles change */
+  onSelect?: (ids: string[]) => void;
+}
+
+/**
+ * ProfileSwitcher Component - Household profile selection
+ */
+export class ProfileSwitcher extends BaseComponent<ProfileSwitcherProps> {
+  private showManager: ReactiveShowManager;
+
+  /**
+   * Create a new ProfileSwitcher instance
+   */
+  constructor(props: ProfileSwitcherProps, showManager: ReactiveShowManager) {
+    super(props);
+    this.showManager = showManager;
+  }
+
+  /**
+   * Render the profile switcher HTML
+   */
+  protected render(): string {
+    const profiles = this.showManager.getProfiles();
+    const selected = this.showManager.getSelectedProfileIds();
+
+    return `
+      <div class="profile-switcher" role="group" aria-label="Household profiles">
+        ${profiles.map(profile => `
+          <label class="profile-switcher__option">
+            <input type="checkbox" name="profile" value="${this.escapeHtml(profile.id)}" ${selected.includes(profile.id) ? 'checked' : ''}>
+            <span class="chip profile-chip">${this.escapeHtml(profile.name)}</span>
+          </label>
+        `).join('')}
+        <span class="profile-switcher__scope muted">${this.describeScope(profiles, selected)}</span>
+        <span class="profile-switcher__add">
+          <input type="text" class="profile-name-input" placeholder="New profile" aria-label="New profile name">
+          <button type="button" class="btn btn--small add-profile-btn">Add</button>
+        </span>
+      </div>
+    `;
+  }
+
+  /**
+   * Describe whose shows are in view (e.g., "Shared: 5 shows followed by Me & Nikki")
+   */
+  private describeScope(profiles: Profile[], selected: string[]): string {
+    const titles = this.showManager.getScopedTitles();
+    if (titles === null) {
+      return 'Everyone: all shows';
+    }
+
+    const names = profiles
+      .filter(profile => selected.includes(profile.id))
+      .map(profile => this.escapeHtml(profile.name));
+    const count = `${titles.length} show${titles.length === 1 ? '' : 's'}`;
+    return names.length > 1
+      ? `Shared: ${count} followed by ${names.join(' & ')}`
+      : `${names[0] ?? ''}: ${count}`;
+  }
+
+  /**
+   * Called after component is mounted
+   */
+  protected override onMount(): void {
+    this.bindControls();
+    this.addSubscription(this.showManager.subscribeToProfiles(() => this.refresh()));
+  }
+
+  /**
+   * Called after component is re-rendered
+   */
+  protected override onUpdate(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Attach listeners to the rendered controls
+   */
+  private bindControls(): void {
+    this.queryAll<HTMLInputElement>('input[name="profile"]').forEach(checkbox => {
+      this.addEventListener(checkbox, 'change', () => this.handleSelect());
+    });
+
+    const addBtn = this.query<HTMLButtonElement>('.add-profile-btn');
+    if (addBtn) {
+      this.addEventListener(addBtn, 'click', () => this.handleAdd());
+    }
+
+    const nameInput = this.query<HTMLInputElement>('.profile-name-input');
+    if (nameInput) {
+      this.addEventListener(nameInput, 'keydown', (event: Event) => {
+        if ((event as KeyboardEvent).key === 'Enter') {
+          event.preventDefault();
+          this.handleAdd();
+        }
+      });
+    }
+  }
+
+  /**
+   * Handle a profile checkbox change
+   */
+  private handleSelect(): void {
+    const ids = Array.from(this.queryAll<HTMLInputElement>('input[name="profile"]'))
+      .filter(checkbox => checkbox.checked)
+      .map(checkbox => checkbox.value);
+
+    this.showManager.selectProfiles(ids);
+
+    if (this.props.onSelect) {
+      this.props.onSelect(ids);
+    }
+  }
+
+  /**
+   * Handle adding a profile from the name input
+   */
+  private handleAdd(): void {
+    const nameInput = this.query<HTMLInputElement>('.profile-name-input');
+    const name = nameInput?.value.trim() ?? '';
+    if (name) {
+      this.showManager.addProfile(name);
+    }
+  }
+
+  /**
+   * Re-render with the current profiles and selection
+   */
+  refresh(): void {
+    if (this.mounted) {
+      this.update(this.props);
+    }
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * RotationCalendar Component - Shows which platforms are needed each month
+ *
+ * Features:
+ * - Month grid of needed platforms
+ * - Cancel recommendations for breaks with nothing airing, with the shows that
+ *   justify keeping the platform around them
+ * - Export as JSON or as calendar reminders (.ics) for subscribe/cancel dates
+ * - Reactive updates from ReactiveShowManager (shows, estimates, hiatus calendar)
+ */
+
+import { BaseComponent, BaseProps } from './BaseComponent.js';
+import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
+import { Show, SeasonEstimate, RotationPlan, PlatformRotation } from '../types/index.js';
+import { buildRotationPlan, getRotationReminders } from '../modules/rotationPlanner.js';
+import { withEstimate } from '../modules/estimationEngine.js';
+import { registry } from '../services/registryService.js';
+import { renderPlatformChip } from '../utils/platformUtils.js';
+import { formatMonth, formatShortDate } from '../utils/dateUtils.js';
+import { buildICalendar } from '../utils/icalUtils.js';
+import { downloadFile } from '../utils/domUtils.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * RotationCalendar component properties
+ */
+export interface RotationCalendarProps extends BaseProps {
+  /** Season estimate source (default: the show manager's estimate settings) */
+  getEstimate?: (show: Show) => SeasonEstimate | null;
+}
+
+/**
+ * RotationCalendar Component - Subscription rotation plan
+ */
+export class RotationCalendar extends BaseComponent<RotationCalendarProps> {
+  private showManager: ReactiveShowManager;
+  private plan: RotationPlan;
+
+  /**
+   * Create a new RotationCalendar instance
+   */
+  constructor(props: RotationCalendarProps, showManager: ReactiveShowManager) {
+    super(props);
+    this.showManager = showManager;
+    this.plan = this.calculatePlan();
+  }
+
+  /**
+   * Render the rotation calendar HTML
+   */
+  protected render(): string {
+    const { months, platforms } = this.plan;
+
+    return `
+      <div class="rotation-calendar">
+        <div class="rotation-calendar__header">
+          <h3 class="rotation-calendar__title">Subscription Rotation</h3>
+          <div class="rotation-calendar__actions">
+            <button type="button" class="btn btn--small export-json-btn">Export JSON</button>
+            <button type="button" class="btn btn--small export-ics-btn">Export Reminders (.ics)</button>
+          </div>
+        </div>
+
+        ${platforms.length === 0 ? '<p class="muted">No platforms needed in this period.</p>' : `
+          <table class="rotation-grid" role="table" aria-label="Platforms needed per month">
+            <thead>
+              <tr>
+                <th scope="col">Platform</th>
+                ${months.map(({ month }) => `<th scope="col">${formatMonth(month)}</th>`).join('')}
+              </tr>
+            </thead>
+            <tbody>
+              ${platforms.map(({ platform }) => `
+                <tr>
+                  <th scope="row">${renderPlatformChip(platform)}</th>
+                  ${months.map(m => m.platforms.includes(platform)
+                    ? '<td class="rotation-grid__cell rotation-grid__cell--needed" title="Needed">●</td>'
+                    : '<td class="rotation-grid__cell"></td>').join('')}
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+
+          <ul class="rotation-recommendations">
+            ${platforms.map(rotation => this.renderRecommendations(rotation)).join('')}
+          </ul>
+        `}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the keep and cancel recommendations for a platform
+   */
+  private renderRecommendations({ platform, windows, gaps }: PlatformRotation): string {
+    const name = this.escapeHtml(registry.getName('platform', platform));
+    const keep = windows.map(window => `
+      <li class="rotation-recommendations__item">
+        Keep <strong>${name}</strong> ${this.formatRange(window.start, window.end)}
+        <span class="muted">for ${window.shows.map(title => this.escapeHtml(title)).join(', ')}</span>
+      </li>
+    `);
+    const cancel = gaps.map(gap => `
+      <li class="rotation-recommendations__item rotation-recommendations__item--cancel">
+        <strong>${name}</strong> has nothing airing ${this.formatRange(gap.start, gap.end)} - safe to cancel
+      </li>
+    `);
+    return [...keep, ...cancel].join('');
+  }
+
+  /**
+   * Format an ISO date range (e.g., "Jan 10 – Feb 20")
+   */
+  private formatRange(start: string, end: string): string {
+    return `${formatShortDate(start)} – ${formatShortDate(end)}`;
+  }
+
+  /**
+   * Calculate the plan from all shows, with estimates applied where enabled
+   */
+  private calculatePlan(): RotationPlan {
+    const getEstimate = this.props.getEstimate ??
+      ((show: Show): SeasonEstimate | null => this.showManager.getSeasonEstimate(show));
+    const shows = Object.values(this.showManager.getAllShows())
+      .map(show => withEstimate(show, getEstimate(show)));
+
+    return buildRotationPlan(shows, { calendar: this.showManager.getHiatusCalendar() });
+  }
+
+  /**
+   * Called after component is mounted
+   */
+  protected override onMount(): void {
+    this.bindControls();
+
+    this.addSubscription(this.showManager.subscribeToShows(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToEstimates(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToHiatusCalendar(() => this.refresh()));
+    this.addSubscription(registry.subscribe(() => this.refresh()));
+  }
+
+  /**
+   * Called after component is re-rendered
+   */
+  protected override onUpdate(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Attach listeners to the rendered controls
+   */
+  private bindControls(): void {
+    const jsonBtn = this.query<HTMLButtonElement>('.export-json-btn');
+    if (jsonBtn) {
+      this.addEventListener(jsonBtn, 'click', () => this.exportJSON());
+    }
+
+    const icsBtn = this.query<HTMLButtonElement>('.export-ics-btn');
+    if (icsBtn) {
+      this.addEventListener(icsBtn, 'click', () => this.exportReminders());
+    }
+  }
+
+  /**
+   * Download the rotation plan as JSON
+   */
+  exportJSON(): void {
+    downloadFile(JSON.stringify(this.plan, null, 2), 'subscription-rotation.json', 'application/json');
+    logger.info('Rotation plan exported as JSON');
+  }
+
+  /**
+   * Download subscribe/cancel reminders as an iCalendar file
+   */
+  exportReminders(): void {
+    const calendar = buildICalendar(getRotationReminders(this.plan), 'Subscription Rotation');
+    downloadFile(calendar, 'subscription-rotation.ics', 'text/calendar');
+    logger.info('Rotation reminders exported');
+  }
+
+  /**
+   * Get the current plan
+   */
+  getPlan(): RotationPlan {
+    return this.plan;
+  }
+
+  /**
+   * Recalculate the plan and re-render
+   */
+  refresh(): void {
+    this.plan = this.calculatePlan();
+    if (this.mounted) {
+      this.update(this.props);
+    }
+  }
+}
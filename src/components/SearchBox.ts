@@ -38,6 +38,7 @@ export interface SearchBoxProps extends BaseProps {
 export class SearchBox extends BaseComponent<SearchBoxProps> {
   private showManager: ReactiveShowManager;
   private currentValue: string = '';
+  private lastSearch: string = '';
   private debounceTimeout: number | null = null;
 
   /**
@@ -119,6 +120,21 @@ export class SearchBox extends BaseComponent<SearchBoxProps> {
     if (clearBtn) {
       this.addEventListener(clearBtn, 'click', this.handleClear.bind(this));
     }
+
+    // Show searches made elsewhere (e.g., opening a link or going back)
+    this.addSubscription(
+      this.showManager.subscribeToFilters(filters => {
+        const searchTerm = filters.searchTerm ?? '';
+        if (searchTerm === this.lastSearch) {
+          return;
+        }
+        this.lastSearch = searchTerm;
+        this.currentValue = searchTerm;
+        if (this.mounted) {
+          this.update(this.props);
+        }
+      })
+    );
   }
 
   /**
@@ -158,6 +174,7 @@ export class SearchBox extends BaseComponent<SearchBoxProps> {
    */
   private executeSearch(query: string): void {
     // Update show manager search term
+    this.lastSearch = query;
     this.showManager.setSearchTerm(query);
     
     // Notify callback
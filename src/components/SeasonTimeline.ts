@@ -0,0 +1,236 @@
+/**
+ * SeasonTimeline Component - Shows each season as a bar on a horizontal timeline
+ *
+ * Features:
+ * - A bar per show from season start to end (or projected end), colored by platform
+ * - Bars grouped by platform or network, to spot gaps in a lineup
+ * - "Today" marker
+ * - Month and season zoom levels
+ * - Reactive updates from ReactiveShowManager (filtered shows, hiatus calendar)
+ */
+
+import { BaseComponent, BaseProps } from './BaseComponent.js';
+import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
+import { SeasonTimeline as SeasonTimelineData, TimelineBar, TimelineGroup, TimelineGrouping, TimelineScale } from '../types/index.js';
+import {
+  buildSeasonTimeline,
+  getTimelineDay,
+  getTimelineLength,
+  getTimelineTicks
+} from '../modules/seasonTimeline.js';
+import { CONFIG } from '../core/config.js';
+import { registry } from '../services/registryService.js';
+import { renderNetworkBadge, renderPlatformChip } from '../utils/platformUtils.js';
+import { formatShortDate } from '../utils/dateUtils.js';
+
+/**
+ * SeasonTimeline component properties
+ */
+export interface SeasonTimelineProps extends BaseProps {
+  /** Initial grouping (default: 'platform') */
+  groupBy?: TimelineGrouping;
+  /** Initial zoom level (default: 'season') */
+  scale?: TimelineScale;
+}
+
+/**
+ * SeasonTimeline Component - Gantt chart of the filtered shows' seasons
+ */
+export class SeasonTimeline extends BaseComponent<SeasonTimelineProps> {
+  private showManager: ReactiveShowManager;
+  private groupBy: TimelineGrouping;
+  private scale: TimelineScale;
+  private timeline: SeasonTimelineData;
+
+  /**
+   * Create a new SeasonTimeline instance
+   */
+  constructor(props: SeasonTimelineProps, showManager: ReactiveShowManager) {
+    super(props);
+    this.showManager = showManager;
+    this.groupBy = props.groupBy ?? 'platform';
+    this.scale = props.scale ?? 'season';
+    this.timeline = this.calculateTimeline();
+  }
+
+  /**
+   * Render the season timeline HTML
+   */
+  protected render(): string {
+    const { groups, undated, today } = this.timeline;
+    const dayWidth = CONFIG.TIMELINE_DAY_WIDTH[this.scale];
+    const width = getTimelineLength(this.timeline) * dayWidth;
+
+    return `
+      <div class="season-timeline">
+        <div class="season-timeline__header">
+          <h3 class="season-timeline__title">Season Timeline</h3>
+          <label class="season-timeline__group-by">
+            Group by
+            <select name="timeline-group" aria-label="Group seasons by">
+              <option value="platform" ${this.groupBy === 'platform' ? 'selected' : ''}>Platform</option>
+              <option value="network" ${this.groupBy === 'network' ? 'selected' : ''}>Network</option>
+            </select>
+          </label>
+          <div class="season-timeline__zoom" role="group" aria-label="Zoom">
+            ${(['month', 'season'] as TimelineScale[]).map(scale => `
+              <button type="button" class="btn btn--small zoom-btn${scale === this.scale ? ' active' : ''}"
+                data-scale="${scale}" aria-pressed="${scale === this.scale}">${scale === 'month' ? 'Month' : 'Season'}</button>
+            `).join('')}
+          </div>
+        </div>
+
+        ${groups.length === 0 ? '<p class="muted">No seasons with dates to show.</p>' : `
+          <div class="season-timeline__scroll">
+            <div class="season-timeline__chart" style="width: ${width}px">
+              <div class="season-timeline__axis">
+                ${getTimelineTicks(this.timeline, this.scale).map(tick => `
+                  <span class="season-timeline__tick" style="left: ${getTimelineDay(this.timeline, tick.date) * dayWidth}px">${this.escapeHtml(tick.label)}</span>
+                `).join('')}
+              </div>
+              ${groups.map(group => this.renderGroup(group, dayWidth)).join('')}
+              <div class="season-timeline__today" style="left: ${getTimelineDay(this.timeline, today) * dayWidth}px"
+                title="Today (${formatShortDate(today)})"></div>
+            </div>
+          </div>
+        `}
+
+        ${undated.length > 0 ? `
+          <p class="season-timeline__undated muted">
+            No season dates: ${undated.map(show => this.escapeHtml(show.t)).join(', ')}
+          </p>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Render a platform or network heading and its bars
+   */
+  private renderGroup(group: TimelineGroup, dayWidth: number): string {
+    const heading = this.groupBy === 'network' ? renderNetworkBadge(group.id) : renderPlatformChip(group.id);
+    return `
+      <div class="season-timeline__group" role="list" aria-label="${this.escapeHtml(registry.getName(this.groupBy, group.id))}">
+        <div class="season-timeline__group-name">${heading}</div>
+        ${group.bars.map(bar => this.renderBar(bar, dayWidth)).join('')}
+      </div>
+    `;
+  }
+
+  /**
+   * Render a season bar, colored like its platform chip
+   * Non-returning shows are styled as ended; projected ends are drawn faded.
+   */
+  private renderBar(bar: TimelineBar, dayWidth: number): string {
+    const { show, start, end, projected } = bar;
+    const left = getTimelineDay(this.timeline, start) * dayWidth;
+    const width = (getTimelineDay(this.timeline, end) - getTimelineDay(this.timeline, start) + 1) * dayWidth;
+    const color = registry.getColor('platform', show.c);
+    const background = color ? ` background: ${color};` : '';
+    const classes = [
+      this.escapeHtml(show.c),
+      'chip',
+      'timeline-bar',
+      show.ret ? '' : 'ended',
+      projected ? 'timeline-bar--projected' : ''
+    ].filter(Boolean).join(' ');
+    const details = `${show.t}: ${formatShortDate(start)} – ${formatShortDate(end)}${projected ? ' (projected end)' : ''}`;
+
+    return `
+      <div class="season-timeline__row" role="listitem">
+        <div class="${classes}" style="left: ${left}px; width: ${width}px;${background}"
+          title="${this.escapeHtml(details)}">${this.escapeHtml(show.t)}</div>
+      </div>
+    `;
+  }
+
+  /**
+   * Calculate the timeline from the filtered shows
+   */
+  private calculateTimeline(): SeasonTimelineData {
+    const entries = Object.entries(this.showManager.getFilteredShows())
+      .map(([id, show]) => ({ id: Number(id), show }));
+
+    return buildSeasonTimeline(entries, {
+      groupBy: this.groupBy,
+      calendar: this.showManager.getHiatusCalendar()
+    });
+  }
+
+  /**
+   * Called after component is mounted
+   */
+  protected override onMount(): void {
+    this.bindControls();
+
+    this.addSubscription(this.showManager.subscribeToFilteredShows(() => this.refresh()));
+    this.addSubscription(this.showManager.subscribeToHiatusCalendar(() => this.refresh()));
+    this.addSubscription(registry.subscribe(() => this.refresh()));
+  }
+
+  /**
+   * Called after component is re-rendered
+   */
+  protected override onUpdate(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Attach listeners to the rendered controls and bring today into view
+   */
+  private bindControls(): void {
+    const groupSelect = this.query<HTMLSelectElement>('select[name="timeline-group"]');
+    if (groupSelect) {
+      this.addEventListener(groupSelect, 'change', () => {
+        this.setGroupBy(groupSelect.value === 'network' ? 'network' : 'platform');
+      });
+    }
+
+    this.queryAll<HTMLButtonElement>('.zoom-btn').forEach(button => {
+      this.addEventListener(button, 'click', () => {
+        this.setScale(button.dataset.scale === 'month' ? 'month' : 'season');
+      });
+    });
+
+    const scroll = this.query<HTMLElement>('.season-timeline__scroll');
+    const today = this.query<HTMLElement>('.season-timeline__today');
+    if (scroll && today) {
+      scroll.scrollLeft = Math.max(today.offsetLeft - scroll.clientWidth / 3, 0);
+    }
+  }
+
+  /**
+   * Group the bars by platform or network
+   */
+  setGroupBy(groupBy: TimelineGrouping): void {
+    this.groupBy = groupBy;
+    this.refresh();
+  }
+
+  /**
+   * Zoom to the month or season scale
+   */
+  setScale(scale: TimelineScale): void {
+    this.scale = scale;
+    if (this.mounted) {
+      this.update(this.props);
+    }
+  }
+
+  /**
+   * Get the current timeline
+   */
+  getTimeline(): SeasonTimelineData {
+    return this.timeline;
+  }
+
+  /**
+   * Recalculate the timeline and re-render
+   */
+  refresh(): void {
+    this.timeline = this.calculateTimeline();
+    if (this.mounted) {
+      this.update(this.props);
+    }
+  }
+}
@@ -2,11 +2,16 @@
  * ShowCard Component - Displays a single TV show with all its information
  * 
  * Features:
- * - Platform chip (Hulu, Peacock, Paramount)
- * - Network badge (ABC, NBC, CBS, FOX)
+ * - A chip per streaming availability (primary starred) and a network badge
  * - Show title with returning/ended status styling
  * - Season information (number, start/end dates)
- * - Air day display
+ * - Episode airing in the selected week (SxxEyy), or a hiatus notice
+ * - Badge for the selected week's season milestone (premiere, midseason/season/series finale)
+ * - Episodes becoming watchable in the selected week (watchable mode)
+ * - Watch progress through the season, with watched checkboxes for the week's episodes
+ * - Follow toggles for each household profile
+ * - Estimated end dates and episode counts, marked as estimates
+ * - Air day and timeslot display, with a badge for overlapping timeslots
  * - Edit button with click handler
  * 
  * @example
@@ -18,7 +23,22 @@
  */
 
 import { BaseComponent, BaseProps } from './BaseComponent.js';
-import { Show } from '../types/index.js';
+import {
+  Show,
+  Episode,
+  WatchableEpisode,
+  SeasonEstimate,
+  EstimableField,
+  HiatusPeriod,
+  ProgressSummary,
+  Profile,
+  SeasonMilestone
+} from '../types/index.js';
+import { formatEpisodeCode, formatEpisodeRange } from '../modules/episodeSchedule.js';
+import { formatProgress } from '../modules/watchProgress.js';
+import { formatAirtime, formatConflict } from '../modules/airtime.js';
+import { formatMilestone, isEstimatedMilestone } from '../modules/seasonMilestones.js';
+import { renderAvailabilityChips, renderNetworkBadge } from '../utils/platformUtils.js';
 
 /**
  * ShowCard component properties
@@ -32,6 +52,28 @@ export interface ShowCardProps extends BaseProps {
   searchTerm?: string;
   /** Whether to show the edit button (default: false) */
   showEditButton?: boolean;
+  /** Optional episode airing in the selected week */
+  episode?: Episode;
+  /** Optional episodes becoming watchable in the selected week (shown instead of the airing episode) */
+  watchable?: WatchableEpisode[];
+  /** Optional break keeping the show off the air in the selected week */
+  hiatus?: HiatusPeriod;
+  /** Optional point of the season the show reaches in the selected week */
+  milestone?: SeasonMilestone;
+  /** Optional estimated season values to display alongside user data */
+  estimate?: SeasonEstimate;
+  /** Optional progress through the season's episode list */
+  progress?: ProgressSummary;
+  /** Optional titles of shows whose timeslots overlap this show's */
+  conflicts?: string[];
+  /** Watched episode numbers of the current season (default: none) */
+  watchedEpisodes?: number[];
+  /** Optional callback when an episode's watched checkbox is toggled (shows the checkboxes) */
+  onToggleWatched?: (show: Show, episode: number, watched: boolean) => void;
+  /** Optional household profiles to show follow toggles for */
+  profiles?: Profile[];
+  /** Optional callback when a profile's follow toggle is clicked */
+  onToggleFollow?: (show: Show, profileId: string, following: boolean) => void;
 }
 
 /**
@@ -50,16 +92,16 @@ export class ShowCard extends BaseComponent<ShowCardProps> {
    * Render the show card HTML
    */
   protected render(): string {
-    const { show, searchTerm, showEditButton = false } = this.props;
+    const {
+      show, searchTerm, episode, watchable, hiatus, milestone, estimate, progress, conflicts, showEditButton = false
+    } = this.props;
     
     // Determine status class (returning or ended)
     const statusClass = show.ret ? '' : 'ended';
     
-    // Format platform display (capitalize)
-    const platformDisplay = show.c.charAt(0).toUpperCase() + show.c.slice(1);
-    
     // Format season info
-    const seasonInfo = this.formatSeasonInfo(show);
+    const seasonInfo = this.formatSeasonInfo(show, estimate);
+    const episodeCount = this.formatEpisodeCount(show, estimate);
     
     // Format air day
     const airDay = show.air || 'TBD';
@@ -71,22 +113,67 @@ export class ShowCard extends BaseComponent<ShowCardProps> {
     
     return `
       <div class="show-card__header">
-        <span class="${show.c} chip">${platformDisplay}</span>
-        ${show.net ? `<span class="${show.net.toLowerCase()}-logo network-badge">${show.net}</span>` : ''}
+        ${renderAvailabilityChips(show)}
+        ${show.net ? renderNetworkBadge(show.net, 'network-badge') : ''}
+        ${this.renderFollowToggles()}
       </div>
       <div class="show-card__content">
         <h3 class="show-title ${statusClass}">${displayTitle}</h3>
+        ${milestone ? this.renderMilestoneBadge(milestone, isEstimatedMilestone(milestone, estimate)) : ''}
+        ${conflicts && conflicts.length > 0 ? `
+          <span class="conflict-badge">${this.escapeHtml(formatConflict(conflicts))}</span>
+        ` : ''}
         <div class="show-card__meta">
           <div class="show-meta-item">
             <span class="meta-label">Air Day:</span>
             <span class="meta-value">${airDay}</span>
           </div>
+          ${show.airtime ? `
+            <div class="show-meta-item">
+              <span class="meta-label">Time:</span>
+              <span class="meta-value airtime">${formatAirtime(show.airtime)}</span>
+            </div>
+          ` : ''}
+          ${watchable && watchable.length > 0 ? `
+            <div class="show-meta-item">
+              <span class="meta-label">Stream:</span>
+              <span class="meta-value episode-code">${formatEpisodeRange(watchable)}</span>
+              <span class="meta-value">${watchable[0]?.watchDate ?? ''}</span>
+              ${this.renderWatchedToggles(watchable)}
+            </div>
+          ` : ''}
+          ${episode && !watchable ? `
+            <div class="show-meta-item">
+              <span class="meta-label">Episode:</span>
+              <span class="meta-value episode-code">${formatEpisodeCode(episode.season, episode.number)}</span>
+              <span class="meta-value">${episode.airDate}</span>
+              ${this.renderWatchedToggles([episode])}
+            </div>
+          ` : ''}
+          ${!episode && hiatus ? `
+            <div class="show-meta-item">
+              <span class="meta-label">Episode:</span>
+              <span class="meta-value hiatus" title="${this.escapeHtml(hiatus.label ?? 'Hiatus')}">no new episode (hiatus)</span>
+            </div>
+          ` : ''}
           ${seasonInfo ? `
             <div class="show-meta-item">
               <span class="meta-label">Season:</span>
               <span class="meta-value">${seasonInfo}</span>
             </div>
           ` : ''}
+          ${episodeCount ? `
+            <div class="show-meta-item">
+              <span class="meta-label">Episodes:</span>
+              <span class="meta-value">${episodeCount}</span>
+            </div>
+          ` : ''}
+          ${progress ? `
+            <div class="show-meta-item">
+              <span class="meta-label">Progress:</span>
+              <span class="meta-value watch-progress">${formatProgress(progress)}</span>
+            </div>
+          ` : ''}
           <div class="show-meta-item">
             <span class="meta-label">Status:</span>
             <span class="meta-value status-${show.ret ? 'returning' : 'ended'}">
@@ -105,10 +192,57 @@ export class ShowCard extends BaseComponent<ShowCardProps> {
     `;
   }
 
+  /**
+   * Render a follow toggle per household profile (only when profiles are given)
+   */
+  private renderFollowToggles(): string {
+    const { show, profiles } = this.props;
+    if (!profiles || profiles.length === 0) {
+      return '';
+    }
+    return `
+      <span class="follow-toggles">
+        ${profiles.map(profile => {
+          const following = profile.followed.includes(show.t);
+          const action = following ? 'Unfollow' : 'Follow';
+          return `
+            <button type="button" class="follow-toggle${following ? ' follow-toggle--on' : ''}"
+              data-profile-id="${this.escapeHtml(profile.id)}" aria-pressed="${following}"
+              title="${action} for ${this.escapeHtml(profile.name)}">${this.escapeHtml(profile.name)}</button>
+          `;
+        }).join('')}
+      </span>
+    `;
+  }
+
+  /**
+   * Render the badge for the selected week's season milestone, marking estimated finales
+   */
+  private renderMilestoneBadge(milestone: SeasonMilestone, estimated: boolean): string {
+    const title = estimated ? ' title="Estimated from network defaults"' : '';
+    return `<span class="milestone-badge milestone-badge--${milestone}"${title}>${formatMilestone(milestone, estimated)}</span>`;
+  }
+
+  /**
+   * Render watched checkboxes for episodes (only when a toggle callback is set)
+   */
+  private renderWatchedToggles(episodes: Episode[]): string {
+    if (!this.props.onToggleWatched) {
+      return '';
+    }
+    const watched = this.props.watchedEpisodes ?? [];
+    return episodes.map(episode => `
+      <label class="watched-toggle" title="Mark ${formatEpisodeCode(episode.season, episode.number)} watched">
+        <input type="checkbox" data-episode="${episode.number}" ${watched.includes(episode.number) ? 'checked' : ''}>
+        ${episodes.length > 1 ? `E${episode.number}` : 'Watched'}
+      </label>
+    `).join('');
+  }
+
   /**
    * Format season information for display
    */
-  private formatSeasonInfo(show: Show): string {
+  private formatSeasonInfo(show: Show, estimate?: SeasonEstimate): string {
     const seasonNum = show.s ? `S${show.s}` : 'S?';
     
     if (!show.start && !show.end) {
@@ -118,6 +252,10 @@ export class ShowCard extends BaseComponent<ShowCardProps> {
     if (show.start && show.end) {
       return `${seasonNum}: ${show.start} – ${show.end}`;
     }
+
+    if (show.start && estimate?.end) {
+      return `${seasonNum}: ${show.start} – ${this.markEstimate(estimate.end, 'end', estimate)}`;
+    }
     
     if (show.start) {
       return `${seasonNum}: ${show.start} – Present`;
@@ -126,6 +264,31 @@ export class ShowCard extends BaseComponent<ShowCardProps> {
     return `${seasonNum}`;
   }
 
+  /**
+   * Format episode count for display, marking estimated counts
+   */
+  private formatEpisodeCount(show: Show, estimate?: SeasonEstimate): string {
+    if (show.eps !== null) {
+      return String(show.eps);
+    }
+    
+    if (estimate?.eps) {
+      return this.markEstimate(String(estimate.eps), 'eps', estimate);
+    }
+    
+    return '';
+  }
+
+  /**
+   * Wrap a value in an estimate marker if the field was estimated
+   */
+  private markEstimate(value: string, field: EstimableField, estimate: SeasonEstimate): string {
+    if (!estimate.estimated.includes(field)) {
+      return value;
+    }
+    return `<span class="estimate" title="Estimated from network defaults">${value} (est.)</span>`;
+  }
+
   /**
    * Highlight search term in text
    */
@@ -159,6 +322,41 @@ export class ShowCard extends BaseComponent<ShowCardProps> {
         this.addEventListener(editBtn, 'click', this.handleEdit.bind(this));
       }
     }
+
+    this.queryAll<HTMLInputElement>('.watched-toggle input').forEach(checkbox => {
+      this.addEventListener(checkbox, 'change', this.handleWatchedToggle.bind(this));
+    });
+
+    this.queryAll<HTMLButtonElement>('.follow-toggle').forEach(button => {
+      this.addEventListener(button, 'click', this.handleFollowToggle.bind(this));
+    });
+  }
+
+  /**
+   * Handle a follow toggle click
+   */
+  private handleFollowToggle(event: Event): void {
+    event.preventDefault();
+    event.stopPropagation();
+    const button = event.currentTarget as HTMLButtonElement;
+    const profileId = button.dataset.profileId;
+
+    if (this.props.onToggleFollow && profileId) {
+      this.props.onToggleFollow(this.props.show, profileId, button.getAttribute('aria-pressed') !== 'true');
+    }
+  }
+
+  /**
+   * Handle a watched checkbox change
+   */
+  private handleWatchedToggle(event: Event): void {
+    event.stopPropagation();
+    const checkbox = event.target as HTMLInputElement;
+    const episode = Number(checkbox.dataset.episode);
+
+    if (this.props.onToggleWatched && episode) {
+      this.props.onToggleWatched(this.props.show, episode, checkbox.checked);
+    }
   }
 
   /**
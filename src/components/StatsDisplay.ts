@@ -4,14 +4,19 @@
  * Features:
  * - Total show count
  * - Returning vs non-returning breakdown
- * - Platform distribution (Hulu, Peacock, Paramount)
- * - Network distribution (ABC, NBC, CBS, FOX)
+ * - Platform and network distribution for every registry entry
+ * - Counts for shows on unregistered platforms/networks (e.g., from imports)
+ * - Heatmap of the episodes airing each week of the broadcast year, per platform;
+ *   clicking a week opens it in the week view
  * - Reactive updates from ReactiveShowManager
  */
 
 import { BaseComponent, BaseProps } from './BaseComponent.js';
 import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
-import { Platform, Network } from '../types/index.js';
+import { Platform, Network, RegistryEntry, Show, SeasonEstimate, AiringHeatmap, HeatmapWeek } from '../types/index.js';
+import { registry } from '../services/registryService.js';
+import { buildAiringHeatmap } from '../modules/airingHeatmap.js';
+import { formatMonth, formatShortDate } from '../utils/dateUtils.js';
 
 /**
  * Statistics data structure
@@ -30,6 +35,8 @@ export interface ShowStats {
 export interface StatsDisplayProps extends BaseProps {
   /** Callback when stats are updated */
   onStatsUpdate?: (stats: ShowStats) => void;
+  /** Season estimate source for the heatmap (default: the show manager's estimate settings) */
+  getEstimate?: (show: Show) => SeasonEstimate | null;
 }
 
 /**
@@ -38,6 +45,7 @@ export interface StatsDisplayProps extends BaseProps {
 export class StatsDisplay extends BaseComponent<StatsDisplayProps> {
   private showManager: ReactiveShowManager;
   private currentStats: ShowStats;
+  private heatmap: AiringHeatmap;
   private unsubscribe: (() => void) | null = null;
 
   /**
@@ -47,6 +55,7 @@ export class StatsDisplay extends BaseComponent<StatsDisplayProps> {
     super(props);
     this.showManager = showManager;
     this.currentStats = this.calculateStats();
+    this.heatmap = this.calculateHeatmap();
   }
 
   /**
@@ -79,10 +88,62 @@ export class StatsDisplay extends BaseComponent<StatsDisplayProps> {
             ${this.renderNetworkStats(stats.byNetwork)}
           </div>
         </div>
+
+        <div class="stats-section">
+          <h3 class="stats-section__title">Episodes by Week</h3>
+          ${this.renderHeatmap()}
+        </div>
       </div>
     `;
   }
 
+  /**
+   * Render the airing heatmap: a row per platform, a column per week
+   */
+  private renderHeatmap(): string {
+    const { weeks, platforms, max } = this.heatmap;
+    if (platforms.length === 0) {
+      return '<p class="muted">No episodes airing this broadcast year.</p>';
+    }
+
+    const selected = this.showManager.getWeekOffset();
+    const columns = `grid-template-columns: auto repeat(${weeks.length}, minmax(10px, 1fr))`;
+    const months = weeks.map((week, i) => {
+      const month = week.start.slice(0, 7);
+      const label = i === 0 || weeks[i - 1]?.start.slice(0, 7) !== month ? formatMonth(month).split(' ')[0] ?? '' : '';
+      return `<span class="airing-heatmap__month">${label}</span>`;
+    }).join('');
+
+    return `
+      <div class="airing-heatmap" role="grid" aria-label="Episodes airing each week by platform" style="${columns}">
+        <span></span>${months}
+        ${platforms.map(platform => `
+          <span class="airing-heatmap__platform">${this.escapeHtml(registry.getName('platform', platform))}</span>
+          ${weeks.map(week => this.renderHeatmapCell(week, platform, max, week.offset === selected)).join('')}
+        `).join('')}
+      </div>
+    `;
+  }
+
+  /**
+   * Render a week's cell for a platform, shaded by its episode count
+   */
+  private renderHeatmapCell(week: HeatmapWeek, platform: Platform, max: number, selected: boolean): string {
+    const count = week.counts[platform] ?? 0;
+    const color = registry.getColor('platform', platform);
+    const shade = count > 0 && color ? ` style="background: ${color}; opacity: ${(0.25 + 0.75 * count / max).toFixed(2)}"` : '';
+    const label = `Week of ${formatShortDate(week.start)}: ${count} ${registry.getName('platform', platform)} episode${count === 1 ? '' : 's'} (${week.total} in all)`;
+    const classes = [
+      'airing-heatmap__cell',
+      count === 0 ? 'airing-heatmap__cell--empty' : '',
+      week.offset === 0 ? 'airing-heatmap__cell--current' : '',
+      selected ? 'airing-heatmap__cell--selected' : ''
+    ].filter(Boolean).join(' ');
+
+    return `<button type="button" class="${classes}" data-week-offset="${week.offset}"${shade}
+      title="${this.escapeHtml(label)}" aria-label="${this.escapeHtml(label)}"></button>`;
+  }
+
   /**
    * Calculate statistics from show manager
    */
@@ -98,16 +159,25 @@ export class StatsDisplay extends BaseComponent<StatsDisplayProps> {
     };
   }
 
+  /**
+   * Count the episodes airing each week from the filtered shows (the week view's shows)
+   */
+  private calculateHeatmap(): AiringHeatmap {
+    const getEstimate = this.props.getEstimate ??
+      ((show: Show): SeasonEstimate | null => this.showManager.getSeasonEstimate(show));
+    return buildAiringHeatmap(Object.values(this.showManager.getFilteredShows()), {
+      getEstimate,
+      calendar: this.showManager.getHiatusCalendar()
+    });
+  }
+
   /**
    * Render platform statistics
    */
   private renderPlatformStats(byPlatform: Record<Platform, number>): string {
-    const platforms: Platform[] = ['hulu', 'peacock', 'paramount'];
-    
-    return platforms.map(platform => {
-      const count = byPlatform[platform] || 0;
-      const label = platform.charAt(0).toUpperCase() + platform.slice(1);
-      return this.renderBreakdownItem(label, count, platform);
+    return this.withUnregistered(registry.getPlatforms(), byPlatform).map(platform => {
+      const count = byPlatform[platform.id] || 0;
+      return this.renderBreakdownItem(platform.name, count, platform.id, `background: ${platform.color}`);
     }).join('');
   }
 
@@ -115,14 +185,22 @@ export class StatsDisplay extends BaseComponent<StatsDisplayProps> {
    * Render network statistics
    */
   private renderNetworkStats(byNetwork: Record<Network, number>): string {
-    const networks: Network[] = ['ABC', 'NBC', 'CBS', 'FOX'];
-    
-    return networks.map(network => {
-      const count = byNetwork[network] || 0;
-      return this.renderBreakdownItem(network, count, network.toLowerCase());
+    return this.withUnregistered(registry.getNetworks(), byNetwork).map(network => {
+      const count = byNetwork[network.id] || 0;
+      return this.renderBreakdownItem(network.name, count, network.id.toLowerCase(), `color: ${network.color}`);
     }).join('');
   }
 
+  /**
+   * Append placeholder entries for counted IDs missing from the registry
+   */
+  private withUnregistered(entries: readonly RegistryEntry[], counts: Record<string, number>): RegistryEntry[] {
+    const unregistered = Object.keys(counts)
+      .filter(id => !entries.some(entry => entry.id === id))
+      .map(id => ({ id, name: id, color: 'inherit', defaultEpisodes: null }));
+    return [...entries, ...unregistered];
+  }
+
   /**
    * Render individual stat card
    */
@@ -138,13 +216,13 @@ export class StatsDisplay extends BaseComponent<StatsDisplayProps> {
   /**
    * Render breakdown item (platform/network)
    */
-  private renderBreakdownItem(label: string, count: number, cssClass: string): string {
+  private renderBreakdownItem(label: string, count: number, cssClass: string, style: string): string {
     const percentage = this.currentStats.total > 0 ? Math.round((count / this.currentStats.total) * 100) : 0;
 
     return `
       <div class="breakdown-item">
         <div class="breakdown-item__info">
-          <span class="breakdown-item__label ${cssClass}">${this.escapeHtml(label)}</span>
+          <span class="breakdown-item__label ${this.escapeHtml(cssClass)}" style="${style}">${this.escapeHtml(label)}</span>
           <span class="breakdown-item__count">${count}</span>
         </div>
         <div class="breakdown-item__bar">
@@ -181,6 +259,66 @@ export class StatsDisplay extends BaseComponent<StatsDisplayProps> {
     if (this.unsubscribe) {
       this.addSubscription(this.unsubscribe);
     }
+
+    // The heatmap follows the filtered shows, projected air dates and the selected week
+    const refreshHeatmap = (): void => {
+      this.heatmap = this.calculateHeatmap();
+      if (this.mounted) {
+        this.update(this.props);
+      }
+    };
+    this.addSubscription(this.showManager.subscribeToFilteredShows(refreshHeatmap));
+    this.addSubscription(this.showManager.subscribeToEstimates(refreshHeatmap));
+    this.addSubscription(this.showManager.subscribeToHiatusCalendar(refreshHeatmap));
+    this.addSubscription(registry.subscribe(refreshHeatmap));
+    this.addSubscription(this.showManager.subscribeToWeekOffset(() => {
+      if (this.mounted) {
+        this.update(this.props);
+      }
+    }));
+
+    this.bindControls();
+  }
+
+  /**
+   * Called after component is re-rendered
+   */
+  protected override onUpdate(): void {
+    this.bindControls();
+  }
+
+  /**
+   * Attach the heatmap's week click listener
+   */
+  private bindControls(): void {
+    const heatmap = this.query<HTMLElement>('.airing-heatmap');
+    if (heatmap) {
+      this.addEventListener(heatmap, 'click', (event: Event) => {
+        const cell = (event.target as HTMLElement).closest<HTMLElement>('[data-week-offset]');
+        if (cell) {
+          this.selectWeek(Number(cell.dataset.weekOffset));
+        }
+      });
+    }
+  }
+
+  /**
+   * Open a week in the week view
+   */
+  selectWeek(offset: number): void {
+    const week = this.heatmap.weeks.find(w => w.offset === offset);
+    this.showManager.setWeekOffset(offset, week ? `jump to week of ${week.start}` : undefined);
+    const view = this.showManager.getCurrentView();
+    if (view !== 'week' && view !== 'grid') {
+      this.showManager.setCurrentView('week');
+    }
+  }
+
+  /**
+   * Get the current airing heatmap
+   */
+  getHeatmap(): AiringHeatmap {
+    return this.heatmap;
   }
 
   /**
@@ -195,6 +333,7 @@ export class StatsDisplay extends BaseComponent<StatsDisplayProps> {
    */
   refresh(): void {
     this.currentStats = this.calculateStats();
+    this.heatmap = this.calculateHeatmap();
     if (this.mounted) {
       this.update(this.props);
     }
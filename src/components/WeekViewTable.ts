@@ -1,12 +1,32 @@
 /**
  * WeekViewTable Component
  * Displays shows in a weekly calendar grid grouped by day of the week
+ * (broadcast day, or the day episodes can be streamed in watchable mode),
+ * ordered by timeslot with overlapping broadcast slots badged and premieres and finales
+ * marked (optionally listing only those)
  */
 
 import { BaseComponent, BaseProps } from './BaseComponent.js';
 import { ShowCard } from './ShowCard.js';
 import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
-import { Show, ShowDatabase, AirDay } from '../types/index.js';
+import {
+  Show,
+  ShowDatabase,
+  AirDay,
+  Episode,
+  WatchableEpisode,
+  SeasonEstimate,
+  HiatusPeriod,
+  ProgressSummary,
+  SeasonMilestone
+} from '../types/index.js';
+import { buildEpisodeSchedule, findEpisodeInRange, isSeasonAiring } from '../modules/episodeSchedule.js';
+import { withEstimate } from '../modules/estimationEngine.js';
+import { findHiatusInRange } from '../modules/hiatusCalendar.js';
+import { getShowRule, getWatchableEpisodes, findWatchableInRange } from '../modules/availability.js';
+import { compareByAirtime, findConflicts } from '../modules/airtime.js';
+import { getSeasonMilestone, isPremiereOrFinale } from '../modules/seasonMilestones.js';
+import { getWeekRange, parseISODate } from '../utils/dateUtils.js';
 
 /**
  * Props for WeekViewTable component
@@ -36,6 +56,10 @@ export class WeekViewTable extends BaseComponent<WeekViewTableProps> {
     Friday: {},
     Saturday: {}
   };
+  /** Episodes becoming watchable this week per day and show (watchable mode only) */
+  private watchableEpisodes: Partial<Record<AirDay, Record<number, WatchableEpisode[]>>> = {};
+  /** Titles each show's timeslot overlaps per day (broadcast mode only) */
+  private conflicts: Partial<Record<AirDay, Map<string, string[]>>> = {};
   private readonly days: readonly AirDay[] = [
     'Sunday',
     'Monday',
@@ -117,7 +141,7 @@ export class WeekViewTable extends BaseComponent<WeekViewTableProps> {
     const dayShows = this.weekShows[day];
     
     return Object.entries(dayShows)
-      .sort(([, a], [, b]) => a.t.localeCompare(b.t))
+      .sort(([, a], [, b]) => compareByAirtime(a, b))
       .map(([id]) => this.renderShowRow(id))
       .join('');
   }
@@ -138,65 +162,172 @@ export class WeekViewTable extends BaseComponent<WeekViewTableProps> {
    */
   protected override onMount(): void {
     // Subscribe to week shows changes
-    this.subscribeToWeekShows();
+    this.addSubscription(
+      this.manager.subscribeToWeekView((weekData) => {
+        this.refreshWeekShows(weekData);
+      })
+    );
     
-    // Subscribe to week offset changes to refresh the view
+    // Subscribe to week offset changes so episode numbers follow the selected week
     this.addSubscription(
       this.manager.subscribeToWeekOffset(() => {
-        this.subscribeToWeekShows();
+        this.refreshWeekShows(this.manager.getWeekViewData());
+      })
+    );
+
+    // Subscribe to estimate settings changes to refresh estimated season data
+    this.addSubscription(
+      this.manager.subscribeToEstimates(() => {
+        this.refreshWeekShows(this.manager.getWeekViewData());
+      })
+    );
+
+    // Subscribe to hiatus calendar changes to refresh projected air dates
+    this.addSubscription(
+      this.manager.subscribeToHiatusCalendar(() => {
+        this.refreshWeekShows(this.manager.getWeekViewData());
+      })
+    );
+
+    // Subscribe to watchable mode changes to switch between broadcast and streaming days
+    this.addSubscription(
+      this.manager.subscribeToWatchableMode(() => {
+        this.refreshWeekShows(this.manager.getWeekViewData());
+      })
+    );
+
+    // Subscribe to the premieres-and-finales filter
+    this.addSubscription(
+      this.manager.subscribeToMilestonesOnly(() => {
+        this.refreshWeekShows(this.manager.getWeekViewData());
+      })
+    );
+
+    // Subscribe to watch progress changes so checkboxes and progress counts stay current
+    this.addSubscription(
+      this.manager.subscribeToProgress(() => {
+        this.refreshWeekShows(this.manager.getWeekViewData());
       })
     );
   }
 
   /**
-   * Subscribe to week shows and re-render when they change
+   * Update week shows from week view data and re-render
    */
-  private subscribeToWeekShows(): void {
-    this.addSubscription(
-      this.manager.subscribeToWeekView((weekData) => {
-        // Convert array format to ShowDatabase format
-        const convertedWeekShows: Record<AirDay, ShowDatabase> = {
-          Sunday: {},
-          Monday: {},
-          Tuesday: {},
-          Wednesday: {},
-          Thursday: {},
-          Friday: {},
-          Saturday: {}
-        };
-
-        // Convert Show[] to ShowDatabase for each day
-        this.days.forEach(day => {
-          const showsForDay = weekData[day];
-          showsForDay.forEach((show, index) => {
-            // ShowDatabase uses numeric IDs
-            const numericId = index;
-            convertedWeekShows[day][numericId] = show;
-          });
-        });
-
-        // Update internal state
-        this.weekShows = convertedWeekShows;
-        
-        // Re-render the component
-        this.update({});
-        
-        // Recreate show cards after DOM update
-        this.cleanupShowCards();
-        this.createShowCards();
-      })
+  private refreshWeekShows(weekData: Record<AirDay, Show[]>): void {
+    // Convert array format to ShowDatabase format
+    const convertedWeekShows: Record<AirDay, ShowDatabase> = {
+      Sunday: {},
+      Monday: {},
+      Tuesday: {},
+      Wednesday: {},
+      Thursday: {},
+      Friday: {},
+      Saturday: {}
+    };
+    const { startDate, endDate } = getWeekRange(this.manager.getWeekOffset());
+    this.watchableEpisodes = {};
+    this.conflicts = {};
+
+    // Premieres and finales only: leave out weeks of regular episodes (and breaks)
+    const milestonesOnly = this.manager.isMilestonesOnly();
+    const isListed = (show: Show): boolean =>
+      !milestonesOnly || isPremiereOrFinale(this.getMilestone(show, startDate, endDate));
+
+    if (this.manager.isWatchableMode()) {
+      this.groupByWatchableDay(convertedWeekShows, startDate, endDate, isListed);
+      this.weekShows = convertedWeekShows;
+      this.update({});
+      this.cleanupShowCards();
+      this.createShowCards();
+      return;
+    }
+
+    // Only keep shows whose season (including estimated end) overlaps the selected week
+    const isAiringThisWeek = (show: Show): boolean =>
+      isSeasonAiring(withEstimate(show, this.manager.getSeasonEstimate(show)), startDate, endDate);
+
+    // Convert Show[] to ShowDatabase for each day
+    this.days.forEach(day => {
+      const showsForDay = weekData[day]
+        .filter(show => isAiringThisWeek(show) && isListed(show))
+        .sort(compareByAirtime);
+      this.conflicts[day] = findConflicts(showsForDay);
+      showsForDay.forEach((show, index) => {
+        // ShowDatabase uses numeric IDs
+        const numericId = index;
+        convertedWeekShows[day][numericId] = show;
+      });
+    });
+
+    // Update internal state
+    this.weekShows = convertedWeekShows;
+    
+    // Re-render the component
+    this.update({});
+    
+    // Recreate show cards after DOM update
+    this.cleanupShowCards();
+    this.createShowCards();
+  }
+
+  /**
+   * Get the season milestone a show reaches in a week, with its season estimate applied
+   */
+  private getMilestone(show: Show, startDate: Date, endDate: Date): SeasonMilestone | null {
+    return getSeasonMilestone(
+      withEstimate(show, this.manager.getSeasonEstimate(show)),
+      startDate,
+      endDate,
+      this.manager.getHiatusCalendar()
     );
   }
 
+  /**
+   * Group the filtered shows by the day their episodes become watchable this week
+   * Shows with nothing to stream this week are left out
+   */
+  private groupByWatchableDay(
+    weekShows: Record<AirDay, ShowDatabase>,
+    startDate: Date,
+    endDate: Date,
+    isListed: (show: Show) => boolean
+  ): void {
+    const calendar = this.manager.getHiatusCalendar();
+
+    Object.values(this.manager.getFilteredShows()).filter(isListed).forEach(show => {
+      const estimated = withEstimate(show, this.manager.getSeasonEstimate(show));
+      const schedule = buildEpisodeSchedule(estimated, calendar);
+      const episodes = findWatchableInRange(
+        getWatchableEpisodes(schedule, getShowRule(show)),
+        startDate,
+        endDate
+      );
+      const watchDate = episodes[0] ? parseISODate(episodes[0].watchDate) : null;
+      const day = watchDate ? this.days[watchDate.getDay()] : undefined;
+      if (!day) {
+        return;
+      }
+
+      const index = Object.keys(weekShows[day]).length;
+      weekShows[day][index] = show;
+      this.watchableEpisodes[day] = { ...this.watchableEpisodes[day], [index]: episodes };
+    });
+  }
+
   /**
    * Create ShowCard instances for all shows in the week
    */
   private createShowCards(): void {
+    const { startDate, endDate } = getWeekRange(this.manager.getWeekOffset());
+    const calendar = this.manager.getHiatusCalendar();
+
     this.days.forEach(day => {
       const dayShows = this.weekShows[day];
       
       Object.entries(dayShows).forEach(([id, show]) => {
-        const row = this.query<HTMLElement>(`[data-show-id="${id}"]`);
+        // Row IDs restart at 0 for each day, so look them up within the day column
+        const row = this.query<HTMLElement>(`[data-day-shows="${day}"] [data-show-id="${id}"]`);
         if (row) {
           const container = row.querySelector('.show-card-container') as HTMLElement;
           if (container) {
@@ -205,14 +336,61 @@ export class WeekViewTable extends BaseComponent<WeekViewTableProps> {
               show: Show;
               showEditButton: boolean;
               onEdit?: (show: Show) => void;
+              episode?: Episode;
+              watchable?: WatchableEpisode[];
+              hiatus?: HiatusPeriod;
+              milestone?: SeasonMilestone;
+              estimate?: SeasonEstimate;
+              progress?: ProgressSummary;
+              conflicts?: string[];
+              watchedEpisodes: number[];
+              onToggleWatched: (show: Show, episode: number, watched: boolean) => void;
             } = {
               show,
-              showEditButton: this.props.showEditButton ?? false
+              showEditButton: this.props.showEditButton ?? false,
+              watchedEpisodes: this.manager.getWatchedEpisodes(show),
+              onToggleWatched: (target, episode, watched) => {
+                this.manager.setEpisodeWatched(target, episode, watched);
+              }
             };
             
             if (this.props.onShowEdit) {
               showCardProps.onEdit = this.props.onShowEdit;
             }
+
+            const estimate = this.manager.getSeasonEstimate(show);
+            if (estimate) {
+              showCardProps.estimate = estimate;
+            }
+
+            const progress = this.manager.getProgressSummary(show, estimate);
+            if (progress) {
+              showCardProps.progress = progress;
+            }
+
+            const conflicts = this.conflicts[day]?.get(show.t);
+            if (conflicts) {
+              showCardProps.conflicts = conflicts;
+            }
+
+            const watchable = this.watchableEpisodes[day]?.[Number(id)];
+            if (watchable) {
+              showCardProps.watchable = watchable;
+            }
+
+            const schedule = buildEpisodeSchedule(withEstimate(show, estimate), calendar);
+            const episode = findEpisodeInRange(schedule, startDate, endDate);
+            const hiatus = episode ? undefined : findHiatusInRange(show, startDate, endDate, calendar);
+            if (episode) {
+              showCardProps.episode = episode;
+            } else if (hiatus) {
+              showCardProps.hiatus = hiatus;
+            }
+
+            const milestone = this.getMilestone(show, startDate, endDate);
+            if (milestone) {
+              showCardProps.milestone = milestone;
+            }
             
             const showCard = new ShowCard(showCardProps);
             showCard.mount(container);
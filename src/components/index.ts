@@ -17,6 +17,9 @@ export type { FilterControlsProps, FilterState } from './FilterControls.js';
 export { SearchBox } from './SearchBox.js';
 export type { SearchBoxProps } from './SearchBox.js';
 
+export { ProfileSwitcher } from './ProfileSwitcher.js';
+export type { ProfileSwitcherProps } from './ProfileSwitcher.js';
+
 // Week navigation components
 export { WeekNavigator } from './WeekNavigator.js';
 export type { WeekNavigatorProps } from './WeekNavigator.js';
@@ -24,6 +27,22 @@ export type { WeekNavigatorProps } from './WeekNavigator.js';
 // Statistics and reporting components
 export { StatsDisplay } from './StatsDisplay.js';
 export type { StatsDisplayProps, ShowStats } from './StatsDisplay.js';
+export { CostPlanner } from './CostPlanner.js';
+export type { CostPlannerProps } from './CostPlanner.js';
+export { RotationCalendar } from './RotationCalendar.js';
+export type { RotationCalendarProps } from './RotationCalendar.js';
+export { SeasonTimeline } from './SeasonTimeline.js';
+export type { SeasonTimelineProps } from './SeasonTimeline.js';
+export { CoWatchPlanner } from './CoWatchPlanner.js';
+export type { CoWatchPlannerProps } from './CoWatchPlanner.js';
+
+// Import components
+export { CalendarImportReview } from './CalendarImportReview.js';
+export type { CalendarImportReviewProps } from './CalendarImportReview.js';
+export { ImportPreview } from './ImportPreview.js';
+export type { ImportPreviewProps } from './ImportPreview.js';
+export { CsvImportMapping } from './CsvImportMapping.js';
+export type { CsvImportMappingProps } from './CsvImportMapping.js';
 
 // Table components
 export { LegendTable } from './LegendTable.js';
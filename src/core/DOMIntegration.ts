@@ -5,22 +5,116 @@
  */
 
 import { logger } from '../utils/logger.js';
-import { ShowManager } from '../modules/showManager.js';
+import { ShowManager, ShowFilters } from '../modules/showManager.js';
 import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
-import { Show } from '../types/index.js';
+import { CONFIG } from './config.js';
+import {
+  Show,
+  Network,
+  RegistryKind,
+  RegistryEntry,
+  EstimateSettings,
+  SeasonEstimate,
+  EstimableField,
+  HiatusCalendar,
+  HiatusPeriod,
+  HiatusScope,
+  Episode,
+  WatchableEpisode,
+  Airtime,
+  TimeFeed,
+  AirDay,
+  GridBlock,
+  MonthCalendarDay,
+  SeasonMilestone,
+  ShowDatabase,
+  DisplayMode,
+  ExportFormat,
+  ImportStrategy,
+  ImportPlan,
+  ImportPreviewEntry,
+  ExportFilterContext,
+  ExportOptions,
+  StateBackup
+} from '../types/index.js';
+import {
+  buildEpisodeSchedule,
+  findEpisodeInRange,
+  isSeasonAiring,
+  formatEpisodeCode,
+  formatEpisodeRange
+} from '../modules/episodeSchedule.js';
+import { getSeasonEstimate, withEstimate } from '../modules/estimationEngine.js';
+import { addHiatusPeriod, findHiatusInRange, removeHiatusPeriod } from '../modules/hiatusCalendar.js';
+import {
+  getSeasons,
+  getLatestSeason,
+  recordSeason,
+  toSeasonRecord,
+  formatSeasonRecord
+} from '../modules/seasonHistory.js';
+import { registry } from '../services/registryService.js';
+import {
+  getSelectedPlatforms,
+  renderPlatformChip,
+  renderAvailabilityChips,
+  renderNetworkBadge
+} from '../utils/platformUtils.js';
+import {
+  isAvailableOn,
+  parseAvailabilityRule,
+  getShowRule,
+  getWatchableEpisodes,
+  findWatchableInRange
+} from '../modules/availability.js';
+import { formatProgress } from '../modules/watchProgress.js';
+import { compareByAirtime, findConflicts, formatAirtime, formatConflict, formatTime } from '../modules/airtime.js';
+import { buildTimeslotGrid } from '../modules/timeslotGrid.js';
+import { buildMonthCalendar } from '../modules/monthCalendar.js';
+import {
+  formatMilestone,
+  getSeasonMilestone,
+  isEstimatedMilestone,
+  isPremiereOrFinale
+} from '../modules/seasonMilestones.js';
+import { getShowCalendarEvents } from '../modules/showCalendar.js';
+import { buildICalendar, isICalendar, parseICalendar } from '../utils/icalUtils.js';
+import { buildCalendarProposals } from '../modules/calendarImport.js';
+import { addRejectedEntries, buildImportPlan, formatImportResult } from '../modules/dataImport.js';
+import { buildShowsCsv, guessCsvMapping, readCsvShows, readCsvTable } from '../modules/showCsv.js';
+import { buildExportData, buildStateBackup, isStateBackup } from '../modules/dataExport.js';
+import { CalendarImportReview } from '../components/CalendarImportReview.js';
+import { ImportPreview } from '../components/ImportPreview.js';
+import { CsvImportMapping } from '../components/CsvImportMapping.js';
+import { CostPlanner } from '../components/CostPlanner.js';
+import { RotationCalendar } from '../components/RotationCalendar.js';
+import { SeasonTimeline } from '../components/SeasonTimeline.js';
+import { StatsDisplay } from '../components/StatsDisplay.js';
+import { CoWatchPlanner } from '../components/CoWatchPlanner.js';
+import { ProfileSwitcher } from '../components/ProfileSwitcher.js';
+import { downloadFile, escapeHtml } from '../utils/domUtils.js';
+import { compressText, readFileText, stripCompressedExtension } from '../utils/compression.js';
+import { getMonthKey, getMonthOffset, parseISODate } from '../utils/dateUtils.js';
 
 export interface DOMElements {
   btnAll: HTMLButtonElement | null;
   btnWeek: HTMLButtonElement | null;
+  btnGrid: HTMLButtonElement | null;
+  btnMonth: HTMLButtonElement | null;
   viewAll: HTMLElement | null;
   viewWeek: HTMLElement | null;
+  viewMonth: HTMLElement | null;
   searchInput: HTMLInputElement | null;
   clearSearch: HTMLButtonElement | null;
   allList: HTMLElement | null;
   weekTable: HTMLElement | null;
+  timeslotGrid: HTMLElement | null;
   importBtn: HTMLButtonElement | null;
   exportBtn: HTMLButtonElement | null;
+  exportFormat: HTMLSelectElement | null;
+  exportCompress: HTMLInputElement | null;
   importFile: HTMLInputElement | null;
+  importReview: HTMLElement | null;
   legendTable: HTMLElement | null;
   editWrap: HTMLElement | null;
   editor: HTMLElement | null;
@@ -34,12 +128,40 @@ export interface DOMElements {
   nextWeek: HTMLButtonElement | null;
   weekRange: HTMLElement | null;
   jumpDate: HTMLInputElement | null;
+  prevMonth: HTMLButtonElement | null;
+  thisMonth: HTMLButtonElement | null;
+  nextMonth: HTMLButtonElement | null;
+  monthRange: HTMLElement | null;
+  jumpMonthDate: HTMLInputElement | null;
+  monthCalendar: HTMLElement | null;
+  platformFilters: HTMLElement | null;
+  estimateNetworkFilters: HTMLElement | null;
+  registryKind: HTMLSelectElement | null;
+  registryId: HTMLInputElement | null;
+  registryName: HTMLInputElement | null;
+  registryColor: HTMLInputElement | null;
+  registryEps: HTMLInputElement | null;
+  registryRule: HTMLSelectElement | null;
+  addRegistryEntry: HTMLButtonElement | null;
+  hiatusScope: HTMLSelectElement | null;
+  hiatusKey: HTMLInputElement | null;
+  hiatusStart: HTMLInputElement | null;
+  hiatusEnd: HTMLInputElement | null;
+  hiatusLabel: HTMLInputElement | null;
+  addHiatus: HTMLButtonElement | null;
+  hiatusList: HTMLElement | null;
+  costPlanner: HTMLElement | null;
+  rotationCalendar: HTMLElement | null;
+  seasonTimeline: HTMLElement | null;
+  statsDisplay: HTMLElement | null;
+  coWatchPlanner: HTMLElement | null;
+  profileSwitcher: HTMLElement | null;
 }
 
 export interface ViewMode {
-  current: 'all' | 'week';
-  setMode: (mode: 'all' | 'week') => void;
-  onModeChange?: (mode: 'all' | 'week') => void;
+  current: DisplayMode;
+  setMode: (mode: DisplayMode) => void;
+  onModeChange?: (mode: DisplayMode) => void;
 }
 
 /**
@@ -54,6 +176,13 @@ export class DOMIntegration {
   private showManager: ShowManager; // Legacy - kept for backward compatibility
   private reactiveShowManager?: ReactiveShowManager;
   private unsubscribers: Array<() => void> = [];
+  private costPlanner: CostPlanner | null = null;
+  private rotationCalendar: RotationCalendar | null = null;
+  private seasonTimeline: SeasonTimeline | null = null;
+  private statsDisplay: StatsDisplay | null = null;
+  private coWatchPlanner: CoWatchPlanner | null = null;
+  private profileSwitcher: ProfileSwitcher | null = null;
+  private importReview: CalendarImportReview | CsvImportMapping | ImportPreview | null = null;
 
   constructor(showManager: ShowManager, reactiveShowManager?: ReactiveShowManager) {
     this.showManager = showManager;
@@ -72,19 +201,34 @@ export class DOMIntegration {
    */
   init(): void {
     try {
+      this.renderRegistryFilters();
       this.setupEventListeners();
+
+      // Re-render filters and views when platforms or networks are added
+      this.unsubscribers.push(registry.subscribe(() => {
+        logger.debug('Registry changed - updating filters and views');
+        this.renderRegistryFilters();
+        this.syncFiltersToState(); // Newly added platforms start checked
+        this.renderCurrentView();
+        this.renderLegend();
+        this.renderEditor();
+      }));
       
       // Setup reactive subscriptions if ReactiveShowManager is available
       if (this.reactiveShowManager) {
         this.setupReactiveSubscriptions();
         this.updateHistoryButtons(); // Initialize history button states
         this.updateWeekRangeDisplay(); // Initialize week range display
+        this.updateMonthRangeDisplay(); // Initialize month range display
+        this.mountPlanners();
+        this.mountProfileSwitcher();
         logger.info('Reactive subscriptions enabled');
       } else {
         logger.warn('ReactiveShowManager not available - using legacy mode');
       }
       
       this.setMode('all'); // Start with "All Shows" view
+      this.syncFiltersToState(); // The router keeps the filters in the URL
       
       // Render legend and editor with individual error handling
       try {
@@ -95,6 +239,7 @@ export class DOMIntegration {
       
       try {
         this.renderEditor(); // Render the editor form
+        this.renderHiatusList();
       } catch (editorError) {
         logger.error('Failed to render editor', editorError);
       }
@@ -117,11 +262,7 @@ export class DOMIntegration {
     // Subscribe to filtered shows changes - updates both All Shows and Week views
     const unsubFilteredShows = this.reactiveShowManager.subscribeToFilteredShows(() => {
       logger.debug('Filtered shows changed - updating current view');
-      if (this.viewMode.current === 'all') {
-        this.renderAllShows();
-      } else {
-        this.renderWeekView();
-      }
+      this.renderCurrentView();
       this.renderLegend(); // Update legend when shows change
       this.updateHistoryButtons(); // Update history buttons after state changes
     });
@@ -129,39 +270,98 @@ export class DOMIntegration {
 
     // Subscribe to show changes - updates editor
     const unsubShows = this.reactiveShowManager.subscribeToShows(() => {
-      logger.debug('Shows changed - updating editor');
+      logger.debug('Shows changed - updating show table, views and editor');
+      // Undo and redo only change the reactive shows, so mirror them before rendering
+      this.syncShowTable();
+      this.renderCurrentView();
+      this.renderLegend();
       this.renderEditor();
       this.updateHistoryButtons(); // Update history buttons after state changes
     });
     this.unsubscribers.push(unsubShows);
 
-    // Subscribe to filter changes - updates all views
+    // Subscribe to filter changes - updates the filter boxes (e.g., from a link) and all views
     const unsubFilters = this.reactiveShowManager.subscribeToFilters(() => {
       logger.debug('Filters changed - updating views');
-      if (this.viewMode.current === 'all') {
-        this.renderAllShows();
-      } else {
-        this.renderWeekView();
-      }
+      this.applyStateFilters();
+      this.renderCurrentView();
       this.renderLegend();
       this.updateHistoryButtons(); // Update history buttons after state changes
     });
     this.unsubscribers.push(unsubFilters);
 
-    // Subscribe to week offset changes - updates week view and range display
+    // Subscribe to week offset changes - updates week view or grid and range display
     const unsubWeekOffset = this.reactiveShowManager.subscribeToWeekOffset((offset) => {
       logger.info(`Week offset subscription fired: offset=${offset}, current view=${this.viewMode.current}`);
-      if (this.viewMode.current === 'week') {
-        logger.info('Calling renderWeekView() from subscription...');
-        this.renderWeekView();
+      if (this.viewMode.current === 'week' || this.viewMode.current === 'grid') {
+        logger.info('Re-rendering week view from subscription...');
+        this.renderCurrentView();
       } else {
-        logger.info('Not in week view, skipping renderWeekView()');
+        logger.info('Not in week view, skipping week render');
       }
+      this.renderLegend(); // Legend badges follow the selected week
       this.updateWeekRangeDisplay();
       this.updateHistoryButtons(); // Update history buttons after state changes
     });
     this.unsubscribers.push(unsubWeekOffset);
 
+    // Subscribe to month offset changes - updates the month calendar and range display
+    const unsubMonthOffset = this.reactiveShowManager.subscribeToMonthOffset(() => {
+      if (this.viewMode.current === 'month') {
+        this.renderMonthView();
+      }
+      this.updateMonthRangeDisplay();
+      this.updateHistoryButtons(); // Update history buttons after state changes
+    });
+    this.unsubscribers.push(unsubMonthOffset);
+
+    // Subscribe to hiatus calendar changes - projected air dates move with it
+    const unsubHiatus = this.reactiveShowManager.subscribeToHiatusCalendar(() => {
+      logger.debug('Hiatus calendar changed - updating views');
+      this.renderCurrentView();
+      this.renderLegend();
+      this.renderHiatusList();
+    });
+    this.unsubscribers.push(unsubHiatus);
+
+    // Subscribe to profile changes - restores a profile's filters and re-scopes the views
+    const unsubProfiles = this.reactiveShowManager.subscribeToProfiles(() => {
+      logger.debug('Profiles changed - updating views');
+      this.applyProfileFilters();
+      this.syncFiltersToState();
+      this.renderCurrentView();
+      this.updateHistoryButtons();
+    });
+    this.unsubscribers.push(unsubProfiles);
+
+    // Subscribe to view changes - e.g., opening a link or going back
+    const unsubView = this.reactiveShowManager.subscribeToCurrentView((view) => {
+      if (view !== this.viewMode.current) {
+        this.setMode(view);
+      }
+    });
+    this.unsubscribers.push(unsubView);
+
+    // Subscribe to focused show changes - highlights the show in the all shows list
+    const unsubFocus = this.reactiveShowManager.subscribeToFocusedShow((id) => {
+      if (this.viewMode.current === 'all') {
+        this.renderAllShows();
+      }
+      if (id !== null) {
+        this.elements.allList?.querySelector(`.show-title[data-show-id="${id}"]`)
+          ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      }
+    });
+    this.unsubscribers.push(unsubFocus);
+
+    // Subscribe to watch progress changes - updates progress counts and checkboxes
+    const unsubProgress = this.reactiveShowManager.subscribeToProgress(() => {
+      logger.debug('Watch progress changed - updating views');
+      this.renderCurrentView();
+      this.updateHistoryButtons();
+    });
+    this.unsubscribers.push(unsubProgress);
+
     logger.info('Reactive subscriptions setup complete');
   }
 
@@ -172,15 +372,22 @@ export class DOMIntegration {
     return {
       btnAll: document.getElementById('btnAll') as HTMLButtonElement,
       btnWeek: document.getElementById('btnWeek') as HTMLButtonElement,
+      btnGrid: document.getElementById('btnGrid') as HTMLButtonElement,
+      btnMonth: document.getElementById('btnMonth') as HTMLButtonElement,
       viewAll: document.getElementById('viewAll'),
       viewWeek: document.getElementById('viewWeek'),
+      viewMonth: document.getElementById('viewMonth'),
       searchInput: document.getElementById('searchInput') as HTMLInputElement,
       clearSearch: document.getElementById('clearSearch') as HTMLButtonElement,
       allList: document.getElementById('allList'),
       weekTable: document.getElementById('weekTable'),
+      timeslotGrid: document.getElementById('timeslotGrid'),
       importBtn: document.getElementById('importBtn') as HTMLButtonElement,
       exportBtn: document.getElementById('exportBtn') as HTMLButtonElement,
+      exportFormat: document.getElementById('exportFormat') as HTMLSelectElement,
+      exportCompress: document.getElementById('exportCompress') as HTMLInputElement,
       importFile: document.getElementById('importFile') as HTMLInputElement,
+      importReview: document.getElementById('importReview'),
       legendTable: document.getElementById('legendTable'),
       editWrap: document.getElementById('editWrap'),
       editor: document.getElementById('editor'),
@@ -193,7 +400,35 @@ export class DOMIntegration {
       thisWeek: document.getElementById('thisWeek') as HTMLButtonElement,
       nextWeek: document.getElementById('nextWeek') as HTMLButtonElement,
       weekRange: document.getElementById('weekRange'),
-      jumpDate: document.getElementById('jumpDate') as HTMLInputElement
+      jumpDate: document.getElementById('jumpDate') as HTMLInputElement,
+      prevMonth: document.getElementById('prevMonth') as HTMLButtonElement,
+      thisMonth: document.getElementById('thisMonth') as HTMLButtonElement,
+      nextMonth: document.getElementById('nextMonth') as HTMLButtonElement,
+      monthRange: document.getElementById('monthRange'),
+      jumpMonthDate: document.getElementById('jumpMonthDate') as HTMLInputElement,
+      monthCalendar: document.getElementById('monthCalendar'),
+      platformFilters: document.getElementById('platformFilters'),
+      estimateNetworkFilters: document.getElementById('estimateNetworkFilters'),
+      registryKind: document.getElementById('registryKind') as HTMLSelectElement,
+      registryId: document.getElementById('registryId') as HTMLInputElement,
+      registryName: document.getElementById('registryName') as HTMLInputElement,
+      registryColor: document.getElementById('registryColor') as HTMLInputElement,
+      registryEps: document.getElementById('registryEps') as HTMLInputElement,
+      registryRule: document.getElementById('registryRule') as HTMLSelectElement,
+      addRegistryEntry: document.getElementById('addRegistryEntry') as HTMLButtonElement,
+      hiatusScope: document.getElementById('hiatusScope') as HTMLSelectElement,
+      hiatusKey: document.getElementById('hiatusKey') as HTMLInputElement,
+      hiatusStart: document.getElementById('hiatusStart') as HTMLInputElement,
+      hiatusEnd: document.getElementById('hiatusEnd') as HTMLInputElement,
+      hiatusLabel: document.getElementById('hiatusLabel') as HTMLInputElement,
+      addHiatus: document.getElementById('addHiatus') as HTMLButtonElement,
+      hiatusList: document.getElementById('hiatusList'),
+      costPlanner: document.getElementById('costPlanner') as HTMLElement,
+      rotationCalendar: document.getElementById('rotationCalendar') as HTMLElement,
+      seasonTimeline: document.getElementById('seasonTimeline') as HTMLElement,
+      statsDisplay: document.getElementById('statsDisplay') as HTMLElement,
+      coWatchPlanner: document.getElementById('coWatchPlanner'),
+      profileSwitcher: document.getElementById('profileSwitcher')
     };
   }
 
@@ -210,6 +445,14 @@ export class DOMIntegration {
       this.setMode('week');
     });
 
+    this.elements.btnGrid?.addEventListener('click', () => {
+      this.setMode('grid');
+    });
+
+    this.elements.btnMonth?.addEventListener('click', () => {
+      this.setMode('month');
+    });
+
     // Search functionality
     if (this.elements.searchInput) {
       this.elements.searchInput.addEventListener('input', (e) => {
@@ -245,17 +488,40 @@ export class DOMIntegration {
       this.handleFileImport(e);
     });
 
-    // Platform filters
-    const platformIds = ['pf-hulu', 'pf-peacock', 'pf-paramount'];
-    platformIds.forEach(id => {
-      const element = document.getElementById(id) as HTMLInputElement;
-      element?.addEventListener('change', () => {
-        this.handleFilterChange();
-      });
+    // Follow toggles and show titles (focus a show for a link to it) in the all shows list
+    this.elements.allList?.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const button = target.closest<HTMLButtonElement>('.follow-toggle');
+      if (button) {
+        this.handleFollowToggle(button);
+        return;
+      }
+      const title = target.closest<HTMLElement>('.show-title');
+      if (title && this.reactiveShowManager) {
+        const id = Number(title.dataset.showId);
+        this.reactiveShowManager.setFocusedShow(this.reactiveShowManager.getFocusedShowId() === id ? null : id);
+      }
+    });
+
+    // Watched checkboxes in week view cells (re-rendered with the table)
+    this.elements.weekTable?.addEventListener('change', (e) => {
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement && target.matches('.watched-toggle input')) {
+        this.handleWatchedToggle(target);
+      }
+    });
+
+    // Platform and estimate network filters (rendered from the registry)
+    this.elements.platformFilters?.addEventListener('change', () => {
+      this.handleFilterChange();
+    });
+
+    this.elements.estimateNetworkFilters?.addEventListener('change', () => {
+      this.handleFilterChange();
     });
 
     // Other filters
-    const filterIds = ['show-nonret', 'use-estimates', 'est-abc', 'est-nbc', 'est-cbs', 'est-fox'];
+    const filterIds = ['show-nonret', 'use-estimates', 'watchable-mode', 'milestones-only'];
     filterIds.forEach(id => {
       const element = document.getElementById(id) as HTMLInputElement;
       element?.addEventListener('change', () => {
@@ -303,32 +569,65 @@ export class DOMIntegration {
       this.handleJumpToDate((e.target as HTMLInputElement).value);
     });
 
+    // Month navigation controls
+    this.elements.prevMonth?.addEventListener('click', () => {
+      this.reactiveShowManager?.previousMonth();
+    });
+
+    this.elements.thisMonth?.addEventListener('click', () => {
+      this.reactiveShowManager?.currentMonth();
+    });
+
+    this.elements.nextMonth?.addEventListener('click', () => {
+      this.reactiveShowManager?.nextMonth();
+    });
+
+    this.elements.jumpMonthDate?.addEventListener('change', (e) => {
+      this.handleJumpToMonth((e.target as HTMLInputElement).value);
+    });
+
+    // Add platform/network
+    this.elements.addRegistryEntry?.addEventListener('click', () => {
+      this.handleAddRegistryEntry();
+    });
+
+    // Add and remove breaks
+    this.elements.addHiatus?.addEventListener('click', () => {
+      this.handleAddHiatus();
+    });
+
+    this.elements.hiatusList?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.remove-hiatus');
+      if (button) {
+        this.handleRemoveHiatus(button);
+      }
+    });
+
     logger.info('DOM event listeners set up successfully');
   }
 
   /**
-   * Set the view mode (All Shows or Week Airing)
+   * Set the view mode (All Shows, Week Airing, Evening Grid or Month)
+   * The grid shares the week section, so it keeps the week navigation and offset
    */
-  private setMode(mode: 'all' | 'week'): void {
-    const { btnAll, btnWeek, viewAll, viewWeek } = this.elements;
+  private setMode(mode: DisplayMode): void {
+    const { btnAll, btnWeek, btnGrid, btnMonth, viewAll, viewWeek, viewMonth, weekTable, timeslotGrid, coWatchPlanner } = this.elements;
 
-    if (mode === 'all') {
-      viewAll?.classList.remove('hidden');
-      viewWeek?.classList.add('hidden');
-      btnAll?.classList.add('active');
-      btnWeek?.classList.remove('active');
-      btnAll?.setAttribute('aria-pressed', 'true');
-      btnWeek?.setAttribute('aria-pressed', 'false');
-    } else {
-      viewWeek?.classList.remove('hidden');
-      viewAll?.classList.add('hidden');
-      btnWeek?.classList.add('active');
-      btnAll?.classList.remove('active');
-      btnWeek?.setAttribute('aria-pressed', 'true');
-      btnAll?.setAttribute('aria-pressed', 'false');
-    }
+    const buttons: Record<DisplayMode, HTMLButtonElement | null> = { all: btnAll, week: btnWeek, grid: btnGrid, month: btnMonth };
+    Object.entries(buttons).forEach(([buttonMode, button]) => {
+      button?.classList.toggle('active', buttonMode === mode);
+      button?.setAttribute('aria-pressed', String(buttonMode === mode));
+    });
+
+    viewAll?.classList.toggle('hidden', mode !== 'all');
+    viewWeek?.classList.toggle('hidden', mode !== 'week' && mode !== 'grid');
+    viewMonth?.classList.toggle('hidden', mode !== 'month');
+    weekTable?.classList.toggle('hidden', mode !== 'week');
+    coWatchPlanner?.classList.toggle('hidden', mode !== 'week');
+    timeslotGrid?.classList.toggle('hidden', mode !== 'grid');
 
     this.viewMode.current = mode;
+    this.reactiveShowManager?.setCurrentView(mode);
 
     // Trigger mode change callback
     if (this.viewMode.onModeChange) {
@@ -367,6 +666,7 @@ export class DOMIntegration {
    */
   private performSearch(query: string): void {
     logger.info(`Performing search for: "${query}"`);
+    this.syncFiltersToState();
     
     // Re-render all views with the new search query
     this.renderCurrentView();
@@ -397,8 +697,308 @@ export class DOMIntegration {
    */
   private handleFilterChange(): void {
     logger.info('Filters changed - re-rendering views');
+    this.syncFiltersToState();
+    this.reactiveShowManager?.saveProfileFilters({
+      platforms: [...getSelectedPlatforms()],
+      showNonReturning: this.isNonReturningEnabled()
+    });
     this.renderCurrentView();
     this.renderLegend();
+    // Estimate checkboxes change projected season ends
+    this.costPlanner?.refresh();
+    this.rotationCalendar?.refresh();
+    this.coWatchPlanner?.refresh();
+    this.statsDisplay?.refresh();
+  }
+
+  /**
+   * Copy the filter boxes and search term to the reactive filters, which the router
+   * keeps in the URL (the checked platforms are stored as they are, so all checked and
+   * none checked stay distinct)
+   */
+  private syncFiltersToState(): void {
+    if (!this.reactiveShowManager) {
+      return;
+    }
+    const route = this.reactiveShowManager.getRouteState();
+    const filters: ShowFilters = {
+      platforms: [...getSelectedPlatforms()],
+      networks: route.filters.networks ?? [],
+      airDays: route.filters.airDays ?? [],
+      searchTerm: this.searchTerm,
+      ...(this.isNonReturningEnabled() ? {} : { returning: true })
+    };
+    this.reactiveShowManager.restoreRouteState({ ...route, filters }, 'update filters');
+  }
+
+  /**
+   * Check the filter boxes and fill in the search box from the reactive filters
+   * (e.g., after opening a link or going back)
+   */
+  private applyStateFilters(): void {
+    const filters = this.reactiveShowManager?.getFilters();
+    if (!filters) {
+      return;
+    }
+
+    const platforms = filters.platforms ?? registry.getPlatforms().map(platform => platform.id);
+    registry.getPlatforms().forEach(({ id }) => {
+      const checkbox = document.getElementById(`pf-${id}`) as HTMLInputElement | null;
+      if (checkbox) {
+        checkbox.checked = platforms.includes(id);
+      }
+    });
+    const nonReturning = document.getElementById('show-nonret') as HTMLInputElement | null;
+    if (nonReturning) {
+      nonReturning.checked = filters.returning !== true;
+    }
+
+    const searchTerm = filters.searchTerm ?? '';
+    if (searchTerm !== this.searchTerm) {
+      this.searchTerm = searchTerm;
+      if (this.elements.searchInput) {
+        this.elements.searchInput.value = searchTerm;
+      }
+      if (this.elements.clearSearch) {
+        this.elements.clearSearch.style.display = searchTerm ? 'flex' : 'none';
+      }
+    }
+  }
+
+  /**
+   * Mount the subscription cost planner, rotation calendar and co-watch planner
+   * Estimates come from the estimate checkboxes, like the other views
+   */
+  private mountPlanners(): void {
+    if (!this.reactiveShowManager) {
+      return;
+    }
+
+    const getEstimate = (show: Show): SeasonEstimate | null =>
+      getSeasonEstimate(show, this.getEstimateSettings(), this.getHiatusCalendar());
+
+    if (this.elements.costPlanner) {
+      this.costPlanner = new CostPlanner({ getEstimate }, this.reactiveShowManager);
+      this.costPlanner.mount(this.elements.costPlanner);
+    }
+
+    if (this.elements.rotationCalendar) {
+      this.rotationCalendar = new RotationCalendar({ getEstimate }, this.reactiveShowManager);
+      this.rotationCalendar.mount(this.elements.rotationCalendar);
+    }
+
+    if (this.elements.seasonTimeline) {
+      this.seasonTimeline = new SeasonTimeline({}, this.reactiveShowManager);
+      this.seasonTimeline.mount(this.elements.seasonTimeline);
+    }
+
+    if (this.elements.statsDisplay) {
+      this.statsDisplay = new StatsDisplay({ getEstimate }, this.reactiveShowManager);
+      this.statsDisplay.mount(this.elements.statsDisplay);
+    }
+
+    if (this.elements.coWatchPlanner) {
+      this.coWatchPlanner = new CoWatchPlanner({ getEstimate }, this.reactiveShowManager);
+      this.coWatchPlanner.mount(this.elements.coWatchPlanner);
+    }
+  }
+
+  /**
+   * Mount the household profile switcher
+   */
+  private mountProfileSwitcher(): void {
+    if (!this.reactiveShowManager || !this.elements.profileSwitcher) {
+      return;
+    }
+    this.profileSwitcher = new ProfileSwitcher({}, this.reactiveShowManager);
+    this.profileSwitcher.mount(this.elements.profileSwitcher);
+  }
+
+  /**
+   * Check the filter boxes saved with a profile selected on its own
+   */
+  private applyProfileFilters(): void {
+    const saved = this.reactiveShowManager?.getSelectedProfileFilters();
+    if (!saved) {
+      return;
+    }
+
+    registry.getPlatforms().forEach(({ id }) => {
+      const checkbox = document.getElementById(`pf-${id}`) as HTMLInputElement | null;
+      if (checkbox) {
+        checkbox.checked = saved.platforms.includes(id);
+      }
+    });
+    const nonReturning = document.getElementById('show-nonret') as HTMLInputElement | null;
+    if (nonReturning) {
+      nonReturning.checked = saved.showNonReturning;
+    }
+  }
+
+  /**
+   * Handle a follow toggle click in the all shows list
+   */
+  private handleFollowToggle(button: HTMLButtonElement): void {
+    const show = this.showManager.getAllShows()[Number(button.dataset.showId)];
+    const profileId = button.dataset.profileId;
+    if (!show || !profileId || !this.reactiveShowManager) {
+      return;
+    }
+    this.reactiveShowManager.setFollowing(profileId, show.t, button.getAttribute('aria-pressed') !== 'true');
+  }
+
+  /**
+   * Render follow toggles for each household profile
+   */
+  private renderFollowToggles(id: number, show: Show): string {
+    const profiles = this.reactiveShowManager?.getProfiles() ?? [];
+    if (profiles.length === 0) {
+      return '';
+    }
+    return ` <span class="follow-toggles">${profiles.map(profile => {
+      const following = profile.followed.includes(show.t);
+      return `<button type="button" class="follow-toggle${following ? ' follow-toggle--on' : ''}" data-show-id="${id}" data-profile-id="${this.escapeHtml(profile.id)}" aria-pressed="${following}" title="${following ? 'Unfollow' : 'Follow'} for ${this.escapeHtml(profile.name)}">${this.escapeHtml(profile.name)}</button>`;
+    }).join('')}</span>`;
+  }
+
+  /**
+   * Render platform and estimate network checkboxes from the registry
+   * Keeps the current checked state; newly added entries start checked
+   */
+  private renderRegistryFilters(): void {
+    const isChecked = (id: string): boolean =>
+      (document.getElementById(id) as HTMLInputElement | null)?.checked ?? true;
+
+    if (this.elements.platformFilters) {
+      this.elements.platformFilters.innerHTML = registry.getPlatforms().map(({ id }) => `
+        <label>
+          <input type="checkbox" id="pf-${id}" ${isChecked(`pf-${id}`) ? 'checked' : ''}>
+          ${renderPlatformChip(id)}
+        </label>
+      `).join('');
+    }
+
+    if (this.elements.estimateNetworkFilters) {
+      this.elements.estimateNetworkFilters.innerHTML = registry.getNetworks().map(({ id, name }) => {
+        const checkboxId = `est-${id.toLowerCase()}`;
+        return `<label><input type="checkbox" id="${checkboxId}" ${isChecked(checkboxId) ? 'checked' : ''}> ${this.escapeHtml(name)}</label>`;
+      }).join('');
+    }
+  }
+
+  /**
+   * Handle adding a platform or network from the registry form
+   */
+  private handleAddRegistryEntry(): void {
+    const kind = (this.elements.registryKind?.value || 'platform') as RegistryKind;
+    const id = this.elements.registryId?.value.trim() ?? '';
+    const epsValue = this.elements.registryEps?.value ?? '';
+
+    const entry: RegistryEntry = {
+      id,
+      name: this.elements.registryName?.value ?? '',
+      color: this.elements.registryColor?.value || '#888888',
+      defaultEpisodes: epsValue ? parseInt(epsValue, 10) : null
+    };
+    const rule = parseAvailabilityRule(this.elements.registryRule?.value ?? '');
+    if (kind === 'platform' && rule) {
+      entry.availability = rule;
+    }
+
+    const added = registry.addEntry(kind, entry);
+
+    if (!added) {
+      alert(`Could not add ${kind} "${id}". Use a new ID made of letters, numbers, - and _.`);
+      return;
+    }
+
+    [this.elements.registryId, this.elements.registryName, this.elements.registryEps].forEach(input => {
+      if (input) {
+        input.value = '';
+      }
+    });
+  }
+
+  /**
+   * Handle adding a break from the break form
+   */
+  private handleAddHiatus(): void {
+    if (!this.reactiveShowManager) {
+      return;
+    }
+    const scope = (this.elements.hiatusScope?.value || 'global') as HiatusScope;
+    const label = this.elements.hiatusLabel?.value.trim() ?? '';
+    const period: HiatusPeriod = {
+      start: this.elements.hiatusStart?.value ?? '',
+      end: this.elements.hiatusEnd?.value ?? '',
+      ...(label ? { label } : {})
+    };
+
+    const calendar = addHiatusPeriod(
+      this.reactiveShowManager.getHiatusCalendar(),
+      scope,
+      this.elements.hiatusKey?.value.trim() ?? '',
+      period
+    );
+    if (!calendar) {
+      alert('Could not add the break. Enter a first and last day (in order), and a network ID or show title unless it applies to all shows.');
+      return;
+    }
+
+    this.reactiveShowManager.setHiatusCalendar(calendar, 'add break');
+    [this.elements.hiatusKey, this.elements.hiatusStart, this.elements.hiatusEnd, this.elements.hiatusLabel].forEach(input => {
+      if (input) {
+        input.value = '';
+      }
+    });
+  }
+
+  /**
+   * Handle a break's remove button
+   */
+  private handleRemoveHiatus(button: HTMLButtonElement): void {
+    const { scope, key = '', index } = button.dataset;
+    if (!this.reactiveShowManager || !scope || index === undefined) {
+      return;
+    }
+    this.reactiveShowManager.setHiatusCalendar(
+      removeHiatusPeriod(
+        this.reactiveShowManager.getHiatusCalendar(),
+        scope as HiatusScope,
+        decodeURIComponent(key),
+        Number(index)
+      ),
+      'remove break'
+    );
+  }
+
+  /**
+   * Render the break calendar as a list with remove buttons
+   */
+  private renderHiatusList(): void {
+    const list = this.elements.hiatusList;
+    if (!list) {
+      return;
+    }
+
+    const calendar = this.getHiatusCalendar();
+    const groups: Array<{ scope: HiatusScope; key: string; name: string; periods: HiatusPeriod[] }> = [
+      { scope: 'global', key: '', name: 'All shows', periods: calendar.global },
+      ...Object.entries(calendar.networks).map(([key, periods = []]) => ({
+        scope: 'network' as const, key, name: registry.getName('network', key), periods
+      })),
+      ...Object.entries(calendar.shows).map(([key, periods]) => ({ scope: 'show' as const, key, name: key, periods }))
+    ];
+
+    const items = groups.flatMap(({ scope, key, name, periods }) => periods.map((period, index) => `
+      <li>
+        <span class="meta">${this.escapeHtml(name)}:</span>
+        ${period.start} – ${period.end}${period.label ? ` (${this.escapeHtml(period.label)})` : ''}
+        <button type="button" class="btn btn--small remove-hiatus" data-scope="${scope}" data-key="${encodeURIComponent(key)}"
+          data-index="${index}" aria-label="Remove break">×</button>
+      </li>
+    `));
+    list.innerHTML = items.length > 0 ? items.join('') : '<li class="muted">No breaks</li>';
   }
 
   /**
@@ -409,40 +1009,257 @@ export class DOMIntegration {
     const file = target.files?.[0];
     
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (e: ProgressEvent<FileReader>): void => {
-        try {
-          const content = e.target?.result as string;
-          const data = JSON.parse(content);
-          logger.info('Import data loaded', data);
-          // TODO: Integrate with actual import functionality
-        } catch (error) {
-          logger.error('Failed to parse imported file', error);
-          alert('Invalid JSON file');
-        }
-      };
-      reader.readAsText(file);
+      // Compressed files are detected from their content and decompressed first
+      readFileText(file)
+        .then(content => this.importFileContent(content, stripCompressedExtension(file.name), file.type))
+        .catch((error: unknown) => {
+          logger.error('Failed to read imported file', error);
+          alert('Could not read the file (the compressed data may be damaged)');
+        });
+    }
+  }
+
+  /**
+   * Route an imported file's text to the calendar, CSV, backup or JSON import
+   */
+  private importFileContent(content: string, fileName: string, fileType: string): void {
+    if (isICalendar(content)) {
+      this.reviewCalendarImport(content, fileName);
+      return;
     }
+    if (/\.csv$/i.test(fileName) || fileType === 'text/csv') {
+      this.reviewCsvImport(content, fileName);
+      return;
+    }
+
+    try {
+      const data: unknown = JSON.parse(content);
+      logger.info('Import data loaded', data);
+      if (isStateBackup(data)) {
+        this.restoreStateBackup(data, fileName);
+        return;
+      }
+      this.reviewDataImport(data, fileName);
+    } catch (error) {
+      logger.error('Failed to parse imported file', error);
+      alert('Invalid JSON file');
+    }
+  }
+
+  /**
+   * Restore a full backup after confirmation, replacing every show, the watch
+   * progress and the undo history
+   */
+  private restoreStateBackup(backup: StateBackup, fileName: string): void {
+    if (!this.reactiveShowManager) {
+      alert('Full backups cannot be restored in this view');
+      return;
+    }
+    if (backup.schemaVersion > CONFIG.EXPORT_SCHEMA_VERSION) {
+      alert(`${fileName} was made by a newer version (${backup.appVersion}) and cannot be restored`);
+      return;
+    }
+
+    const exportedAt = new Date(backup.exportedAt).toLocaleString();
+    if (!confirm(`Restore the backup from ${exportedAt}? This replaces every show, your watch progress and the undo history.`)) {
+      return;
+    }
+    if (!this.reactiveShowManager.importStateSnapshot(backup.snapshot)) {
+      alert(`${fileName} is damaged and was not restored`);
+      return;
+    }
+
+    this.syncShowTable();
+    logger.info('Backup restored', { exportedAt: backup.exportedAt, appVersion: backup.appVersion });
+
+    this.updateHistoryButtons();
+    this.renderCurrentView();
+    this.renderLegend();
+    this.renderEditor();
+  }
+
+  /**
+   * Mirror the reactive shows in the show table, which the views and editor read
+   */
+  private syncShowTable(): void {
+    if (!this.reactiveShowManager) {
+      return;
+    }
+    Object.keys(this.showManager.getAllShows()).forEach(id => this.showManager.removeShow(Number(id)));
+    Object.entries(this.reactiveShowManager.getAllShows())
+      .forEach(([id, show]) => this.showManager.addShow(Number(id), show));
+  }
+
+  /**
+   * Show a per-show preview of imported JSON data; choosing another merge
+   * strategy rebuilds the preview
+   */
+  private reviewDataImport(data: unknown, fileName: string, rejected: ImportPreviewEntry[] = []): void {
+    const container = this.elements.importReview;
+    if (!container) {
+      return;
+    }
+
+    const buildPlan = (mergeStrategy: ImportStrategy): ImportPlan => addRejectedEntries(
+      buildImportPlan(data, this.showManager.getAllShows(), {
+        mergeStrategy,
+        progress: this.reactiveShowManager?.getWatchProgress() ?? {}
+      }),
+      rejected
+    );
+
+    this.closeImportReview();
+    const preview = new ImportPreview({
+      plan: buildPlan('replace'),
+      fileName,
+      onStrategyChange: (strategy): void => preview.update({ plan: buildPlan(strategy) }),
+      onApply: (plan): void => {
+        this.applyDataImport(plan);
+        this.closeImportReview();
+      },
+      onCancel: (): void => this.closeImportReview()
+    });
+    this.importReview = preview;
+    this.importReview.mount(container);
+    container.classList.remove('hidden');
+    container.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /**
+   * Apply a previewed import as a single undoable change and report the result
+   * The show subscription mirrors it in the show table and re-renders.
+   */
+  private applyDataImport(plan: ImportPlan): void {
+    if (!this.reactiveShowManager) {
+      alert('Shows cannot be imported in this view');
+      return;
+    }
+    this.reactiveShowManager.importShows(plan.shows, plan.progress, `import shows (${plan.strategy})`);
+
+    const message = formatImportResult(plan.result);
+    logger.info(message, plan.result);
+    if (plan.result.errors.length > 0) {
+      alert(`${message}:\n${plan.result.errors.join('\n')}`);
+    }
+  }
+
+  /**
+   * Ask how a CSV file's columns map onto show fields, then preview the rows
+   * read with that mapping (invalid rows are listed in the preview)
+   */
+  private reviewCsvImport(content: string, fileName: string): void {
+    const container = this.elements.importReview;
+    const table = readCsvTable(content);
+    if (!container || table.headers.length === 0) {
+      return;
+    }
+
+    this.closeImportReview();
+    this.importReview = new CsvImportMapping({
+      table,
+      mapping: guessCsvMapping(table.headers),
+      fileName,
+      onConfirm: (mapping): void => {
+        const { shows, rejected } = readCsvShows(table, mapping, this.showManager.getAllShows());
+        logger.info('CSV import read', { rows: table.rows.length, rejected: rejected.length });
+        this.reviewDataImport(shows, fileName, rejected);
+      },
+      onCancel: (): void => this.closeImportReview()
+    });
+    this.importReview.mount(container);
+    container.classList.remove('hidden');
+    container.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /**
+   * Show the season updates read from an iCalendar file for review
+   */
+  private reviewCalendarImport(content: string, fileName: string): void {
+    const container = this.elements.importReview;
+    if (!container) {
+      return;
+    }
+
+    const result = buildCalendarProposals(parseICalendar(content), this.showManager.getAllShows());
+    logger.info('Calendar import read', { proposals: result.proposals.length, unmatched: result.unmatched.length });
+
+    this.closeImportReview();
+    this.importReview = new CalendarImportReview({
+      result,
+      fileName,
+      onApply: (updates): void => {
+        this.applyCalendarUpdates(updates);
+        this.closeImportReview();
+      },
+      onCancel: (): void => this.closeImportReview()
+    });
+    this.importReview.mount(container);
+    container.classList.remove('hidden');
+    container.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /**
+   * Apply reviewed calendar updates as a single undoable change
+   * The show subscription mirrors them in the show table and re-renders.
+   */
+  private applyCalendarUpdates(updates: Record<number, Partial<Show>>): void {
+    if (!this.reactiveShowManager) {
+      alert('Calendar dates cannot be imported in this view');
+      return;
+    }
+    this.reactiveShowManager.batchUpdateShows(updates, 'import calendar');
+    logger.info(`Imported calendar dates for ${Object.keys(updates).length} shows`);
+  }
+
+  /**
+   * Close the calendar import review, CSV column mapping or import preview
+   */
+  private closeImportReview(): void {
+    this.importReview?.destroy();
+    this.importReview = null;
+    this.elements.importReview?.classList.add('hidden');
   }
 
   /**
    * Handle data export
    */
   private handleExport(): void {
+    const options: ExportOptions = {
+      format: (this.elements.exportFormat?.value || 'json') as ExportFormat,
+      compress: this.elements.exportCompress?.checked ?? false
+    };
+    if (options.format === 'ics') {
+      this.handleCalendarExport();
+      return;
+    }
+
     try {
-      // TODO: Get actual data from ShowManager
-      const data = { message: 'Export functionality coming soon' };
-      
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
+      if (options.format === 'csv') {
+        // The show table as in the editor
+        this.downloadExport(buildShowsCsv(this.showManager.getAllShows()), 'tv-show-data.csv', 'text/csv', options);
+        logger.info('CSV export completed');
+        return;
+      }
+
+      if (options.format === 'backup') {
+        if (!this.reactiveShowManager) {
+          alert('Full backups cannot be made in this view');
+          return;
+        }
+        // The whole state with its undo history
+        const backup = buildStateBackup(this.reactiveShowManager.exportStateSnapshot());
+        this.downloadExport(JSON.stringify(backup), 'tv-show-guide-backup.json', 'application/json', options);
+        logger.info('Backup export completed');
+        return;
+      }
+
+      // Export every show with its watch progress, wrapped with metadata
+      const data = buildExportData(this.showManager.getAllShows(), {
+        progress: this.reactiveShowManager?.getWatchProgress() ?? {},
+        filters: this.getExportFilterContext()
+      });
       
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'tv-show-data.json';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      this.downloadExport(JSON.stringify(data, null, 2), 'tv-show-data.json', 'application/json', options);
       
       logger.info('Export completed');
     } catch (error) {
@@ -450,6 +1267,56 @@ export class DOMIntegration {
     }
   }
 
+  /**
+   * Download an export, gzip-compressed (as a .gz file) when asked to
+   */
+  private downloadExport(content: string, fileName: string, mimeType: string, options: ExportOptions): void {
+    if (!options.compress) {
+      downloadFile(content, fileName, mimeType);
+      return;
+    }
+
+    compressText(content)
+      .then(bytes => {
+        downloadFile(bytes, `${fileName}.gz`, 'application/gzip');
+        logger.info('Export compressed', { size: content.length, compressed: bytes.length });
+      })
+      .catch((error: unknown) => logger.error('Export compression failed', error));
+  }
+
+  /**
+   * Get the active filters, as recorded in exports
+   */
+  private getExportFilterContext(): ExportFilterContext {
+    return {
+      platforms: [...getSelectedPlatforms()],
+      showNonReturning: this.isNonReturningEnabled(),
+      searchTerm: this.searchTerm,
+      profiles: this.reactiveShowManager?.getSelectedProfileIds() ?? []
+    };
+  }
+
+  /**
+   * Export the filtered shows' premieres, weekly episodes and finales as an iCalendar file
+   */
+  private handleCalendarExport(): void {
+    try {
+      const shows: ShowDatabase = Object.fromEntries(
+        this.getVisibleShowEntries().map(({ id, show }) => [id, show])
+      );
+      const hiatusCalendar = this.getHiatusCalendar();
+      const events = getShowCalendarEvents(shows, {
+        calendar: hiatusCalendar,
+        getEstimate: show => getSeasonEstimate(show, this.getEstimateSettings(), hiatusCalendar)
+      });
+
+      downloadFile(buildICalendar(events, 'TV Show Guide'), 'tv-show-guide.ics', 'text/calendar');
+      logger.info('Calendar export completed', { events: events.length });
+    } catch (error) {
+      logger.error('Calendar export failed', error);
+    }
+  }
+
   /**
    * Handle undo action
    */
@@ -578,6 +1445,30 @@ export class DOMIntegration {
     }
   }
 
+  /**
+   * Handle jump to date in the month view
+   */
+  private handleJumpToMonth(dateString: string): void {
+    const date = parseISODate(dateString);
+    if (!this.reactiveShowManager || !date) {
+      return;
+    }
+    this.reactiveShowManager.setMonthOffset(getMonthOffset(date), `jump to ${dateString}`);
+  }
+
+  /**
+   * Update month display (e.g., "October 2025")
+   */
+  private updateMonthRangeDisplay(): void {
+    if (!this.reactiveShowManager || !this.elements.monthRange) {
+      return;
+    }
+
+    const [year = 0, month = 1] = getMonthKey(this.reactiveShowManager.getMonthOffset()).split('-').map(Number);
+    this.elements.monthRange.textContent = new Date(year, month - 1, 1)
+      .toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+
   /**
    * Update week range display
    */
@@ -626,6 +1517,10 @@ export class DOMIntegration {
   private renderCurrentView(): void {
     if (this.viewMode.current === 'all') {
       this.renderAllShows();
+    } else if (this.viewMode.current === 'grid') {
+      this.renderGridView();
+    } else if (this.viewMode.current === 'month') {
+      this.renderMonthView();
     } else {
       this.renderWeekView();
     }
@@ -660,25 +1555,25 @@ export class DOMIntegration {
       if (showEntries.length === 0) {
         this.elements.allList.innerHTML = '<em>No shows match the current search and filters</em>';
       } else {
-        const items = showEntries.map(({ show }) => {
+        const estimateSettings = this.getEstimateSettings();
+        const hiatusCalendar = this.getHiatusCalendar();
+        const focusedId = this.reactiveShowManager?.getFocusedShowId() ?? null;
+        const items = showEntries.map(({ id, show }) => {
           const statusClass = show.ret ? '' : 'ended';
           
           // Format date information
-          const seasonInfo = show.s ? `S${show.s}` : 'S?';
+          const estimate = getSeasonEstimate(show, estimateSettings, hiatusCalendar);
           const dateInfo = show.start 
-            ? ` <span class="meta">(${seasonInfo}: ${show.start}${show.end ? ' – ' + show.end : ''})</span>` 
+            ? ` <span class="meta">(${this.formatSeasonDates(show, estimate)})</span>` 
             : '';
+          const progressInfo = this.formatProgressInfo(show, estimate);
 
-          // Highlight search terms in title
-          let displayTitle = show.t;
-          if (this.searchTerm) {
-            const regex = new RegExp(`(${this.escapeRegex(this.searchTerm)})`, 'gi');
-            displayTitle = show.t.replace(regex, '<mark>$1</mark>');
-          }
+          const displayTitle = this.highlightSearchTerm(show.t);
 
-          // Create platform chip and show entry
-          const platformDisplay = show.c.charAt(0).toUpperCase() + show.c.slice(1);
-          return `<span class="${show.c} chip">${platformDisplay}</span> <span class="${statusClass}">${displayTitle}</span>${dateInfo}`;
+          // Create platform chips and show entry
+          const progressText = progressInfo ? ` <span class="meta watch-progress">${progressInfo}</span>` : '';
+          const titleClass = ['show-title', statusClass, id === focusedId ? 'show-focused' : ''].filter(Boolean).join(' ');
+          return `${renderAvailabilityChips(show)} <span class="${titleClass}" data-show-id="${id}" title="Link to this show">${displayTitle}</span>${dateInfo}${progressText}${this.renderFollowToggles(id, show)}`;
         });
 
         this.elements.allList.innerHTML = items.join('<br>');
@@ -726,46 +1621,61 @@ export class DOMIntegration {
         showEntries = showEntries.filter(({ id }) => searchIds.has(id));
       }
 
+      const estimateSettings = this.getEstimateSettings();
+      const hiatusCalendar = this.getHiatusCalendar();
+
+      // Watchable mode: keep shows with episodes becoming streamable this week, keyed by show ID
+      const watchableMode = this.isWatchableEnabled();
+      const watchableById = new Map<number, WatchableEpisode[]>();
+      if (watchableMode) {
+        showEntries.forEach(({ id, show }) => {
+          const schedule = buildEpisodeSchedule(
+            withEstimate(show, getSeasonEstimate(show, estimateSettings, hiatusCalendar)),
+            hiatusCalendar
+          );
+          const episodes = findWatchableInRange(
+            getWatchableEpisodes(schedule, getShowRule(show)),
+            startDate,
+            endDate
+          );
+          if (episodes.length > 0) {
+            watchableById.set(id, episodes);
+          }
+        });
+      }
+
       // Filter shows by date range - only show if season is airing during selected week
       const initialCount = showEntries.length;
       logger.info(`[Date Filter] Starting with ${initialCount} shows, checking against week ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`);
       
       const filteredOut: string[] = [];
-      showEntries = showEntries.filter(({ show }) => {
-        // If no start date, exclude show (can't determine if it's airing)
-        if (!show.start) {
-          filteredOut.push(`${show.t} (no start date)`);
+      const milestonesOnly = this.isMilestonesOnlyEnabled();
+      const milestoneById = new Map<number, SeasonMilestone | null>();
+      showEntries = showEntries.filter(({ id, show: enteredShow }) => {
+        // Use the estimated season end, when enabled, to decide if the season is airing
+        const show = withEstimate(
+          enteredShow,
+          getSeasonEstimate(enteredShow, estimateSettings, hiatusCalendar)
+        );
+
+        // Premieres and finales only: leave out weeks of regular episodes (and breaks)
+        const milestone = getSeasonMilestone(show, startDate, endDate, hiatusCalendar);
+        milestoneById.set(id, milestone);
+        if (milestonesOnly && !isPremiereOrFinale(milestone)) {
           return false;
         }
 
-        try {
-          const seasonStart = new Date(show.start);
-          
-          // If no end date, check if season has started by the selected week
-          if (!show.end) {
-            const isAiring = seasonStart <= endDate;
-            if (!isAiring) {
-              filteredOut.push(`${show.t} (starts ${seasonStart.toLocaleDateString()}, after week ends)`);
-            }
-            return isAiring;
-          }
+        if (watchableMode) {
+          return watchableById.has(id);
+        }
 
-          const seasonEnd = new Date(show.end);
-          
-          // Show is airing if its season overlaps with the selected week
-          // (season starts before week ends AND season ends after week starts)
-          const isAiring = seasonStart <= endDate && seasonEnd >= startDate;
-          
-          if (!isAiring) {
-            filteredOut.push(`${show.t} (${seasonStart.toLocaleDateString()} - ${seasonEnd.toLocaleDateString()})`);
-          }
-          
-          return isAiring;
-        } catch (error) {
-          logger.warn(`Invalid date for show ${show.t}`, error);
-          filteredOut.push(`${show.t} (invalid date)`);
-          return false;
+        // Show is airing if its season overlaps with the selected week (a season
+        // without an end date once it has started); the month calendar uses the same test
+        const isAiring = isSeasonAiring(show, startDate, endDate);
+        if (!isAiring) {
+          filteredOut.push(show.start ? `${show.t} (${show.start} - ${show.end || '?'})` : `${show.t} (no start date)`);
         }
+        return isAiring;
       });
       
       const filteredCount = showEntries.length;
@@ -785,21 +1695,28 @@ export class DOMIntegration {
         'Saturday': []
       };
 
-      // Filter shows that have air days and group them
+      // Filter shows that have air days (or watch days in watchable mode) and group them
       showEntries.forEach(({ id, show }) => {
-        if (show.air && show.air in showsByDay) {
-          const dayArray = showsByDay[show.air];
+        const watchDate = parseISODate(watchableById.get(id)?.[0]?.watchDate ?? '');
+        const day = watchDate ? CONFIG.DAY_ORDER[watchDate.getDay()] : show.air;
+        if (day && day in showsByDay) {
+          const dayArray = showsByDay[day];
           if (dayArray) {
             dayArray.push({ id, show });
           }
         }
       });
 
-      // Sort shows within each day alphabetically
+      // Sort shows within each day by timeslot, then alphabetically, and find
+      // overlapping broadcast timeslots
+      const conflictsByDay: Record<string, Map<string, string[]>> = {};
       Object.keys(showsByDay).forEach(day => {
         const dayShows = showsByDay[day];
         if (dayShows) {
-          dayShows.sort((a, b) => a.show.t.localeCompare(b.show.t));
+          dayShows.sort((a, b) => compareByAirtime(a.show, b.show));
+          if (!watchableMode) {
+            conflictsByDay[day] = findConflicts(dayShows.map(({ show }) => show));
+          }
         }
       });
 
@@ -834,25 +1751,53 @@ export class DOMIntegration {
               const { show } = showEntry;
               const statusClass = show.ret ? '' : 'ended';
               
-              // Format date information
-              const seasonInfo = show.s ? `S${show.s}` : 'S?';
+              // Format episode airing this week (or the break keeping it off the air),
+              // falling back to the season date range
+              const estimate = getSeasonEstimate(show, estimateSettings, hiatusCalendar);
+              const episode = findEpisodeInRange(
+                buildEpisodeSchedule(withEstimate(show, estimate), hiatusCalendar),
+                startDate,
+                endDate
+              );
+              const hiatus = episode
+                ? undefined
+                : findHiatusInRange(show, startDate, endDate, hiatusCalendar);
+              const watchable = watchableById.get(showEntry.id);
+              let episodeInfo = '';
+              if (watchable?.[0]) {
+                episodeInfo = `<span class="episode-code">${formatEpisodeRange(watchable)}</span> <span class="meta">streams ${watchable[0].watchDate}</span>`;
+                episodeInfo += this.renderWatchedToggles(showEntry.id, show, watchable);
+              } else if (episode) {
+                episodeInfo = `<span class="episode-code">${formatEpisodeCode(episode.season, episode.number)}</span> <span class="meta">${episode.airDate}</span>`;
+                episodeInfo += this.renderWatchedToggles(showEntry.id, show, [episode]);
+              } else if (hiatus) {
+                episodeInfo = `<span class="hiatus" title="${this.escapeHtml(hiatus.label ?? 'Hiatus')}">no new episode (hiatus)</span>`;
+              }
               const dateInfo = show.start 
-                ? `<br><span class="meta">${seasonInfo}: ${show.start}${show.end ? ' – ' + show.end : ''}</span>` 
+                ? `<br><span class="meta">${this.formatSeasonDates(show, estimate)}</span>` 
+                : '';
+              const progressInfo = this.formatProgressInfo(show, estimate);
+              const progressText = progressInfo
+                ? `<br><span class="meta watch-progress">${progressInfo}</span>`
+                : '';
+              const airtimeInfo = show.airtime
+                ? `<div class="meta airtime">${formatAirtime(show.airtime)}</div>`
+                : '';
+              const conflicts = conflictsByDay[day]?.get(show.t);
+              const conflictBadge = conflicts
+                ? `<span class="conflict-badge">${this.escapeHtml(formatConflict(conflicts))}</span>`
                 : '';
+              const milestone = milestoneById.get(showEntry.id) ?? null;
+              const milestoneBadge = this.renderMilestoneBadge(milestone, isEstimatedMilestone(milestone, estimate));
 
-              // Highlight search terms in title
-              let displayTitle = show.t;
-              if (this.searchTerm) {
-                const regex = new RegExp(`(${this.escapeRegex(this.searchTerm)})`, 'gi');
-                displayTitle = show.t.replace(regex, '<mark>$1</mark>');
-              }
+              const displayTitle = this.highlightSearchTerm(show.t);
 
-              const platformDisplay = show.c.charAt(0).toUpperCase() + show.c.slice(1);
               tableHtml += `
                 <td class="show-cell">
-                  <span class="${show.c} chip">${platformDisplay}</span>
+                  ${renderAvailabilityChips(show)}
                   <div class="show-title ${statusClass}">${displayTitle}</div>
-                  <div class="show-details">${dateInfo}</div>
+                  ${milestoneBadge}${airtimeInfo}${conflictBadge}
+                  <div class="show-details">${episodeInfo}${dateInfo}${progressText}</div>
                 </td>
               `;
             } else {
@@ -879,7 +1824,7 @@ export class DOMIntegration {
       tableHtml += `<div class="week-summary">
         <p><strong>Weekly Schedule for ${weekRangeText} (${weekLabel}):</strong></p>
         <ul>
-          <li>${totalFilteredShows} shows airing this week</li>
+          <li>${totalFilteredShows} ${milestonesOnly ? 'premieres and finales' : 'shows'} ${watchableMode ? 'to stream' : 'airing'} this week</li>
           <li>${showsWithAirDays} shows with air day information</li>
           ${showsWithoutAirDays > 0 ? `<li>${showsWithoutAirDays} shows without air day information</li>` : ''}
         </ul>
@@ -902,15 +1847,182 @@ export class DOMIntegration {
   }
 
   /**
-   * Get filtered show entries based on platform and status filters
+   * Render the evening timeslot grid for the selected week
+   * Days are columns and half-hour slots are rows; each show is a block spanning its runtime
+   */
+  private renderGridView(): void {
+    const container = this.elements.timeslotGrid;
+    if (!container) {
+      return;
+    }
+
+    try {
+      const weekOffset = this.reactiveShowManager?.getWeekOffset() || 0;
+      const { startDate, endDate } = this.getWeekRange(weekOffset);
+      const estimateSettings = this.getEstimateSettings();
+      const hiatusCalendar = this.getHiatusCalendar();
+
+      const showEntries = this.getVisibleShowEntries();
+
+      // Group the shows airing during the selected week by air day
+      const days = CONFIG.DAY_ORDER as readonly AirDay[];
+      const weekData = Object.fromEntries(days.map(day => [day, [] as Show[]])) as Record<AirDay, Show[]>;
+      showEntries.forEach(({ show }) => {
+        const estimated = withEstimate(show, getSeasonEstimate(show, estimateSettings, hiatusCalendar));
+        if (show.air && isSeasonAiring(estimated, startDate, endDate)) {
+          weekData[show.air].push(show);
+        }
+      });
+
+      const grid = buildTimeslotGrid(weekData);
+      const columns = days.map(day => `repeat(${grid.days[day].lanes}, minmax(0, 1fr))`).join(' ');
+      let html = `<div class="timeslot-grid" role="table" aria-label="Evening timeslots"
+        style="grid-template-columns: auto ${columns}; grid-template-rows: auto repeat(${grid.slots.length}, 2.25em)">`;
+
+      grid.slots.forEach((minutes, i) => {
+        html += `<div class="timeslot-grid__time" style="grid-column: 1; grid-row: ${i + 2}">${formatTime(minutes)}</div>`;
+      });
+
+      // Each day spans one column per lane; slot cells go first so blocks are drawn over them
+      let column = 2;
+      days.forEach(day => {
+        const { lanes, blocks } = grid.days[day];
+        html += `<div class="timeslot-grid__day" style="grid-column: ${column} / span ${lanes}; grid-row: 1">${day}</div>`;
+        grid.slots.forEach((_, i) => {
+          html += `<div class="timeslot-grid__cell" style="grid-column: ${column} / span ${lanes}; grid-row: ${i + 2}"></div>`;
+        });
+        html += blocks.map(block => this.renderGridBlock(block, column)).join('');
+        column += lanes;
+      });
+      html += '</div>';
+
+      const outside = days.flatMap(day => grid.days[day].outside.map(show => `${show.t} (${day.slice(0, 3)})`));
+      if (outside.length > 0) {
+        html += `<p class="timeslot-grid__outside muted">No prime-time slot: ${this.escapeHtml(outside.join(', '))}</p>`;
+      }
+
+      container.innerHTML = html;
+      logger.info(`Timeslot grid rendered for week offset ${weekOffset}`);
+    } catch (error) {
+      logger.error('Error rendering timeslot grid', error);
+      container.innerHTML = '<p>Error loading timeslot grid. Please refresh the page.</p>';
+    }
+  }
+
+  /**
+   * Render the month calendar for the selected month
+   * Shows are listed on their air day in each week their season overlaps, as in the week view
+   */
+  private renderMonthView(): void {
+    const container = this.elements.monthCalendar;
+    if (!container) {
+      return;
+    }
+
+    try {
+      const month = getMonthKey(this.reactiveShowManager?.getMonthOffset() ?? 0);
+      const estimateSettings = this.getEstimateSettings();
+      const hiatusCalendar = this.getHiatusCalendar();
+      const calendar = buildMonthCalendar(this.getVisibleShowEntries(), month, {
+        calendar: hiatusCalendar,
+        getEstimate: show => getSeasonEstimate(show, estimateSettings, hiatusCalendar)
+      });
+
+      let html = '<table class="month-calendar"><thead><tr>';
+      html += CONFIG.DAY_ORDER.map(day => `<th scope="col">${day.slice(0, 3)}</th>`).join('');
+      html += '</tr></thead><tbody>';
+      const milestonesOnly = this.isMilestonesOnlyEnabled();
+      calendar.weeks.forEach(week => {
+        html += `<tr>${week.map(day => this.renderMonthDay(day, milestonesOnly)).join('')}</tr>`;
+      });
+      html += '</tbody></table>';
+
+      if (this.searchTerm) {
+        html = `<div class="search-results-indicator"><span class="muted">Month view filtered for "${this.escapeHtml(this.searchTerm)}"</span></div>${html}`;
+      }
+
+      container.innerHTML = html;
+      logger.info(`Month calendar rendered for ${month}`);
+    } catch (error) {
+      logger.error('Error rendering month calendar', error);
+      container.innerHTML = '<p>Error loading month calendar. Please refresh the page.</p>';
+    }
+  }
+
+  /**
+   * Render a day cell of the month calendar with its shows, platform chips, premiere
+   * and finale badges and hiatus marks (regular weeks are not badged, to keep the cells small)
+   */
+  private renderMonthDay(day: MonthCalendarDay, milestonesOnly: boolean): string {
+    const classes = [
+      'month-day',
+      day.inMonth ? '' : 'month-day--outside',
+      day.today ? 'month-day--today' : ''
+    ].filter(Boolean).join(' ');
+
+    const entries = day.entries
+      .filter(({ milestone }) => !milestonesOnly || isPremiereOrFinale(milestone))
+      .map(({ show, milestone, milestoneEstimated, hiatus }) => `
+        <li class="month-entry${hiatus ? ' month-entry--hiatus' : ''}">
+          ${renderPlatformChip(show.c)}
+          <span class="show-title ${show.ret ? '' : 'ended'}">${this.escapeHtml(show.t)}</span>
+          ${isPremiereOrFinale(milestone) ? this.renderMilestoneBadge(milestone, milestoneEstimated) : ''}
+          ${hiatus ? `<span class="hiatus" title="${this.escapeHtml(hiatus.label ?? 'Hiatus')}">(hiatus)</span>` : ''}
+        </li>
+      `).join('');
+
+    return `
+      <td class="${classes}">
+        <div class="month-day__date">${Number(day.date.slice(8))}</div>
+        ${entries ? `<ul class="month-day__shows">${entries}</ul>` : ''}
+      </td>
+    `;
+  }
+
+  /**
+   * Render a show block on the timeslot grid, colored like its platform chip
+   */
+  private renderGridBlock(block: GridBlock, column: number): string {
+    const { show, row, span, lane, conflicts } = block;
+    const color = registry.getColor('platform', show.c);
+    const background = color ? ` background: ${color};` : '';
+    const details = [
+      show.t,
+      show.airtime ? formatAirtime(show.airtime) : '',
+      conflicts.length > 0 ? formatConflict(conflicts) : ''
+    ].filter(Boolean).join(' · ');
+
+    return `
+      <div class="${this.escapeHtml(show.c)} chip grid-block${conflicts.length > 0 ? ' grid-block--conflict' : ''}"
+        style="grid-column: ${column + lane}; grid-row: ${row + 2} / span ${span};${background}"
+        title="${this.escapeHtml(details)}">${this.escapeHtml(show.t)}</div>
+    `;
+  }
+
+  /**
+   * Get the show entries passing the active filters and search
+   */
+  private getVisibleShowEntries(): Array<{ id: number; show: Show }> {
+    const showEntries = this.getFilteredShowEntries(
+      Object.entries(this.showManager.getAllShows()).map(([id, show]) => ({ id: parseInt(id), show }))
+    );
+    if (!this.searchTerm) {
+      return showEntries;
+    }
+    const searchIds = new Set(Object.keys(this.showManager.searchShows(this.searchTerm)).map(id => parseInt(id)));
+    return showEntries.filter(({ id }) => searchIds.has(id));
+  }
+
+  /**
+   * Get filtered show entries based on platform, status and profile filters
    */
   private getFilteredShowEntries(showEntries: Array<{ id: number; show: Show }>): Array<{ id: number; show: Show }> {
-    const selectedPlatforms = this.getSelectedPlatforms();
+    const selectedPlatforms = getSelectedPlatforms();
     const includeNonReturning = this.isNonReturningEnabled();
 
     return showEntries.filter(({ show }) => {
-      // Platform filter
-      if (!selectedPlatforms.has(show.c)) {
+      // Platform filter - visible if any selected platform carries the show
+      if (!isAvailableOn(show, selectedPlatforms)) {
         return false;
       }
 
@@ -919,26 +2031,29 @@ export class DOMIntegration {
         return false;
       }
 
+      // Profile filter - the selected profiles' followed shows
+      if (this.reactiveShowManager && !this.reactiveShowManager.isInProfileScope(show)) {
+        return false;
+      }
+
       return true;
     });
   }
 
   /**
-   * Get selected platform filters from checkboxes
+   * Check if the week view should place shows on the day episodes can be streamed
    */
-  private getSelectedPlatforms(): Set<string> {
-    const platforms = new Set<string>();
-    const platformIds = ['pf-hulu', 'pf-peacock', 'pf-paramount'];
-    
-    platformIds.forEach(id => {
-      const checkbox = document.getElementById(id) as HTMLInputElement;
-      if (checkbox?.checked) {
-        const platform = id.replace('pf-', '');
-        platforms.add(platform);
-      }
-    });
+  private isWatchableEnabled(): boolean {
+    const checkbox = document.getElementById('watchable-mode') as HTMLInputElement;
+    return checkbox?.checked ?? false;
+  }
 
-    return platforms;
+  /**
+   * Check if the week and month views should only list premieres and finales
+   */
+  private isMilestonesOnlyEnabled(): boolean {
+    const checkbox = document.getElementById('milestones-only') as HTMLInputElement;
+    return checkbox?.checked ?? false;
   }
 
   /**
@@ -949,13 +2064,118 @@ export class DOMIntegration {
     return checkbox?.checked ?? false;
   }
 
+  /**
+   * Get season estimate settings from checkboxes
+   */
+  private getEstimateSettings(): EstimateSettings {
+    const useEstimates = document.getElementById('use-estimates') as HTMLInputElement;
+    const networks: Network[] = [];
+
+    registry.getNetworks().forEach(({ id: network }) => {
+      const checkbox = document.getElementById(`est-${network.toLowerCase()}`) as HTMLInputElement;
+      if (checkbox?.checked) {
+        networks.push(network);
+      }
+    });
+
+    return { enabled: useEstimates?.checked ?? false, networks };
+  }
+
+  /**
+   * Format watch progress through a show's season (empty if it has no episode list)
+   */
+  private formatProgressInfo(show: Show, estimate: SeasonEstimate | null): string {
+    const progress = this.reactiveShowManager?.getProgressSummary(show, estimate);
+    return progress ? formatProgress(progress) : '';
+  }
+
+  /**
+   * Render the badge for a season milestone (empty for a week without an episode),
+   * marking finales that depend on estimated season data
+   */
+  private renderMilestoneBadge(milestone: SeasonMilestone | null, estimated: boolean = false): string {
+    if (!milestone) {
+      return '';
+    }
+    const title = estimated ? ' title="Estimated from network defaults"' : '';
+    return `<span class="milestone-badge milestone-badge--${milestone}"${title}>${formatMilestone(milestone, estimated)}</span>`;
+  }
+
+  /**
+   * Render watched checkboxes for a week view cell's episodes
+   */
+  private renderWatchedToggles(id: number, show: Show, episodes: Episode[]): string {
+    if (!this.reactiveShowManager) {
+      return '';
+    }
+    const watched = this.reactiveShowManager.getWatchedEpisodes(show);
+    return episodes.map(episode => `
+      <label class="watched-toggle" title="Mark ${formatEpisodeCode(episode.season, episode.number)} watched">
+        <input type="checkbox" data-show-id="${id}" data-episode="${episode.number}" ${watched.includes(episode.number) ? 'checked' : ''}>
+        ${episodes.length > 1 ? `E${episode.number}` : 'Watched'}
+      </label>
+    `).join('');
+  }
+
+  /**
+   * Handle a watched checkbox change in the week view
+   */
+  private handleWatchedToggle(checkbox: HTMLInputElement): void {
+    const show = this.showManager.getAllShows()[Number(checkbox.dataset.showId)];
+    const episode = Number(checkbox.dataset.episode);
+    if (!show || !episode || !this.reactiveShowManager) {
+      return;
+    }
+    this.reactiveShowManager.setEpisodeWatched(show, episode, checkbox.checked);
+  }
+
+  /**
+   * Get the hiatus calendar used for projected air dates
+   */
+  private getHiatusCalendar(): HiatusCalendar {
+    return this.reactiveShowManager?.getHiatusCalendar() ?? CONFIG.HIATUS_CALENDAR;
+  }
+
+  /**
+   * Format season dates and episode count, marking estimated values
+   */
+  private formatSeasonDates(show: Show, estimate: SeasonEstimate | null): string {
+    const seasonInfo = show.s ? `S${show.s}` : 'S?';
+    const markEstimate = (value: string, field: EstimableField): string =>
+      estimate?.estimated.includes(field)
+        ? `<span class="estimate" title="Estimated from network defaults">${value} (est.)</span>`
+        : value;
+
+    const end = estimate?.end ?? show.end;
+    const eps = estimate?.eps ?? show.eps;
+    const endInfo = end ? ' – ' + markEstimate(end, 'end') : '';
+    const epsInfo = estimate?.estimated.includes('eps') && eps !== null
+      ? `, ${markEstimate(`${eps} eps`, 'eps')}`
+      : '';
+
+    return `${seasonInfo}: ${show.start}${endInfo}${epsInfo}`;
+  }
+
   /**
    * Escape HTML to prevent XSS
    */
   private escapeHtml(text: string): string {
-    const div = document.createElement('div');
-    div.textContent = text;
-    return div.innerHTML;
+    return escapeHtml(text);
+  }
+
+  /**
+   * Escape a title for display, marking the search term in it
+   */
+  private highlightSearchTerm(title: string): string {
+    if (!this.searchTerm) {
+      return this.escapeHtml(title);
+    }
+    // Splitting on a captured pattern puts the matches at the odd indexes
+    const regex = new RegExp(`(${this.escapeRegex(this.searchTerm)})`, 'gi');
+    return title
+      .split(regex)
+      .map((part, index) => (index % 2 === 1 ? `<mark>${this.escapeHtml(part)}</mark>` : this.escapeHtml(part)))
+      .join('');
   }
 
   /**
@@ -968,7 +2188,7 @@ export class DOMIntegration {
   /**
    * Get current view mode
    */
-  getViewMode(): 'all' | 'week' {
+  getViewMode(): DisplayMode {
     return this.viewMode.current;
   }
 
@@ -1006,7 +2226,10 @@ export class DOMIntegration {
       // Sort by ID
       showEntries.sort((a, b) => a.id - b.id);
 
-      // Build legend table rows (4 columns per row)
+      // Build legend table rows (4 columns per row), badged with the selected week's milestone
+      const estimateSettings = this.getEstimateSettings();
+      const hiatusCalendar = this.getHiatusCalendar();
+      const { startDate, endDate } = this.getWeekRange(this.reactiveShowManager?.getWeekOffset() ?? 0);
       let rows = '';
       for (let i = 0; i < showEntries.length; i += 4) {
         const rowEntries = showEntries.slice(i, i + 4);
@@ -1014,21 +2237,18 @@ export class DOMIntegration {
           const statusClass = show.ret ? '' : 'ended';
           
           // Format date information
-          const seasonInfo = show.s ? `S${show.s}` : 'S?';
+          const estimate = getSeasonEstimate(show, estimateSettings, hiatusCalendar);
           const dateInfo = show.start 
-            ? `${seasonInfo}: ${show.start}${show.end ? ' – ' + show.end : ''}` 
+            ? this.formatSeasonDates(show, estimate) 
             : 'Season dates: TBD';
+          const milestone = getSeasonMilestone(withEstimate(show, estimate), startDate, endDate, hiatusCalendar);
 
-          // Highlight search terms in title
-          let displayTitle = show.t;
-          if (this.searchTerm) {
-            const regex = new RegExp(`(${this.escapeRegex(this.searchTerm)})`, 'gi');
-            displayTitle = show.t.replace(regex, '<mark>$1</mark>');
-          }
+          const displayTitle = this.highlightSearchTerm(show.t);
 
           return `<td>
-            <span class="${show.c} chip">${id}</span> 
+            ${renderPlatformChip(show.c, String(id))} 
             <span class="${statusClass}">${displayTitle}</span>
+            ${this.renderMilestoneBadge(milestone, isEstimatedMilestone(milestone, estimate))}
             <span class="meta">${dateInfo}</span>
           </td>`;
         }).join('');
@@ -1076,29 +2296,61 @@ export class DOMIntegration {
         .map(([id, show]) => ({ id: parseInt(id), show }))
         .sort((a, b) => a.id - b.id);
 
-      let html = '<table class="editor"><thead><tr><th>#</th><th>Title</th><th>Platform</th><th>Network</th><th>Air Day</th><th>Season</th><th>Start</th><th>End</th><th>Eps</th><th>Returning</th></tr></thead><tbody>';
+      let html = '<table class="editor"><thead><tr><th>#</th><th>Title</th><th>Platform</th><th>Network</th><th>Air Day</th><th>Time</th><th>Season</th><th>Start</th><th>End</th><th>Eps</th><th>Returning</th><th>Past Seasons</th></tr></thead><tbody>';
 
       const dayOrder = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+      const feeds: TimeFeed[] = ['ET', 'CT', 'MT', 'PT'];
 
       showEntries.forEach(({ id, show }) => {
-        const platformDisplay = show.c.charAt(0).toUpperCase() + show.c.slice(1);
+        // Edit the latest season; entering a new season number adds a season to the history
+        const seasons = getSeasons(show);
+        const latest = getLatestSeason(seasons) ?? { s: null, start: '', end: '', eps: null, air: show.air };
+        const pastSeasons = seasons
+          .filter(season => season !== latest)
+          .map(season => this.escapeHtml(formatSeasonRecord(season)))
+          .join('<br>');
+
         html += `<tr>
           <td>${id}</td>
-          <td>${show.t}</td>
-          <td><span class="${show.c} chip">${platformDisplay}</span></td>
-          <td><span class="${show.net.toLowerCase()}-logo">${show.net}</span></td>
+          <td>${this.escapeHtml(show.t)}</td>
+          <td>
+            ${renderPlatformChip(show.c)}
+            <select data-k="${id}" data-f="c" title="Platform">
+              ${registry.getPlatforms().map(p =>
+                `<option value="${p.id}" ${show.c === p.id ? 'selected' : ''}>${this.escapeHtml(p.name)}</option>`
+              ).join('')}
+            </select>
+          </td>
+          <td>
+            ${renderNetworkBadge(show.net)}
+            <select data-k="${id}" data-f="net" title="Network">
+              ${registry.getNetworks().map(n =>
+                `<option value="${n.id}" ${show.net === n.id ? 'selected' : ''}>${this.escapeHtml(n.name)}</option>`
+              ).join('')}
+            </select>
+          </td>
           <td>
             <select data-k="${id}" data-f="air">
               ${['', ...dayOrder].map(d => 
-                `<option value="${d}" ${show.air === d ? 'selected' : ''}>${d || '—'}</option>`
+                `<option value="${d}" ${latest.air === d ? 'selected' : ''}>${d || '—'}</option>`
               ).join('')}
             </select>
           </td>
-          <td><input type="number" min="1" max="50" data-k="${id}" data-f="s" value="${show.s ?? ''}" title="Season number (1-50)"></td>
-          <td><input type="date" data-k="${id}" data-f="start" value="${show.start || ''}" title="Season start date"></td>
-          <td><input type="date" data-k="${id}" data-f="end" value="${show.end || ''}" title="Season end date"></td>
-          <td><input type="number" min="1" max="100" data-k="${id}" data-f="eps" value="${show.eps ?? ''}" title="Number of episodes (1-100)"></td>
+          <td>
+            <input type="time" data-k="${id}" data-f="airStart" value="${show.airtime?.start ?? ''}" title="Start time (leave empty if unknown)">
+            <input type="number" min="1" max="360" data-k="${id}" data-f="airRuntime" value="${show.airtime?.runtime ?? ''}" title="Runtime in minutes (default 60)">
+            <select data-k="${id}" data-f="airFeed" title="Time zone feed of the start time">
+              ${feeds.map(feed =>
+                `<option value="${feed}" ${(show.airtime?.feed ?? 'ET') === feed ? 'selected' : ''}>${feed}</option>`
+              ).join('')}
+            </select>
+          </td>
+          <td><input type="number" min="1" max="50" data-k="${id}" data-f="s" value="${latest.s ?? ''}" title="Season number (1-50) - enter a new number to add a season"></td>
+          <td><input type="date" data-k="${id}" data-f="start" value="${latest.start || ''}" title="Season start date"></td>
+          <td><input type="date" data-k="${id}" data-f="end" value="${latest.end || ''}" title="Season end date"></td>
+          <td><input type="number" min="1" max="100" data-k="${id}" data-f="eps" value="${latest.eps ?? ''}" title="Number of episodes (1-100)"></td>
           <td style="text-align: center"><input type="checkbox" data-k="${id}" data-f="ret" ${show.ret ? 'checked' : ''} title="Is this show returning?"></td>
+          <td><span class="meta">${pastSeasons || '—'}</span></td>
         </tr>`;
       });
 
@@ -1125,6 +2377,7 @@ export class DOMIntegration {
     try {
       const inputs = document.querySelectorAll('#editWrap [data-k]');
       const changes: Record<number, Partial<Show>> = {};
+      const airtimeInputs: Record<number, Record<string, string>> = {};
 
       inputs.forEach(el => {
         const element = el as HTMLInputElement | HTMLSelectElement;
@@ -1136,6 +2389,11 @@ export class DOMIntegration {
         }
 
         const showId = parseInt(k);
+        if (f === 'airStart' || f === 'airRuntime' || f === 'airFeed') {
+          airtimeInputs[showId] = { ...airtimeInputs[showId], [f]: element.value };
+          return;
+        }
+
         let val: string | number | boolean | null = element.type === 'checkbox' 
           ? (element as HTMLInputElement).checked 
           : element.value;
@@ -1151,12 +2409,21 @@ export class DOMIntegration {
         (changes[showId] as Record<string, unknown>)[f] = val === '' ? '' : val;
       });
 
-      // Update shows in the show manager
+      // Update shows in the show manager, recording the edited season in each show's history
       Object.entries(changes).forEach(([showId, updates]) => {
         const id = parseInt(showId);
         const allShows = this.showManager.getAllShows();
-        if (allShows[id]) {
-          Object.assign(allShows[id], updates);
+        const show = allShows[id];
+        if (show) {
+          const edited: Show = { ...show, ...updates };
+          const airtime = this.parseAirtimeInputs(airtimeInputs[id]);
+          if (airtime) {
+            edited.airtime = airtime;
+          } else {
+            delete edited.airtime;
+            delete show.airtime;
+          }
+          Object.assign(show, recordSeason(edited, toSeasonRecord(edited)));
         }
       });
 
@@ -1173,6 +2440,21 @@ export class DOMIntegration {
     }
   }
 
+  /**
+   * Build a show's airtime from its editor inputs (null without a start time)
+   */
+  private parseAirtimeInputs(inputs: Record<string, string> | undefined): Airtime | null {
+    if (!inputs?.airStart) {
+      return null;
+    }
+    const runtime = parseInt(inputs.airRuntime ?? '', 10);
+    return {
+      start: inputs.airStart,
+      runtime: runtime > 0 ? runtime : 60,
+      feed: (inputs.airFeed || 'ET') as TimeFeed
+    };
+  }
+
   /**
    * Get current search term
    */
@@ -1183,7 +2465,7 @@ export class DOMIntegration {
   /**
    * Set mode change callback
    */
-  onModeChange(callback: (mode: 'all' | 'week') => void): void {
+  onModeChange(callback: (mode: DisplayMode) => void): void {
     this.viewMode.onModeChange = callback;
   }
 
@@ -1199,6 +2481,19 @@ export class DOMIntegration {
     // Cleanup reactive subscriptions
     this.unsubscribers.forEach(unsub => unsub());
     this.unsubscribers = [];
+    this.costPlanner?.destroy();
+    this.costPlanner = null;
+    this.rotationCalendar?.destroy();
+    this.rotationCalendar = null;
+    this.seasonTimeline?.destroy();
+    this.seasonTimeline = null;
+    this.statsDisplay?.destroy();
+    this.statsDisplay = null;
+    this.coWatchPlanner?.destroy();
+    this.coWatchPlanner = null;
+    this.profileSwitcher?.destroy();
+    this.profileSwitcher = null;
+    this.closeImportReview();
 
     // Event listeners will be automatically removed when elements are removed
     logger.info('DOM integration destroyed');
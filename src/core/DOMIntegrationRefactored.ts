@@ -6,13 +6,32 @@
 
 import { logger } from '../utils/logger.js';
 import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
+import { CONFIG } from './config.js';
+import { ExportFormat, ExportOptions, ImportStrategy, ImportPlan, ImportPreviewEntry, StateBackup } from '../types/index.js';
+import { getShowCalendarEvents } from '../modules/showCalendar.js';
+import { buildICalendar, isICalendar, parseICalendar } from '../utils/icalUtils.js';
+import { buildCalendarProposals } from '../modules/calendarImport.js';
+import { addRejectedEntries, buildImportPlan, formatImportResult } from '../modules/dataImport.js';
+import { buildShowsCsv, guessCsvMapping, readCsvShows, readCsvTable } from '../modules/showCsv.js';
+import { buildExportData, buildStateBackup, isStateBackup } from '../modules/dataExport.js';
+import { downloadFile } from '../utils/domUtils.js';
+import { registry } from '../services/registryService.js';
+import { compressText, readFileText, stripCompressedExtension } from '../utils/compression.js';
 
 // Import all components
 import {
   FilterControls,
   SearchBox,
+  ProfileSwitcher,
   WeekNavigator,
   StatsDisplay,
+  CostPlanner,
+  RotationCalendar,
+  SeasonTimeline,
+  CoWatchPlanner,
+  CalendarImportReview,
+  ImportPreview,
+  CsvImportMapping,
   LegendTable,
   WeekViewTable,
   AllShowsList
@@ -28,8 +47,14 @@ export class DOMIntegrationRefactored {
   // Component instances
   private filterControls: FilterControls | null = null;
   private searchBox: SearchBox | null = null;
+  private profileSwitcher: ProfileSwitcher | null = null;
   private weekNavigator: WeekNavigator | null = null;
   private statsDisplay: StatsDisplay | null = null;
+  private costPlanner: CostPlanner | null = null;
+  private rotationCalendar: RotationCalendar | null = null;
+  private seasonTimeline: SeasonTimeline | null = null;
+  private coWatchPlanner: CoWatchPlanner | null = null;
+  private importReview: CalendarImportReview | CsvImportMapping | ImportPreview | null = null;
   private legendTable: LegendTable | null = null;
   private weekViewTable: WeekViewTable | null = null;
   private allShowsList: AllShowsList | null = null;
@@ -42,9 +67,15 @@ export class DOMIntegrationRefactored {
     viewWeek: document.getElementById('viewWeek') as HTMLElement | null,
     filtersSection: document.querySelector('.filters') as HTMLElement | null,
     searchContainer: document.querySelector('.search-container') as HTMLElement | null,
+    profileSwitcher: document.getElementById('profileSwitcher') as HTMLElement | null,
     filterRows: document.querySelectorAll('.filter-row'),
     legendSection: document.querySelector('section:has(#legendTable)') as HTMLElement | null,
     legendTable: document.getElementById('legendTable') as HTMLElement | null,
+    costPlanner: document.getElementById('costPlanner') as HTMLElement | null,
+    rotationCalendar: document.getElementById('rotationCalendar') as HTMLElement | null,
+    seasonTimeline: document.getElementById('seasonTimeline') as HTMLElement | null,
+    statsDisplay: document.getElementById('statsDisplay') as HTMLElement | null,
+    coWatchPlanner: document.getElementById('coWatchPlanner') as HTMLElement | null,
     allList: document.getElementById('allList') as HTMLElement | null,
     weekControls: document.querySelector('#viewWeek .controls') as HTMLElement | null,
     weekTable: document.getElementById('weekTable') as HTMLElement | null,
@@ -53,7 +84,10 @@ export class DOMIntegrationRefactored {
     historyStatus: document.getElementById('historyStatus') as HTMLElement | null,
     importBtn: document.getElementById('importBtn') as HTMLButtonElement | null,
     exportBtn: document.getElementById('exportBtn') as HTMLButtonElement | null,
-    importFile: document.getElementById('importFile') as HTMLInputElement | null
+    exportFormat: document.getElementById('exportFormat') as HTMLSelectElement | null,
+    exportCompress: document.getElementById('exportCompress') as HTMLInputElement | null,
+    importFile: document.getElementById('importFile') as HTMLInputElement | null,
+    importReview: document.getElementById('importReview') as HTMLElement | null
   };
 
   constructor(reactiveShowManager: ReactiveShowManager) {
@@ -142,6 +176,14 @@ export class DOMIntegrationRefactored {
       logger.info('SearchBox component mounted');
     }
 
+    // Initialize ProfileSwitcher (scopes the views to household profiles)
+    const profileContainer = this.elements.profileSwitcher;
+    if (profileContainer) {
+      this.profileSwitcher = new ProfileSwitcher({}, this.reactiveShowManager);
+      this.profileSwitcher.mount(profileContainer);
+      logger.info('ProfileSwitcher component mounted');
+    }
+
     // Initialize WeekNavigator (replaces manual week navigation)
     const weekControls = this.elements.weekControls;
     if (weekControls) {
@@ -206,9 +248,45 @@ export class DOMIntegrationRefactored {
       logger.info('AllShowsList component mounted');
     }
 
-    // Initialize StatsDisplay (optional - for showing statistics)
-    // We can add this to the page if desired, but it's not in the original HTML
-    // For now, we'll skip it unless you want to add a stats section
+    // Initialize StatsDisplay (counts and the weekly airing heatmap)
+    const statsContainer = this.elements.statsDisplay;
+    if (statsContainer) {
+      this.statsDisplay = new StatsDisplay({}, this.reactiveShowManager);
+      this.statsDisplay.mount(statsContainer);
+      logger.info('StatsDisplay component mounted');
+    }
+
+    // Initialize CostPlanner (cheapest subscription plan for the followed shows)
+    const costPlannerContainer = this.elements.costPlanner;
+    if (costPlannerContainer) {
+      this.costPlanner = new CostPlanner({}, this.reactiveShowManager);
+      this.costPlanner.mount(costPlannerContainer);
+      logger.info('CostPlanner component mounted');
+    }
+
+    // Initialize RotationCalendar (when each platform is needed or can be cancelled)
+    const rotationContainer = this.elements.rotationCalendar;
+    if (rotationContainer) {
+      this.rotationCalendar = new RotationCalendar({}, this.reactiveShowManager);
+      this.rotationCalendar.mount(rotationContainer);
+      logger.info('RotationCalendar component mounted');
+    }
+
+    // Initialize SeasonTimeline (each season as a bar, to spot gaps in a lineup)
+    const timelineContainer = this.elements.seasonTimeline;
+    if (timelineContainer) {
+      this.seasonTimeline = new SeasonTimeline({}, this.reactiveShowManager);
+      this.seasonTimeline.mount(timelineContainer);
+      logger.info('SeasonTimeline component mounted');
+    }
+
+    // Initialize CoWatchPlanner (nights to watch shared shows together)
+    const coWatchContainer = this.elements.coWatchPlanner;
+    if (coWatchContainer) {
+      this.coWatchPlanner = new CoWatchPlanner({}, this.reactiveShowManager);
+      this.coWatchPlanner.mount(coWatchContainer);
+      logger.info('CoWatchPlanner component mounted');
+    }
   }
 
   /**
@@ -222,6 +300,23 @@ export class DOMIntegrationRefactored {
     this.elements.btnWeek?.addEventListener('click', () => {
       this.setView('week');
     });
+
+    // Follow view changes made elsewhere (e.g., opening a link or going back)
+    this.reactiveShowManager.subscribeToCurrentView(view => {
+      const mode = view === 'all' ? 'all' : 'week';
+      if (mode !== this.currentView) {
+        this.setView(mode);
+      }
+    });
+
+    // Open the all shows view at a linked show
+    this.reactiveShowManager.subscribeToFocusedShow(showId => {
+      const show = showId !== null ? this.reactiveShowManager.getAllShows()[showId] : undefined;
+      if (show) {
+        this.setView('all');
+        this.allShowsList?.scrollToShow(show.t);
+      }
+    });
   }
 
   /**
@@ -247,6 +342,11 @@ export class DOMIntegrationRefactored {
     }
 
     this.currentView = mode;
+    // The week view covers both week layouts, so keep a week layout already in the state
+    const stateView = this.reactiveShowManager.getCurrentView();
+    if ((stateView === 'all') !== (mode === 'all')) {
+      this.reactiveShowManager.setCurrentView(mode);
+    }
     logger.info(`View mode set to: ${mode}`);
   }
 
@@ -355,23 +455,13 @@ export class DOMIntegrationRefactored {
     const file = target.files?.[0];
     
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (e: ProgressEvent<FileReader>): void => {
-        try {
-          const content = e.target?.result as string;
-          const data = JSON.parse(content);
-          
-          // Replace all shows with imported data
-          this.reactiveShowManager.replaceAllShows(data, 'import shows from file');
-          
-          logger.info('Import completed', { showCount: Object.keys(data).length });
-          alert(`Successfully imported ${Object.keys(data).length} shows!`);
-        } catch (error) {
-          logger.error('Failed to parse imported file', error);
-          alert('Invalid JSON file. Please check the file format and try again.');
-        }
-      };
-      reader.readAsText(file);
+      // Compressed files are detected from their content and decompressed first
+      readFileText(file)
+        .then(content => this.importFileContent(content, stripCompressedExtension(file.name), file.type))
+        .catch((error: unknown) => {
+          logger.error('Failed to read imported file', error);
+          alert('Could not read the file. If it is compressed, it may be damaged.');
+        });
     }
     
     // Reset file input
@@ -379,23 +469,197 @@ export class DOMIntegrationRefactored {
   }
 
   /**
-   * Handle data export
+   * Route an imported file's text to the calendar, CSV, backup or JSON import
+   */
+  private importFileContent(content: string, fileName: string, fileType: string): void {
+    if (isICalendar(content)) {
+      this.reviewCalendarImport(content, fileName);
+      return;
+    }
+    if (/\.csv$/i.test(fileName) || fileType === 'text/csv') {
+      this.reviewCsvImport(content, fileName);
+      return;
+    }
+
+    try {
+      const data: unknown = JSON.parse(content);
+      if (isStateBackup(data)) {
+        this.restoreStateBackup(data, fileName);
+        return;
+      }
+      this.reviewDataImport(data, fileName);
+    } catch (error) {
+      logger.error('Failed to parse imported file', error);
+      alert('Invalid JSON file. Please check the file format and try again.');
+    }
+  }
+
+  /**
+   * Restore a full backup after confirmation, replacing every show, the watch
+   * progress and the undo history (the views update from the restored state)
+   */
+  private restoreStateBackup(backup: StateBackup, fileName: string): void {
+    if (backup.schemaVersion > CONFIG.EXPORT_SCHEMA_VERSION) {
+      alert(`${fileName} was made by a newer version (${backup.appVersion}) and cannot be restored.`);
+      return;
+    }
+
+    const exportedAt = new Date(backup.exportedAt).toLocaleString();
+    if (!confirm(`Restore the backup from ${exportedAt}? This replaces every show, your watch progress and the undo history.`)) {
+      return;
+    }
+    if (!this.reactiveShowManager.importStateSnapshot(backup.snapshot)) {
+      alert(`${fileName} is damaged and was not restored.`);
+      return;
+    }
+    logger.info('Backup restored', { exportedAt: backup.exportedAt, appVersion: backup.appVersion });
+  }
+
+  /**
+   * Show a per-show preview of imported JSON data
+   * The applied import goes through importShows as a single undoable change
+   */
+  private reviewDataImport(data: unknown, fileName: string, rejected: ImportPreviewEntry[] = []): void {
+    const container = this.elements.importReview;
+    if (!container) {
+      return;
+    }
+
+    const buildPlan = (mergeStrategy: ImportStrategy): ImportPlan => addRejectedEntries(
+      buildImportPlan(data, this.reactiveShowManager.getAllShows(), {
+        mergeStrategy,
+        progress: this.reactiveShowManager.getWatchProgress()
+      }),
+      rejected
+    );
+
+    this.closeImportReview();
+    const preview = new ImportPreview({
+      plan: buildPlan('replace'),
+      fileName,
+      onStrategyChange: (strategy): void => preview.update({ plan: buildPlan(strategy) }),
+      onApply: (plan): void => {
+        this.reactiveShowManager.importShows(plan.shows, plan.progress, `import shows (${plan.strategy})`);
+        const message = formatImportResult(plan.result);
+        logger.info(message, plan.result);
+        alert(plan.result.errors.length > 0 ? `${message}:\n${plan.result.errors.join('\n')}` : `${message}!`);
+        this.closeImportReview();
+      },
+      onCancel: (): void => this.closeImportReview()
+    });
+    this.importReview = preview;
+    this.importReview.mount(container);
+    container.classList.remove('hidden');
+    container.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /**
+   * Ask how a CSV file's columns map onto show fields, then preview the rows
+   * read with that mapping (invalid rows are listed in the preview)
+   */
+  private reviewCsvImport(content: string, fileName: string): void {
+    const container = this.elements.importReview;
+    const table = readCsvTable(content);
+    if (!container || table.headers.length === 0) {
+      return;
+    }
+
+    this.closeImportReview();
+    this.importReview = new CsvImportMapping({
+      table,
+      mapping: guessCsvMapping(table.headers),
+      fileName,
+      onConfirm: (mapping): void => {
+        const { shows, rejected } = readCsvShows(table, mapping, this.reactiveShowManager.getAllShows());
+        logger.info('CSV import read', { rows: table.rows.length, rejected: rejected.length });
+        this.reviewDataImport(shows, fileName, rejected);
+      },
+      onCancel: (): void => this.closeImportReview()
+    });
+    this.importReview.mount(container);
+    container.classList.remove('hidden');
+    container.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /**
+   * Show the season updates read from an iCalendar file for review
+   * Applied updates go through batchUpdateShows as a single undoable change
+   */
+  private reviewCalendarImport(content: string, fileName: string): void {
+    const container = this.elements.importReview;
+    if (!container) {
+      return;
+    }
+
+    const result = buildCalendarProposals(parseICalendar(content), this.reactiveShowManager.getAllShows());
+    logger.info('Calendar import read', { proposals: result.proposals.length, unmatched: result.unmatched.length });
+
+    this.closeImportReview();
+    this.importReview = new CalendarImportReview({
+      result,
+      fileName,
+      onApply: (updates): void => {
+        this.reactiveShowManager.batchUpdateShows(updates, 'import calendar');
+        logger.info(`Imported calendar dates for ${Object.keys(updates).length} shows`);
+        this.closeImportReview();
+      },
+      onCancel: (): void => this.closeImportReview()
+    });
+    this.importReview.mount(container);
+    container.classList.remove('hidden');
+    container.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /**
+   * Close the calendar import review, CSV column mapping or import preview
+   */
+  private closeImportReview(): void {
+    this.importReview?.destroy();
+    this.importReview = null;
+    this.elements.importReview?.classList.add('hidden');
+  }
+
+  /**
+   * Handle data export in the selected format (JSON, CSV, iCalendar or full backup)
    */
   private handleExport(): void {
+    const options: ExportOptions = {
+      format: (this.elements.exportFormat?.value || 'json') as ExportFormat,
+      compress: this.elements.exportCompress?.checked ?? false
+    };
+    if (options.format === 'ics') {
+      this.handleCalendarExport();
+      return;
+    }
+
     try {
       const shows = this.reactiveShowManager.getAllShows();
-      const data = JSON.stringify(shows, null, 2);
-      
-      const blob = new Blob([data], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `tv-shows-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const date = new Date().toISOString().split('T')[0];
+      if (options.format === 'csv') {
+        this.downloadExport(buildShowsCsv(shows), `tv-shows-${date}.csv`, 'text/csv', options);
+        logger.info('CSV export completed', { showCount: Object.keys(shows).length });
+        return;
+      }
+
+      if (options.format === 'backup') {
+        const backup = buildStateBackup(this.reactiveShowManager.exportStateSnapshot());
+        this.downloadExport(JSON.stringify(backup), `tv-show-guide-backup-${date}.json`, 'application/json', options);
+        logger.info('Backup export completed', { historySize: backup.snapshot.history.length });
+        return;
+      }
+
+      const filters = this.reactiveShowManager.getFilters();
+      const data = buildExportData(shows, {
+        progress: this.reactiveShowManager.getWatchProgress(),
+        filters: {
+          platforms: filters.platforms ?? registry.getPlatforms().map(platform => platform.id),
+          showNonReturning: filters.returning !== true,
+          searchTerm: filters.searchTerm ?? '',
+          profiles: this.reactiveShowManager.getSelectedProfileIds()
+        }
+      });
+
+      this.downloadExport(JSON.stringify(data, null, 2), `tv-shows-${date}.json`, 'application/json', options);
       
       logger.info('Export completed', { showCount: Object.keys(shows).length });
     } catch (error) {
@@ -404,6 +668,44 @@ export class DOMIntegrationRefactored {
     }
   }
 
+  /**
+   * Download an export, gzip-compressed (as a .gz file) when asked to
+   */
+  private downloadExport(content: string, fileName: string, mimeType: string, options: ExportOptions): void {
+    if (!options.compress) {
+      downloadFile(content, fileName, mimeType);
+      return;
+    }
+
+    compressText(content)
+      .then(bytes => {
+        downloadFile(bytes, `${fileName}.gz`, 'application/gzip');
+        logger.info('Export compressed', { size: content.length, compressed: bytes.length });
+      })
+      .catch((error: unknown) => {
+        logger.error('Export compression failed', error);
+        alert('Failed to compress the export. Please try again without compression.');
+      });
+  }
+
+  /**
+   * Export the filtered shows' premieres, weekly episodes and finales as an iCalendar file
+   */
+  private handleCalendarExport(): void {
+    try {
+      const events = getShowCalendarEvents(this.reactiveShowManager.getFilteredShows(), {
+        calendar: this.reactiveShowManager.getHiatusCalendar(),
+        getEstimate: show => this.reactiveShowManager.getSeasonEstimate(show)
+      });
+
+      downloadFile(buildICalendar(events, 'TV Show Guide'), 'tv-show-guide.ics', 'text/calendar');
+      logger.info('Calendar export completed', { events: events.length });
+    } catch (error) {
+      logger.error('Calendar export failed', error);
+      alert('Failed to export calendar. Please try again.');
+    }
+  }
+
   /**
    * Get current view mode
    */
@@ -417,8 +719,13 @@ export class DOMIntegrationRefactored {
   getComponents(): {
     filterControls: FilterControls | null;
     searchBox: SearchBox | null;
+    profileSwitcher: ProfileSwitcher | null;
     weekNavigator: WeekNavigator | null;
     statsDisplay: StatsDisplay | null;
+    costPlanner: CostPlanner | null;
+    rotationCalendar: RotationCalendar | null;
+    seasonTimeline: SeasonTimeline | null;
+    coWatchPlanner: CoWatchPlanner | null;
     legendTable: LegendTable | null;
     weekViewTable: WeekViewTable | null;
     allShowsList: AllShowsList | null;
@@ -426,8 +733,13 @@ export class DOMIntegrationRefactored {
     return {
       filterControls: this.filterControls,
       searchBox: this.searchBox,
+      profileSwitcher: this.profileSwitcher,
       weekNavigator: this.weekNavigator,
       statsDisplay: this.statsDisplay,
+      costPlanner: this.costPlanner,
+      rotationCalendar: this.rotationCalendar,
+      seasonTimeline: this.seasonTimeline,
+      coWatchPlanner: this.coWatchPlanner,
       legendTable: this.legendTable,
       weekViewTable: this.weekViewTable,
       allShowsList: this.allShowsList
@@ -441,8 +753,14 @@ export class DOMIntegrationRefactored {
     // Destroy all component instances
     this.filterControls?.destroy();
     this.searchBox?.destroy();
+    this.profileSwitcher?.destroy();
     this.weekNavigator?.destroy();
     this.statsDisplay?.destroy();
+    this.costPlanner?.destroy();
+    this.rotationCalendar?.destroy();
+    this.seasonTimeline?.destroy();
+    this.coWatchPlanner?.destroy();
+    this.closeImportReview();
     this.legendTable?.destroy();
     this.weekViewTable?.destroy();
     this.allShowsList?.destroy();
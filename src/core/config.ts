@@ -3,21 +3,29 @@
  * Centralized configuration management with environment-specific settings
  */
 
-import { Platform } from '../types/index.js';
-
-export interface EpisodeDefaults {
-  ABC: number;
-  NBC: number;
-  CBS: number;
-  FOX: number;
-}
+import { RegistryEntry, HiatusCalendar, Platform, PlatformPricing, Profile, TimelineScale } from '../types/index.js';
 
 export interface AppConfig {
-  readonly EPISODE_DEFAULTS: EpisodeDefaults;
   readonly DAY_ORDER: readonly string[];
-  readonly PLATFORMS: readonly Platform[];
+  readonly PLATFORMS: readonly RegistryEntry[];
+  readonly NETWORKS: readonly RegistryEntry[];
   readonly STORAGE_KEY: string;
+  readonly REGISTRY_STORAGE_KEY: string;
+  readonly HIATUS_CALENDAR: HiatusCalendar;
+  readonly PLATFORM_PRICES: Readonly<Record<Platform, PlatformPricing>>;
+  readonly COST_PLAN_START: string;
+  readonly COST_PLAN_MONTHS: number;
+  readonly PROFILES: readonly Pick<Profile, 'id' | 'name'>[];
+  readonly CO_WATCH_MAX_EPISODES: number;
+  readonly GRID_START_HOUR: number;
+  readonly GRID_END_HOUR: number;
+  readonly GRID_SLOT_MINUTES: number;
+  readonly TIMELINE_DAY_WIDTH: Readonly<Record<TimelineScale, number>>;
+  readonly BROADCAST_YEAR_START_MONTH: number;
+  readonly HEATMAP_WEEKS: number;
+  readonly MIDSEASON_BREAK_DAYS: number;
   readonly APP_VERSION: string;
+  readonly EXPORT_SCHEMA_VERSION: number;
   readonly DEVELOPMENT_MODE: boolean;
 }
 
@@ -25,11 +33,91 @@ export interface AppConfig {
  * Main application configuration
  */
 export const CONFIG: AppConfig = {
-  EPISODE_DEFAULTS: { ABC: 18, NBC: 22, CBS: 20, FOX: 13 },
   DAY_ORDER: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const,
-  PLATFORMS: ['hulu', 'peacock', 'paramount'] as const,
+  PLATFORMS: [
+    {
+      id: 'hulu',
+      name: 'Hulu',
+      color: '#1dbf5c',
+      defaultEpisodes: null,
+      availability: { type: 'next-day' }
+    },
+    {
+      id: 'peacock',
+      name: 'Peacock',
+      color: '#0075d6',
+      defaultEpisodes: null,
+      availability: { type: 'next-day' }
+    },
+    {
+      id: 'paramount',
+      name: 'Paramount+',
+      color: '#d93232',
+      defaultEpisodes: null,
+      availability: { type: 'same-day' }
+    },
+    {
+      id: 'netflix',
+      name: 'Netflix',
+      color: '#e50914',
+      defaultEpisodes: null,
+      availability: { type: 'full-season' }
+    },
+    {
+      id: 'tubi',
+      name: 'Tubi',
+      color: '#7408ff',
+      defaultEpisodes: null,
+      availability: { type: 'full-season' }
+    }
+  ],
+  NETWORKS: [
+    { id: 'ABC', name: 'ABC', color: '#ffcc00', defaultEpisodes: 18 },
+    { id: 'NBC', name: 'NBC', color: '#00b0f0', defaultEpisodes: 22 },
+    { id: 'CBS', name: 'CBS', color: '#0052a3', defaultEpisodes: 20 },
+    { id: 'FOX', name: 'FOX', color: '#ff6b00', defaultEpisodes: 13 }
+  ],
   STORAGE_KEY: 'showsSeasonData',
+  REGISTRY_STORAGE_KEY: 'showsRegistry',
+  HIATUS_CALENDAR: {
+    global: [
+      { start: '2025-11-23', end: '2025-11-29', label: 'Thanksgiving week' },
+      { start: '2025-12-21', end: '2026-01-03', label: 'Winter break' }
+    ],
+    networks: {
+      NBC: [{ start: '2026-02-06', end: '2026-02-22', label: 'Winter Olympics' }]
+    },
+    shows: {}
+  },
+  // Monthly US prices; Tubi is free with ads and has no ad-free tier
+  PLATFORM_PRICES: {
+    hulu: { ads: 9.99, 'ad-free': 18.99 },
+    peacock: { ads: 7.99, 'ad-free': 13.99 },
+    paramount: { ads: 7.99, 'ad-free': 12.99 },
+    netflix: { ads: 7.99, 'ad-free': 17.99 },
+    tubi: { ads: 0, 'ad-free': null }
+  },
+  COST_PLAN_START: '2025-11',
+  COST_PLAN_MONTHS: 12,
+  PROFILES: [
+    { id: 'me', name: 'Me' },
+    { id: 'nikki', name: 'Nikki' }
+  ],
+  CO_WATCH_MAX_EPISODES: 2,
+  // Prime time on the Eastern clock, 7pm to midnight in half hours
+  GRID_START_HOUR: 19,
+  GRID_END_HOUR: 24,
+  GRID_SLOT_MINUTES: 30,
+  // Season timeline zoom, in pixels per day
+  TIMELINE_DAY_WIDTH: { month: 8, season: 2 },
+  // The broadcast year starts in September (1 = January); the heatmap covers a year of weeks
+  BROADCAST_YEAR_START_MONTH: 9,
+  HEATMAP_WEEKS: 52,
+  // Episodes this many days apart or more mark a midseason finale (a skipped holiday week is not one)
+  MIDSEASON_BREAK_DAYS: 21,
   APP_VERSION: '1.0.0',
+  // Bump when the JSON export format changes
+  EXPORT_SCHEMA_VERSION: 1,
   DEVELOPMENT_MODE: window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1'
 } as const;
 
@@ -3,11 +3,13 @@
  * Modern modular architecture with TypeScript
  */
 
-import { SeasonData, ShowDatabase } from './types/index.js';
+import { SeasonData, ShowDatabase, Platform } from './types/index.js';
 import { Application } from './core/Application.js';
 import { ShowManager } from './modules/showManager.js';
+import { applySeasonData } from './modules/seasonHistory.js';
 import { ReactiveShowManager } from './state/ReactiveShowManager.js';
 import { DOMIntegration } from './core/DOMIntegration.js';
+import { RouterService } from './services/routerService.js';
 import { logger } from './utils/logger.js';
 
 // Show database - this will eventually be moved to a data module
@@ -16,31 +18,31 @@ const shows: ShowDatabase = {
   2: { t: '911 Lonestar', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: true },
   3: { t: '911 Nashville', c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true },
   4: { t: 'Brilliant Minds', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Monday', ret: true },
-  5: { t: 'Chicago Fire', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: true },
-  6: { t: 'Chicago Med', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: true },
-  7: { t: 'Chicago PD', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: true },
+  5: { t: 'Chicago Fire', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: true, avail: [{ platform: 'hulu', kind: 'library' }], airtime: { start: '21:00', runtime: 60, feed: 'ET' } },
+  6: { t: 'Chicago Med', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: true, avail: [{ platform: 'hulu', kind: 'library' }], airtime: { start: '20:00', runtime: 60, feed: 'ET' } },
+  7: { t: 'Chicago PD', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: true, avail: [{ platform: 'hulu', kind: 'library' }], airtime: { start: '22:00', runtime: 60, feed: 'ET' } },
   8: { t: 'Doc', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: true },
   9: { t: 'Elsbeth', c: 'paramount', net: 'CBS', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true },
   10: { t: 'Fire Country', c: 'paramount', net: 'CBS', s: null, start: '', end: '', eps: null, air: 'Friday', ret: true },
   11: { t: 'Found', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: false },
   12: { t: 'The Good Doctor', c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: false },
-  13: { t: "Grey's Anatomy", c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true },
+  13: { t: "Grey's Anatomy", c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true, avail: [{ platform: 'netflix', kind: 'library' }] },
   14: { t: 'High County', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true },
   15: { t: 'High Potential', c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: true },
   16: { t: 'The Irrational', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: false },
-  17: { t: 'Law & Order', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true },
+  17: { t: 'Law & Order', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true, avail: [{ platform: 'hulu', kind: 'library' }], airtime: { start: '20:00', runtime: 60, feed: 'ET' } },
   18: { t: 'L&O: Organized Crime', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true },
-  19: { t: 'L&O: SVU', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true },
+  19: { t: 'L&O: SVU', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true, avail: [{ platform: 'hulu', kind: 'library' }], airtime: { start: '21:00', runtime: 60, feed: 'ET' } },
   20: { t: 'Matlock', c: 'paramount', net: 'CBS', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: true },
   21: { t: 'Murder in a Small Town', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: true },
-  22: { t: 'New Amsterdam', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: false },
-  23: { t: 'The Cleaning Lady', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Friday', ret: false },
-  24: { t: 'The Conners', c: 'peacock', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Friday', ret: false },
-  25: { t: 'The Resident', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: false },
+  22: { t: 'New Amsterdam', c: 'peacock', net: 'NBC', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: false, avail: [{ platform: 'netflix', kind: 'library' }] },
+  23: { t: 'The Cleaning Lady', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Friday', ret: false, avail: [{ platform: 'tubi', kind: 'library' }] },
+  24: { t: 'The Conners', c: 'peacock', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Friday', ret: false, avail: [{ platform: 'hulu', kind: 'next-day' }] },
+  25: { t: 'The Resident', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: false, avail: [{ platform: 'tubi', kind: 'library' }] },
   26: { t: 'Rescue: Hi Surf', c: 'hulu', net: 'FOX', s: null, start: '', end: '', eps: null, air: 'Monday', ret: false },
-  27: { t: 'Shifting Gears', c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: true },
-  28: { t: 'Station 19', c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: false },
-  29: { t: 'SWAT', c: 'paramount', net: 'CBS', s: null, start: '', end: '', eps: null, air: 'Friday', ret: false },
+  27: { t: 'Shifting Gears', c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Wednesday', ret: true, airtime: { start: '20:00', runtime: 30, feed: 'ET' } },
+  28: { t: 'Station 19', c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Thursday', ret: false, avail: [{ platform: 'netflix', kind: 'library' }] },
+  29: { t: 'SWAT', c: 'paramount', net: 'CBS', s: null, start: '', end: '', eps: null, air: 'Friday', ret: false, avail: [{ platform: 'hulu', kind: 'library' }] },
   30: { t: 'Tracker', c: 'paramount', net: 'CBS', s: null, start: '', end: '', eps: null, air: 'Sunday', ret: true },
   31: { t: 'Watson', c: 'paramount', net: 'CBS', s: null, start: '', end: '', eps: null, air: 'Monday', ret: true },
   32: { t: 'Will Trent', c: 'hulu', net: 'ABC', s: null, start: '', end: '', eps: null, air: 'Tuesday', ret: true }
@@ -85,6 +87,7 @@ const reactiveShowManager = new ReactiveShowManager(shows, {
   maxHistorySize: 50,
 });
 const domIntegration = new DOMIntegration(showManager, reactiveShowManager);
+const router = new RouterService(reactiveShowManager);
 
 /**
  * Apply preloaded season data to shows
@@ -92,8 +95,10 @@ const domIntegration = new DOMIntegration(showManager, reactiveShowManager);
 function applyPreloadedData(): void {
   Object.keys(preloadSeasonData).forEach(k => {
     const showId = parseInt(k);
-    if (shows[showId]) {
-      Object.assign(shows[showId], preloadSeasonData[k]);
+    const show = shows[showId];
+    const seasonData = preloadSeasonData[k];
+    if (show && seasonData) {
+      Object.assign(show, applySeasonData(show, seasonData));
     }
   });
   logger.info('Preloaded season data applied');
@@ -120,6 +125,9 @@ const legacyApp = {
       
       // Initialize DOM integration for UI interactions
       domIntegration.init();
+
+      // Restore the view, week and filters in the URL and keep them there
+      router.start();
       
       logger.info('Application started using new modular architecture with ReactiveShowManager');
     } catch (error) {
@@ -140,7 +148,7 @@ const legacyApp = {
     return showManager.searchShows(term);
   },
 
-  getShowsByPlatform: (platform: 'hulu' | 'peacock' | 'paramount'): ReturnType<typeof showManager.getShowsByPlatform> => {
+  getShowsByPlatform: (platform: Platform): ReturnType<typeof showManager.getShowsByPlatform> => {
     return showManager.getShowsByPlatform(platform);
   },
 
@@ -183,6 +191,7 @@ export {
   app, 
   showManager, 
   reactiveShowManager,
+  router,
   shows, 
   legacyApp as appLegacy 
 };
\ No newline at end of file
@@ -0,0 +1,81 @@
+/**
+ * Airing Heatmap Module
+ * Counts the episodes airing each week of a broadcast year, per platform
+ */
+
+import { Show, Platform, HiatusCalendar, SeasonEstimate, AiringHeatmap, HeatmapWeek } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { registry } from '../services/registryService.js';
+import { addDays, daysBetween, getWeekOffset, startOfWeek, toISODate } from '../utils/dateUtils.js';
+import { buildEpisodeSchedule } from './episodeSchedule.js';
+import { withEstimate } from './estimationEngine.js';
+
+/**
+ * Week range, breaks and estimate settings for an airing heatmap
+ */
+export interface AiringHeatmapOptions {
+  /** Any day of the first week (default: the start of the current broadcast year) */
+  start?: Date;
+  /** Number of weeks (default: CONFIG.HEATMAP_WEEKS) */
+  weeks?: number;
+  /** Breaks used to project air dates */
+  calendar?: HiatusCalendar;
+  /** Season estimate source (default: no estimates) */
+  getEstimate?: (show: Show) => SeasonEstimate | null;
+  /** Date the week offsets count from (default: now) */
+  today?: Date;
+}
+
+/**
+ * Gets the first day of the broadcast year containing a date
+ * (September 1 by default, see CONFIG.BROADCAST_YEAR_START_MONTH)
+ */
+export const getBroadcastYearStart = (date: Date = new Date()): Date => {
+  const month = CONFIG.BROADCAST_YEAR_START_MONTH - 1;
+  const year = date.getMonth() >= month ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, month, 1);
+};
+
+/**
+ * Builds the airing heatmap for a set of shows
+ * Episodes come from the same schedules as the week view (estimates and breaks applied),
+ * counted in the Sunday–Saturday week of their air date.
+ */
+export const buildAiringHeatmap = (shows: Show[], options: AiringHeatmapOptions = {}): AiringHeatmap => {
+  const {
+    today = new Date(),
+    start = getBroadcastYearStart(today),
+    weeks: weekCount = CONFIG.HEATMAP_WEEKS,
+    calendar = CONFIG.HIATUS_CALENDAR,
+    getEstimate = (): SeasonEstimate | null => null
+  } = options;
+
+  const firstWeek = startOfWeek(start);
+  const weeks: HeatmapWeek[] = Array.from({ length: weekCount }, (_, i) => {
+    const weekStart = addDays(firstWeek, i * 7);
+    return { start: toISODate(weekStart), offset: getWeekOffset(weekStart, today), counts: {}, total: 0 };
+  });
+  const firstISO = toISODate(firstWeek);
+
+  shows.forEach(show => {
+    const schedule = buildEpisodeSchedule(withEstimate(show, getEstimate(show)), calendar);
+    schedule?.episodes.forEach(({ airDate }) => {
+      const week = weeks[Math.floor(daysBetween(firstISO, airDate) / 7)];
+      if (week) {
+        week.counts[show.c] = (week.counts[show.c] ?? 0) + 1;
+        week.total++;
+      }
+    });
+  });
+
+  // Platforms in registry order; IDs missing from the registry go last
+  const counted = new Set<Platform>(weeks.flatMap(week => Object.keys(week.counts)));
+  const registered = registry.getPlatforms().map(platform => platform.id);
+  const platforms = [
+    ...registered.filter(id => counted.has(id)),
+    ...[...counted].filter(id => !registered.includes(id)).sort()
+  ];
+  const max = Math.max(0, ...weeks.flatMap(week => Object.values(week.counts)));
+
+  return { weeks, platforms, max };
+};
@@ -0,0 +1,162 @@
+/**
+ * Airtime Module
+ * Broadcast timeslots: ordering shows by time and detecting overlapping slots
+ */
+
+import { Show, Airtime, TimeFeed } from '../types/index.js';
+
+/**
+ * Minutes to add to a feed's clock to get the Eastern clock
+ * (the CT feed airs live with ET, so 7:00 PM CT is 8:00 PM ET)
+ */
+const FEED_OFFSETS: Record<TimeFeed, number> = {
+  ET: 0,
+  CT: 60,
+  MT: 120,
+  PT: 180
+};
+
+/**
+ * A timeslot in minutes after midnight on the Eastern clock
+ */
+export interface TimeSlot {
+  /** Slot start */
+  start: number;
+  /** Slot end (past 1440 when the slot runs past midnight) */
+  end: number;
+}
+
+/**
+ * Parses a 24-hour time (HH:MM) into minutes after midnight
+ */
+export const parseTime = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+/**
+ * Formats minutes after midnight as a 12-hour time (e.g., "8:00 PM")
+ */
+export const formatTime = (minutes: number): string => {
+  const dayMinutes = ((minutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(dayMinutes / 60);
+  const period = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(dayMinutes % 60).padStart(2, '0')} ${period}`;
+};
+
+/**
+ * Formats an airtime for display (e.g., "8:00 PM ET · 60 min")
+ */
+export const formatAirtime = (airtime: Airtime): string => {
+  const start = parseTime(airtime.start);
+  return start === null
+    ? `${airtime.runtime} min`
+    : `${formatTime(start)} ${airtime.feed} · ${airtime.runtime} min`;
+};
+
+/**
+ * Formats an airtime as plain text for files (e.g., "21:00 ET 60 min")
+ */
+export const toAirtimeText = (airtime: Airtime): string =>
+  `${airtime.start} ${airtime.feed} ${airtime.runtime} min`;
+
+/**
+ * Reads an airtime from text ("21:00 ET 60 min", "9:00 PM CT" or "9pm")
+ * The feed defaults to ET and the runtime to 60 minutes; returns null without a valid start time
+ */
+export const parseAirtimeText = (text: string): Airtime | null => {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(ET|CT|MT|PT)?\s*(?:[·,]?\s*(\d+)\s*min)?$/i.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hourText = '', minuteText = '00', period, feed, runtime] = match;
+  let hours = Number(hourText);
+  if (period) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (period.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  const start = `${String(hours).padStart(2, '0')}:${minuteText}`;
+  if (parseTime(start) === null) {
+    return null;
+  }
+  return {
+    start,
+    runtime: runtime ? Number(runtime) : 60,
+    feed: (feed?.toUpperCase() ?? 'ET') as TimeFeed
+  };
+};
+
+/**
+ * Gets a show's timeslot on the Eastern clock (null without a valid airtime)
+ */
+export const getAirtimeSlot = (show: Show): TimeSlot | null => {
+  const start = show.airtime ? parseTime(show.airtime.start) : null;
+  if (!show.airtime || start === null) {
+    return null;
+  }
+  const eastern = start + FEED_OFFSETS[show.airtime.feed];
+  return { start: eastern, end: eastern + Math.max(show.airtime.runtime, 0) };
+};
+
+/**
+ * Sort comparator putting shows in timeslot order, then by title
+ * Shows without an airtime go after the timed ones
+ */
+export const compareByAirtime = (a: Show, b: Show): number => {
+  const slotA = getAirtimeSlot(a);
+  const slotB = getAirtimeSlot(b);
+  if (slotA && slotB && slotA.start !== slotB.start) {
+    return slotA.start - slotB.start;
+  }
+  if (slotA && !slotB) {
+    return -1;
+  }
+  if (!slotA && slotB) {
+    return 1;
+  }
+  return a.t.localeCompare(b.t);
+};
+
+/**
+ * Checks if two timeslots overlap (back-to-back slots do not)
+ */
+export const slotsOverlap = (a: TimeSlot, b: TimeSlot): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Finds the shows of one day whose timeslots overlap
+ * Returns each conflicting show's title with the titles it overlaps
+ */
+export const findConflicts = (shows: Show[]): Map<string, string[]> => {
+  const conflicts = new Map<string, string[]>();
+  const timed = shows
+    .map(show => ({ show, slot: getAirtimeSlot(show) }))
+    .filter((entry): entry is { show: Show; slot: TimeSlot } => entry.slot !== null);
+
+  timed.forEach(({ show, slot }, i) => {
+    timed.slice(i + 1).forEach(other => {
+      if (!slotsOverlap(slot, other.slot)) {
+        return;
+      }
+      conflicts.set(show.t, [...(conflicts.get(show.t) ?? []), other.show.t]);
+      conflicts.set(other.show.t, [...(conflicts.get(other.show.t) ?? []), show.t]);
+    });
+  });
+
+  return conflicts;
+};
+
+/**
+ * Formats a conflict notice (e.g., "Overlaps Chicago Med")
+ */
+export const formatConflict = (titles: string[]): string => `Overlaps ${titles.join(', ')}`;
@@ -0,0 +1,151 @@
+/**
+ * Availability Module
+ * Resolves the platforms carrying a show (primary platform plus other availabilities)
+ */
+
+import {
+  Show,
+  Platform,
+  Availability,
+  AvailabilityKind,
+  AvailabilityRule,
+  EpisodeSchedule,
+  WatchableEpisode
+} from '../types/index.js';
+import { registry } from '../services/registryService.js';
+import { parseISODate, addDaysISO } from '../utils/dateUtils.js';
+
+/**
+ * Display labels for availability kinds
+ */
+export const AVAILABILITY_LABELS: Record<AvailabilityKind, string> = {
+  'next-day': 'Next day',
+  'full-season-later': 'Full season later',
+  library: 'Library'
+};
+
+/**
+ * Gets every availability for a show, primary platform first
+ * The primary platform counts as next-day unless listed otherwise
+ */
+export const getAvailabilities = (show: Show): Availability[] => {
+  const avail = show.avail ?? [];
+  const primary = avail.find(a => a.platform === show.c) ?? { platform: show.c, kind: 'next-day' };
+  return [primary, ...avail.filter(a => a.platform !== show.c)];
+};
+
+/**
+ * Gets the platforms carrying a show, primary platform first
+ */
+export const getShowPlatforms = (show: Show): Platform[] =>
+  getAvailabilities(show).map(a => a.platform);
+
+/**
+ * Checks whether any of the given platforms carries a show
+ */
+export const isAvailableOn = (show: Show, platforms: Iterable<Platform>): boolean => {
+  const showPlatforms = getShowPlatforms(show);
+  return Array.from(platforms).some(platform => showPlatforms.includes(platform));
+};
+
+/**
+ * Rule for platforms that do not set one
+ */
+export const DEFAULT_AVAILABILITY_RULE: AvailabilityRule = { type: 'next-day' };
+
+/**
+ * Gets when a platform makes new episodes available
+ */
+export const getPlatformRule = (platform: Platform): AvailabilityRule =>
+  registry.getPlatform(platform)?.availability ?? DEFAULT_AVAILABILITY_RULE;
+
+/**
+ * Gets when an availability makes a show's new episodes watchable
+ * Full-season-later availabilities override the platform rule; library ones
+ * never carry the current season, so they have no rule (null)
+ */
+export const getAvailabilityRule = (availability: Availability): AvailabilityRule | null => {
+  if (availability.kind === 'library') {
+    return null;
+  }
+  if (availability.kind === 'full-season-later') {
+    return { type: 'full-season' };
+  }
+  return getPlatformRule(availability.platform);
+};
+
+/**
+ * Gets the rule for the primary platform (how we watch the show)
+ */
+export const getShowRule = (show: Show): AvailabilityRule | null => {
+  const primary = getAvailabilities(show)[0];
+  return primary ? getAvailabilityRule(primary) : null;
+};
+
+/**
+ * Parses a rule from its form value ('same-day', 'next-day', 'full-season' or 'days-later:N')
+ * Returns null for anything else
+ */
+export const parseAvailabilityRule = (value: string): AvailabilityRule | null => {
+  if (value === 'same-day' || value === 'next-day' || value === 'full-season') {
+    return { type: value };
+  }
+  const match = /^days-later:(\d+)$/.exec(value);
+  return match ? { type: 'days-later', days: parseInt(match[1] ?? '0', 10) } : null;
+};
+
+/**
+ * Describes a rule for display (e.g., "Next day", "3 days later")
+ */
+export const formatAvailabilityRule = (rule: AvailabilityRule): string => {
+  switch (rule.type) {
+    case 'same-day':
+      return 'Same day';
+    case 'next-day':
+      return 'Next day';
+    case 'days-later':
+      return `${rule.days} day${rule.days === 1 ? '' : 's'} later`;
+    case 'full-season':
+      return 'Full season after finale';
+  }
+};
+
+/**
+ * Adds the day each episode can be streamed under a rule
+ * Returns no episodes without a schedule or rule
+ */
+export const getWatchableEpisodes = (
+  schedule: EpisodeSchedule | null,
+  rule: AvailabilityRule | null
+): WatchableEpisode[] => {
+  if (!schedule || !rule) {
+    return [];
+  }
+
+  const finale = schedule.episodes[schedule.episodes.length - 1];
+  return schedule.episodes.map(episode => {
+    switch (rule.type) {
+      case 'same-day':
+        return { ...episode, watchDate: episode.airDate };
+      case 'next-day':
+        return { ...episode, watchDate: addDaysISO(episode.airDate, 1) };
+      case 'days-later':
+        return { ...episode, watchDate: addDaysISO(episode.airDate, rule.days) };
+      case 'full-season':
+        return { ...episode, watchDate: addDaysISO(finale?.airDate ?? episode.airDate, 1) };
+    }
+  });
+};
+
+/**
+ * Finds the episodes that become watchable within a date range (inclusive)
+ */
+export const findWatchableInRange = (
+  episodes: WatchableEpisode[],
+  rangeStart: Date,
+  rangeEnd: Date
+): WatchableEpisode[] =>
+  episodes.filter(episode => {
+    const watchDate = parseISODate(episode.watchDate);
+    return watchDate !== null && watchDate >= rangeStart && watchDate <= rangeEnd;
+  });
@@ -0,0 +1,265 @@
+/**
+ * Calendar Import Module
+ * Matches calendar events to shows and proposes season dates from them
+ */
+
+import {
+  Show,
+  ShowDatabase,
+  AirDay,
+  ICalEvent,
+  CalendarSeasonFields,
+  CalendarProposal,
+  CalendarImportResult
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { parseISODate } from '../utils/dateUtils.js';
+
+/**
+ * Abbreviations spelled out before titles are compared (after "&" becomes "and")
+ */
+const TITLE_ABBREVIATIONS: ReadonlyArray<[RegExp, string]> = [
+  [/\bl and o\b/g, 'law and order'],
+  [/\bsvu\b/g, 'special victims unit']
+];
+
+/**
+ * Words that may follow a show's title in an event summary about that show
+ * (e.g., "Season 14", "S14E01", "premiere", "series finale")
+ */
+const EVENT_WORD = /^(?:season|series|midseason|premiere|finale|episode|s\d{1,2}(?:e\d{1,3})?|\d+)$/;
+
+/**
+ * Season fields a calendar import proposes, in display order
+ */
+export const CALENDAR_FIELDS: ReadonlyArray<keyof CalendarSeasonFields> = ['s', 'start', 'end', 'eps', 'air'];
+
+/**
+ * What an event says about a season
+ */
+type CalendarEventKind = 'premiere' | 'finale' | 'weekly' | 'episode';
+
+/**
+ * An event matched to a show
+ */
+interface MatchedEvent {
+  event: ICalEvent;
+  kind: CalendarEventKind;
+  season: number | null;
+  /** Whether the summary names the whole title, not a title it starts with */
+  whole: boolean;
+}
+
+/**
+ * The show an event summary is about
+ */
+export interface ShowMatch {
+  id: number;
+  /** False when the summary goes on past the title with words other than season or event words */
+  whole: boolean;
+}
+
+/**
+ * Normalizes a title to lowercase words for comparison
+ * Case, punctuation, "&" vs "and", a leading "The" and known abbreviations
+ * are ignored ("Law & Order: Special Victims Unit" matches "L&O: SVU")
+ */
+const toTitleWords = (title: string): string[] => {
+  let words = title
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+  TITLE_ABBREVIATIONS.forEach(([pattern, replacement]) => {
+    words = words.replace(pattern, replacement);
+  });
+  return words.split(' ').filter(Boolean);
+};
+
+/**
+ * Normalizes a title for comparison
+ * As toTitleWords, with spacing ignored too ("9-1-1: Lone Star" matches "911 Lonestar")
+ */
+export const toTitleKey = (title: string): string => toTitleWords(title).join('');
+
+/**
+ * Gets the key lengths at which each word of a title ends, mapped to the word count so far
+ */
+const getWordEnds = (words: string[]): Map<number, number> => {
+  const ends = new Map<number, number>();
+  words.reduce((length, word, index) => {
+    ends.set(length + word.length, index + 1);
+    return length + word.length;
+  }, 0);
+  return ends;
+};
+
+/**
+ * Finds the show an event summary is about
+ *
+ * The summary must start with the show's title, ending at a word boundary; the longest
+ * matching title wins ("9-1-1: Lone Star Season 6" is 911 Lonestar, not 911, and
+ * "Doctor Odyssey" is not Doc). The match is whole when nothing but season or event
+ * words follow the title. A partial match on a title another show's title starts with
+ * is ambiguous ("Law & Order: Organized Crime" may be a spinoff, not Law & Order), and
+ * gives no match.
+ */
+export const matchShow = (summary: string, shows: ShowDatabase): ShowMatch | null => {
+  const words = toTitleWords(summary);
+  const key = words.join('');
+  const wordEnds = getWordEnds(words);
+
+  let match: number | null = null;
+  let matchKey = '';
+
+  for (const [id, show] of Object.entries(shows)) {
+    const titleKey = toTitleKey(show.t);
+    if (titleKey.length > matchKey.length && wordEnds.has(titleKey.length) && key.startsWith(titleKey)) {
+      match = Number(id);
+      matchKey = titleKey;
+    }
+  }
+  if (match === null) {
+    return null;
+  }
+
+  const next = words[wordEnds.get(matchKey.length) ?? words.length];
+  const whole = next === undefined || EVENT_WORD.test(next);
+  const hasSpinoffs = Object.values(shows).some(show => {
+    const titleWords = toTitleWords(show.t);
+    const titleKey = titleWords.join('');
+    return titleKey.length > matchKey.length && titleKey.startsWith(matchKey) && getWordEnds(titleWords).has(matchKey.length);
+  });
+
+  return whole || !hasSpinoffs ? { id: match, whole } : null;
+};
+
+/**
+ * Reads the season number from a summary ("Season 14", "S14" or "S14E01")
+ */
+const getSeasonNumber = (summary: string): number | null => {
+  const match = /\bseason\s*(\d{1,2})\b/i.exec(summary) ?? /\bs(\d{1,2})(?:e\d{1,3})?\b/i.exec(summary);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Classifies an event as a premiere, finale, weekly repeat or single episode
+ * A first episode code (E01) counts as a premiere
+ */
+const getEventKind = (event: ICalEvent): CalendarEventKind => {
+  if (/\bfinale\b/i.test(event.summary)) {
+    return 'finale';
+  }
+  if (/\bpremiere\b/i.test(event.summary) || /\bs\d{1,2}e0*1\b/i.test(event.summary)) {
+    return 'premiere';
+  }
+  return event.until ? 'weekly' : 'episode';
+};
+
+/**
+ * Gets the day of the week an ISO date falls on
+ */
+const getAirDay = (iso: string): AirDay | undefined => {
+  const date = parseISODate(iso);
+  return date ? (CONFIG.DAY_ORDER[date.getDay()] as AirDay | undefined) : undefined;
+};
+
+/**
+ * Reads season fields from a show's matched events
+ *
+ * Only the latest season in the calendar is used, and never one older than the
+ * show's current season. Premieres set the start, season and air day; finales the
+ * end; weekly repeats fill in whatever the premiere and finale did not. Events that
+ * name only the start of a longer title give the air day at most. A new season
+ * clears the end date and episode count the calendar does not give.
+ */
+const readSeasonFields = (show: Show, matched: MatchedEvent[]): { fields: CalendarSeasonFields; sources: string[] } => {
+  const seasons = matched
+    .filter(({ whole }) => whole)
+    .map(({ season }) => season)
+    .filter((season): season is number => season !== null);
+  const latest = seasons.length > 0 ? Math.max(...seasons) : null;
+  const events = matched.filter(({ season }) =>
+    (season === null || season === latest) && (season === null || show.s === null || season >= show.s)
+  );
+
+  const byKind = (kind: CalendarEventKind, whole: boolean): MatchedEvent[] =>
+    events
+      .filter(event => event.kind === kind && event.whole === whole)
+      .sort((a, b) => a.event.date.localeCompare(b.event.date));
+  const premiere = byKind('premiere', true)[0];
+  const finale = byKind('finale', true).slice(-1)[0];
+  const weekly = byKind('weekly', true)[0];
+  const airEvent = weekly ?? premiere ?? byKind('weekly', false)[0] ?? byKind('premiere', false)[0];
+
+  const fields: CalendarSeasonFields = {};
+  const start = premiere?.event.date ?? weekly?.event.date;
+  const end = finale?.event.date ?? weekly?.event.until;
+  const season = premiere?.season ?? weekly?.season ?? finale?.season ?? null;
+  const air = airEvent ? getAirDay(airEvent.event.date) : undefined;
+
+  if (season !== null) {
+    fields.s = season;
+  }
+  if (start) {
+    fields.start = start;
+  }
+  if (end && (!start || end >= start)) {
+    fields.end = end;
+  }
+  if (air) {
+    fields.air = air;
+  }
+  if (season !== null && show.s !== null && season > show.s) {
+    fields.end = fields.end ?? '';
+    fields.eps = null;
+  }
+
+  const used = [...new Set([premiere, finale, weekly, airEvent])].filter((event): event is MatchedEvent => event !== undefined);
+  return { fields, sources: used.map(({ event }) => event.summary) };
+};
+
+/**
+ * Proposes season updates from calendar events
+ * Events are matched to shows by title; shows whose season data would not change
+ * get no proposal. Summaries matching no show are reported as unmatched.
+ */
+export const buildCalendarProposals = (events: ICalEvent[], shows: ShowDatabase): CalendarImportResult => {
+  const matchedByShow = new Map<number, MatchedEvent[]>();
+  const unmatched: string[] = [];
+
+  events.forEach(event => {
+    const match = matchShow(event.summary, shows);
+    if (match === null) {
+      unmatched.push(event.summary);
+      return;
+    }
+    const { id, whole } = match;
+    const matched = { event, kind: getEventKind(event), season: getSeasonNumber(event.summary), whole };
+    matchedByShow.set(id, [...(matchedByShow.get(id) ?? []), matched]);
+  });
+
+  const proposals: CalendarProposal[] = [];
+  matchedByShow.forEach((matched, id) => {
+    const show = shows[id];
+    if (!show) {
+      return;
+    }
+    const { fields, sources } = readSeasonFields(show, matched);
+    const current: CalendarSeasonFields = {};
+    const updates: CalendarSeasonFields = {};
+    CALENDAR_FIELDS.forEach(field => {
+      if (fields[field] !== undefined && fields[field] !== show[field]) {
+        Object.assign(current, { [field]: show[field] });
+        Object.assign(updates, { [field]: fields[field] });
+      }
+    });
+    if (Object.keys(updates).length > 0) {
+      proposals.push({ id, title: show.t, current, updates, sources });
+    }
+  });
+
+  proposals.sort((a, b) => a.title.localeCompare(b.title));
+  return { proposals, unmatched: [...new Set(unmatched)] };
+};
@@ -0,0 +1,140 @@
+/**
+ * Co-Watch Planner Module
+ * Proposes which nights a household watches which shared episodes together
+ */
+
+import {
+  Show,
+  AirDay,
+  Profile,
+  HiatusCalendar,
+  SeasonEstimate,
+  CoWatchEpisode,
+  CoWatchPlan,
+  ICalEvent
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { addDays, addDaysISO, parseISODate, toISODate } from '../utils/dateUtils.js';
+import { buildEpisodeSchedule, formatEpisodeCode } from './episodeSchedule.js';
+import { withEstimate } from './estimationEngine.js';
+import { getSharedTitles } from './profiles.js';
+
+/**
+ * Days of the week, Sunday first
+ */
+const DAYS = CONFIG.DAY_ORDER as readonly AirDay[];
+
+/**
+ * Week, limit and episode settings for a co-watching plan
+ */
+export interface CoWatchOptions {
+  /** First day of the week (Sunday) */
+  start: Date;
+  /** Most episodes to watch in one night (default: CONFIG.CO_WATCH_MAX_EPISODES) */
+  maxEpisodesPerNight?: number;
+  /** Breaks used to project air dates */
+  calendar?: HiatusCalendar;
+  /** Season estimate source (default: no estimates) */
+  getEstimate?: (show: Show) => SeasonEstimate | null;
+  /** Whether the group has already watched an episode (default: nothing watched) */
+  isWatched?: (show: Show, episode: number) => boolean;
+}
+
+/**
+ * Gets the evenings every profile is free (profiles without evenings are free every evening)
+ */
+export const getSharedEvenings = (profiles: Profile[]): AirDay[] =>
+  DAYS.filter(day => profiles.every(profile => !profile.evenings || profile.evenings.includes(day)));
+
+/**
+ * Gets the unwatched episodes of a show aired by the end of the week
+ * Episodes aired before the week are caught up on first
+ */
+const getEpisodesToWatch = (
+  show: Show,
+  weekEnd: string,
+  options: CoWatchOptions
+): CoWatchEpisode[] => {
+  const { calendar = CONFIG.HIATUS_CALENDAR, getEstimate, isWatched } = options;
+  const schedule = buildEpisodeSchedule(withEstimate(show, getEstimate?.(show) ?? null), calendar);
+  if (!schedule) {
+    return [];
+  }
+  return schedule.episodes
+    .filter(episode => episode.airDate <= weekEnd && !isWatched?.(show, episode.number))
+    .map(episode => ({ ...episode, title: show.t }));
+};
+
+/**
+ * Builds the weekly co-watching plan for a group of profiles
+ *
+ * Only shows every profile follows are planned, on evenings every profile is free.
+ * Each episode goes on the first free evening on or after its air date (episodes
+ * aired before the week from the first one), oldest first, until the night is full.
+ */
+export const buildCoWatchPlan = (
+  weekData: Record<AirDay, Show[]>,
+  profiles: Profile[],
+  options: CoWatchOptions
+): CoWatchPlan => {
+  const { start, maxEpisodesPerNight = CONFIG.CO_WATCH_MAX_EPISODES } = options;
+  const startISO = toISODate(start);
+  const endISO = toISODate(addDays(start, 6));
+  const sharedTitles = getSharedTitles(profiles);
+  const evenings = getSharedEvenings(profiles);
+
+  const nights = Object.fromEntries(DAYS.map(day => [day, [] as CoWatchEpisode[]])) as
+    Record<AirDay, CoWatchEpisode[]>;
+
+  const episodes = DAYS
+    .flatMap(day => weekData[day])
+    .filter(show => sharedTitles.includes(show.t))
+    .flatMap(show => getEpisodesToWatch(show, endISO, options))
+    .sort((a, b) =>
+      a.airDate.localeCompare(b.airDate) || a.title.localeCompare(b.title) || a.number - b.number
+    );
+
+  const unscheduled: CoWatchEpisode[] = [];
+  episodes.forEach(episode => {
+    const airDate = episode.airDate < startISO ? null : parseISODate(episode.airDate);
+    const firstDay = airDate ? airDate.getDay() : 0;
+    const night = evenings.find(day =>
+      DAYS.indexOf(day) >= firstDay && nights[day].length < maxEpisodesPerNight
+    );
+    if (night) {
+      nights[night].push(episode);
+    } else {
+      unscheduled.push(episode);
+    }
+  });
+
+  return {
+    start: startISO,
+    end: endISO,
+    profiles: profiles.map(profile => profile.name),
+    evenings,
+    maxEpisodesPerNight,
+    nights,
+    unscheduled
+  };
+};
+
+/**
+ * Formats a co-watch episode (e.g., "Abbott Elementary S05E03")
+ */
+export const formatCoWatchEpisode = (episode: CoWatchEpisode): string =>
+  `${episode.title} ${formatEpisodeCode(episode.season, episode.number)}`;
+
+/**
+ * Converts a co-watching plan's nights into calendar events
+ */
+export const getCoWatchEvents = (plan: CoWatchPlan): ICalEvent[] =>
+  DAYS
+    .map((day, i) => ({ date: addDaysISO(plan.start, i), episodes: plan.nights[day] }))
+    .filter(({ episodes }) => episodes.length > 0)
+    .map(({ date, episodes }) => ({
+      uid: `cowatch-${date}@tv-show-guide`,
+      date,
+      summary: `Watch together: ${episodes.map(formatCoWatchEpisode).join(', ')}`,
+      description: `Watching: ${plan.profiles.join(' & ')}`
+    }));
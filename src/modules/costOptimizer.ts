@@ -0,0 +1,264 @@
+/**
+ * Cost Optimizer Module
+ * Finds the cheapest month-by-month platform subscriptions that cover every episode
+ */
+
+import {
+  Show,
+  Platform,
+  PlatformPricing,
+  PriceTier,
+  CostPlan,
+  CostPlanMonth,
+  HiatusCalendar
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { pad } from '../utils/dateUtils.js';
+import { buildEpisodeSchedule } from './episodeSchedule.js';
+import { getAvailabilities, getAvailabilityRule, getWatchableEpisodes } from './availability.js';
+
+/**
+ * Above this many option combinations the planner stops searching exhaustively
+ * and improves one show at a time instead
+ */
+const MAX_COMBINATIONS = 4096;
+
+/**
+ * Planning window and prices for a cost plan
+ */
+export interface CostPlanOptions {
+  /** Preferred tier; platforms without it are priced at their other tier */
+  tier?: PriceTier;
+  /** First month of the window (YYYY-MM) */
+  startMonth?: string;
+  /** Number of months in the window */
+  months?: number;
+  /** Monthly prices per platform */
+  pricing?: Readonly<Record<Platform, PlatformPricing>>;
+  /** Breaks used to project air dates */
+  calendar?: HiatusCalendar;
+}
+
+/**
+ * One way to watch a show: a platform and the months it must be subscribed
+ */
+interface WatchOption {
+  platform: Platform;
+  months: string[];
+}
+
+/**
+ * A show airing in the window and the ways it can be watched
+ */
+interface WatchNeed {
+  title: string;
+  options: WatchOption[];
+}
+
+/**
+ * Gets the monthly price of a platform, falling back to its other tier
+ * Returns null for platforms without a price
+ */
+export const getMonthlyPrice = (
+  platform: Platform,
+  tier: PriceTier,
+  pricing: Readonly<Record<Platform, PlatformPricing>> = CONFIG.PLATFORM_PRICES
+): number | null => {
+  const prices = pricing[platform];
+  if (!prices) {
+    return null;
+  }
+  return prices[tier] ?? prices[tier === 'ads' ? 'ad-free' : 'ads'];
+};
+
+/**
+ * Lists the month keys (YYYY-MM) of a planning window
+ */
+export const getPlanMonths = (startMonth: string, count: number): string[] => {
+  const [year = NaN, month = NaN] = startMonth.split('-').map(Number);
+  if (isNaN(year) || isNaN(month)) {
+    return [];
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const index = month - 1 + i;
+    return `${year + Math.floor(index / 12)}-${pad((index % 12) + 1)}`;
+  });
+};
+
+/**
+ * Works out which platforms can cover a show's episodes in the window, and when
+ *
+ * A platform is needed in every month an episode becomes watchable on it under
+ * its availability rule, so full-season platforms are needed once, after the
+ * finale. Library platforms only carry past seasons.
+ * Returns null if no episode of the current season airs in the window.
+ */
+const getWatchNeed = (
+  show: Show,
+  windowMonths: string[],
+  tier: PriceTier,
+  pricing: Readonly<Record<Platform, PlatformPricing>>,
+  calendar: HiatusCalendar
+): WatchNeed | null => {
+  const schedule = buildEpisodeSchedule(show, calendar);
+  const airDates = schedule?.episodes.map(episode => episode.airDate) ?? [];
+  if (!airDates.some(date => windowMonths.includes(date.slice(0, 7)))) {
+    return null;
+  }
+
+  const options: WatchOption[] = [];
+  getAvailabilities(show).forEach(availability => {
+    const { platform } = availability;
+    if (getMonthlyPrice(platform, tier, pricing) === null) {
+      return;
+    }
+    const watchMonths = getWatchableEpisodes(schedule, getAvailabilityRule(availability))
+      .map(episode => episode.watchDate.slice(0, 7));
+    const months = [...new Set(watchMonths)].filter(month => windowMonths.includes(month));
+    if (months.length > 0) {
+      options.push({ platform, months });
+    }
+  });
+
+  return { title: show.t, options };
+};
+
+/**
+ * Prices a choice of one option per show (subscriptions shared across shows are paid once)
+ */
+const getPlanCost = (
+  needs: WatchNeed[],
+  choices: number[],
+  prices: Map<Platform, number>
+): number => {
+  const subscriptions = new Set<string>();
+  let cost = 0;
+  needs.forEach((need, i) => {
+    const option = need.options[choices[i] ?? 0];
+    option?.months.forEach(month => {
+      const key = `${month}|${option.platform}`;
+      if (!subscriptions.has(key)) {
+        subscriptions.add(key);
+        cost += prices.get(option.platform) ?? 0;
+      }
+    });
+  });
+  return cost;
+};
+
+/**
+ * Finds the cheapest option per show
+ *
+ * Tries every combination when there are few enough, otherwise switches one
+ * show at a time to a cheaper option until no single switch saves money.
+ */
+const chooseOptions = (needs: WatchNeed[], prices: Map<Platform, number>): number[] => {
+  const combinations = needs.reduce((total, need) => total * need.options.length, 1);
+
+  if (combinations <= MAX_COMBINATIONS) {
+    const choices = needs.map(() => 0);
+    let best = [...choices];
+    let bestCost = getPlanCost(needs, choices, prices);
+    for (let n = 1; n < combinations; n++) {
+      // Advance choices like an odometer
+      for (let i = 0; i < needs.length; i++) {
+        choices[i] = ((choices[i] ?? 0) + 1) % (needs[i]?.options.length ?? 1);
+        if (choices[i] !== 0) {
+          break;
+        }
+      }
+      const cost = getPlanCost(needs, choices, prices);
+      if (cost < bestCost) {
+        best = [...choices];
+        bestCost = cost;
+      }
+    }
+    return best;
+  }
+
+  const choices = needs.map(() => 0);
+  let bestCost = getPlanCost(needs, choices, prices);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    needs.forEach((need, i) => {
+      need.options.forEach((_, option) => {
+        const candidate = [...choices];
+        candidate[i] = option;
+        const cost = getPlanCost(needs, candidate, prices);
+        if (cost < bestCost) {
+          choices[i] = option;
+          bestCost = cost;
+          improved = true;
+        }
+      });
+    });
+  }
+  return choices;
+};
+
+/**
+ * Builds the cheapest month-by-month subscription plan for a set of shows
+ *
+ * Plans each show's current season, so pass shows with estimates applied
+ * (see withEstimate) to cover seasons without an end date or episode count.
+ * Each month lists the platforms to subscribe to and what to watch on them.
+ */
+export const buildCostPlan = (shows: Show[], options: CostPlanOptions = {}): CostPlan => {
+  const {
+    tier = 'ads',
+    startMonth = CONFIG.COST_PLAN_START,
+    months: monthCount = CONFIG.COST_PLAN_MONTHS,
+    pricing = CONFIG.PLATFORM_PRICES,
+    calendar = CONFIG.HIATUS_CALENDAR
+  } = options;
+
+  const windowMonths = getPlanMonths(startMonth, monthCount);
+  const needs: WatchNeed[] = [];
+  const uncovered: string[] = [];
+
+  shows.forEach(show => {
+    const need = getWatchNeed(show, windowMonths, tier, pricing, calendar);
+    if (!need) {
+      return;
+    }
+    if (need.options.length === 0) {
+      uncovered.push(show.t);
+    } else {
+      needs.push(need);
+    }
+  });
+
+  const prices = new Map<Platform, number>();
+  needs.forEach(need => need.options.forEach(({ platform }) => {
+    prices.set(platform, getMonthlyPrice(platform, tier, pricing) ?? 0);
+  }));
+
+  const choices = chooseOptions(needs, prices);
+  const planMonths: CostPlanMonth[] = windowMonths.map(month => ({ month, platforms: [], shows: {}, cost: 0 }));
+
+  needs.forEach((need, i) => {
+    const option = need.options[choices[i] ?? 0];
+    option?.months.forEach(month => {
+      const planMonth = planMonths.find(m => m.month === month);
+      if (!planMonth) {
+        return;
+      }
+      if (!planMonth.platforms.includes(option.platform)) {
+        planMonth.platforms.push(option.platform);
+        planMonth.shows[option.platform] = [];
+        planMonth.cost += prices.get(option.platform) ?? 0;
+      }
+      planMonth.shows[option.platform]?.push(need.title);
+    });
+  });
+
+  planMonths.forEach(planMonth => {
+    planMonth.platforms.sort();
+    planMonth.cost = Math.round(planMonth.cost * 100) / 100;
+    Object.values(planMonth.shows).forEach(titles => titles.sort((a, b) => a.localeCompare(b)));
+  });
+
+  const total = Math.round(planMonths.reduce((sum, m) => sum + m.cost, 0) * 100) / 100;
+  return { tier, months: planMonths, total, uncovered: uncovered.sort((a, b) => a.localeCompare(b)) };
+};
@@ -0,0 +1,117 @@
+/**
+ * Data Export Module
+ * Builds full-fidelity JSON exports of the show database, wrapped with metadata,
+ * and full backups of the app state with its undo history
+ */
+
+import {
+  ShowDatabase,
+  WatchProgress,
+  ExportOptions,
+  ExportFilterContext,
+  ExportMetadata,
+  ExportEnvelope,
+  ExportedShow,
+  StateSnapshot,
+  StateBackup
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { registry } from '../services/registryService.js';
+
+/**
+ * Export settings
+ */
+export interface DataExportOptions extends ExportOptions {
+  /** Watch progress to include, keyed by title (default: none) */
+  progress?: WatchProgress;
+  /** Filters active at export time (default: none recorded) */
+  filters?: ExportFilterContext;
+  /** Export time (default: now) */
+  exportedAt?: Date;
+}
+
+/**
+ * Gets the filter context recorded when none is given: every platform and show
+ */
+const getUnfilteredContext = (): ExportFilterContext => ({
+  platforms: registry.getPlatforms().map(platform => platform.id),
+  showNonReturning: true,
+  searchTerm: '',
+  profiles: []
+});
+
+/**
+ * Gets every show with its watch progress, keyed by ID
+ * Shows are exported as stored (season history, availabilities and timeslot included)
+ */
+export const getExportedShows = (shows: ShowDatabase, progress: WatchProgress = {}): Record<number, ExportedShow> =>
+  Object.fromEntries(
+    Object.entries(shows).map(([id, show]) => {
+      const watched = progress[show.t];
+      return [id, watched ? { ...show, watched } : { ...show }];
+    })
+  );
+
+/**
+ * Builds a JSON export of every show
+ * With metadata (the default) the shows are wrapped in an envelope carrying the
+ * app and schema versions, export time and the filters active at export time;
+ * without it the shows are exported bare, keyed by ID.
+ */
+export const buildExportData = (
+  shows: ShowDatabase,
+  options: DataExportOptions = {}
+): ExportEnvelope | Record<number, ExportedShow> => {
+  const { includeMetadata = true, progress, filters = getUnfilteredContext(), exportedAt = new Date() } = options;
+  const exported = getExportedShows(shows, progress);
+  if (!includeMetadata) {
+    return exported;
+  }
+
+  return {
+    appVersion: CONFIG.APP_VERSION,
+    schemaVersion: CONFIG.EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    filters,
+    shows: exported
+  };
+};
+
+/**
+ * Checks whether imported data is an export envelope rather than bare shows
+ */
+export const isExportEnvelope = (data: unknown): data is ExportEnvelope => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return false;
+  }
+  const { schemaVersion, shows } = data as Record<string, unknown>;
+  return typeof schemaVersion === 'number' && !!shows && typeof shows === 'object';
+};
+
+/**
+ * Gets an export envelope's metadata without its shows
+ */
+export const getExportMetadata = ({ appVersion, schemaVersion, exportedAt, filters }: ExportEnvelope): ExportMetadata =>
+  ({ appVersion, schemaVersion, exportedAt, filters });
+
+/**
+ * Builds a full backup of the app state with its undo history
+ */
+export const buildStateBackup = (snapshot: StateSnapshot, exportedAt: Date = new Date()): StateBackup => ({
+  appVersion: CONFIG.APP_VERSION,
+  schemaVersion: CONFIG.EXPORT_SCHEMA_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  snapshot
+});
+
+/**
+ * Checks whether imported data is a full backup rather than a show export
+ */
+export const isStateBackup = (data: unknown): data is StateBackup => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return false;
+  }
+  const { schemaVersion, snapshot } = data as Record<string, unknown>;
+  return typeof schemaVersion === 'number' && !!snapshot && typeof snapshot === 'object' &&
+    'state' in snapshot && 'history' in snapshot;
+};
@@ -0,0 +1,278 @@
+/**
+ * Data Import Module
+ * Validates imported show data, previews its changes per show and merges it into the guide
+ */
+
+import {
+  Show,
+  ShowDatabase,
+  SeasonData,
+  WatchProgress,
+  SeasonProgress,
+  ImportOptions,
+  ImportChange,
+  ImportPreviewEntry,
+  ImportPlan,
+  DataImportResult
+} from '../types/index.js';
+import { validators } from '../validation.js';
+import { CONFIG } from '../core/config.js';
+import { registry } from '../services/registryService.js';
+import { applyCurrentSeason, applySeasonData, getSeasons, recordSeason, updateShowSeason } from './seasonHistory.js';
+import { getAvailabilities } from './availability.js';
+import { formatAirtime } from './airtime.js';
+import { normalizeSeasonProgress } from './watchProgress.js';
+import { getExportMetadata, isExportEnvelope } from './dataExport.js';
+
+/**
+ * Import settings
+ */
+export interface DataImportOptions extends ImportOptions {
+  /** Current watch progress, keyed by title (default: none) */
+  progress?: WatchProgress;
+  /** Date the current season is derived from (default: today) */
+  today?: Date;
+}
+
+/**
+ * An imported entry: a full show, or season data for a show already in the guide
+ */
+type ImportEntry = (Partial<Show> | SeasonData) & { watched?: unknown };
+
+/**
+ * Fields compared in the preview, with how each is displayed
+ */
+const PREVIEW_FIELDS: ReadonlyArray<[string, (show: Show) => string]> = [
+  ['Title', (show): string => show.t],
+  ['Platform', (show): string => (show.c ? registry.getName('platform', show.c) : '')],
+  ['Network', (show): string => (show.net ? registry.getName('network', show.net) : '')],
+  ['Season', (show): string => (show.s !== null ? String(show.s) : '')],
+  ['Start', (show): string => show.start],
+  ['End', (show): string => show.end],
+  ['Eps', (show): string => (show.eps !== null ? String(show.eps) : '')],
+  ['Air Day', (show): string => show.air],
+  ['Returning', (show): string => (show.ret ? 'Yes' : 'No')],
+  ['Seasons', (show): string => getSeasons(show).map(season => season.s ?? '?').join(', ')],
+  ['Streams on', (show): string => getAvailabilities(show).map(({ platform }) => registry.getName('platform', platform)).join(', ')],
+  ['Time', (show): string => (show.airtime ? formatAirtime(show.airtime) : '')]
+];
+
+/**
+ * Values for the fields an imported new show leaves out
+ */
+export const NEW_SHOW_DEFAULTS: Omit<Show, 't' | 'c' | 'net'> = {
+  s: null,
+  start: '',
+  end: '',
+  eps: null,
+  air: '',
+  ret: true
+};
+
+/**
+ * Checks whether an entry is a full show rather than season data
+ */
+const isFullShow = (entry: ImportEntry): entry is Partial<Show> => 't' in entry;
+
+/**
+ * Checks whether a value is empty (kept from the guide when merging)
+ */
+const isEmptyValue = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Merges an imported entry into a show
+ * Imported values win where they are set; empty ones keep the show's values.
+ * Imported seasons are added to the show's history, replacing seasons with the same number.
+ */
+const mergeShow = (show: Show, entry: ImportEntry, today: Date): Show => {
+  const { seasons, ...fields } = entry as Partial<Show>;
+  const updates = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => !isEmptyValue(value))
+  ) as Partial<Show>;
+  return (seasons ?? []).reduce<Show>(
+    (merged, season) => recordSeason(merged, season, today),
+    updateShowSeason(show, updates, today)
+  );
+};
+
+/**
+ * Reads an entry as it would replace a show: full shows stand on their own,
+ * season data is applied to the show already in the guide
+ */
+const replaceShow = (show: Show | undefined, entry: ImportEntry, today: Date): Show =>
+  isFullShow(entry) || !show
+    ? applyCurrentSeason({ ...NEW_SHOW_DEFAULTS, ...entry } as Show, today)
+    : applySeasonData(show, entry, today);
+
+/**
+ * Counts the episodes in season progress (e.g., "5 episodes")
+ */
+const formatWatched = (progress: SeasonProgress | undefined): string => {
+  const count = Object.values(progress ?? {}).reduce((total, episodes) => total + episodes.length, 0);
+  return count > 0 ? `${count} episode${count === 1 ? '' : 's'}` : '';
+};
+
+/**
+ * Lists the preview fields that differ between two versions of a show
+ * A new show is compared against nothing
+ */
+export const getImportChanges = (before: Show | undefined, after: Show): ImportChange[] =>
+  PREVIEW_FIELDS
+    .map(([field, format]) => ({ field, from: before ? format(before) : '', to: format(after) }))
+    .filter(change => change.from !== change.to);
+
+/**
+ * Works out what importing data does to the guide
+ *
+ * Data is an export envelope or bare entries keyed by show ID. Entries are either
+ * full shows (the guide's JSON export) or season data (older exports) for shows
+ * already in the guide. Each entry is validated as the show it would become;
+ * invalid entries are left out and reported.
+ * - replace: imported entries replace the guide's shows; new shows are added
+ * - merge: imported values and seasons are merged into the guide's shows; new shows are added
+ * - skip: shows already in the guide are kept as they are; only new shows are added
+ * Shows missing from the import are always kept.
+ */
+export const buildImportPlan = (data: unknown, shows: ShowDatabase, options: DataImportOptions = {}): ImportPlan => {
+  const { mergeStrategy: strategy = 'replace', validateData = true, progress = {}, today = new Date() } = options;
+  const entries: ImportPreviewEntry[] = [];
+  const errors: string[] = [];
+  const imported: ShowDatabase = {};
+  const importedProgress: WatchProgress = {};
+
+  // Exports are wrapped in an envelope; older exports and bare data are not
+  const envelope = isExportEnvelope(data) ? data : null;
+  const showData: unknown = envelope ? envelope.shows : data;
+  const toPlan = (result: DataImportResult, database: ShowDatabase): ImportPlan => {
+    const plan: ImportPlan = { strategy, entries, shows: database, progress: importedProgress, result };
+    if (envelope) {
+      plan.metadata = getExportMetadata(envelope);
+    }
+    return plan;
+  };
+  const fail = (message: string): ImportPlan =>
+    toPlan({ success: false, imported: 0, skipped: 0, errors: [message] }, shows);
+
+  if (envelope && envelope.schemaVersion > CONFIG.EXPORT_SCHEMA_VERSION) {
+    return fail(`The file uses export schema ${envelope.schemaVersion}; this version of the guide reads up to ${CONFIG.EXPORT_SCHEMA_VERSION}`);
+  }
+  if (!showData || typeof showData !== 'object' || Array.isArray(showData)) {
+    const [error] = Array.isArray(showData) ? [] : validators.validateImportData(showData).errors;
+    return fail(error?.message ?? 'Import data must be an object of shows keyed by ID');
+  }
+
+  Object.entries(showData as Record<string, unknown>).forEach(([key, value]) => {
+    const id = Number(key);
+    const existing = shows[id];
+    const invalid = (title: string, messages: string[]): void => {
+      entries.push({ id, title, status: 'invalid', changes: [], errors: messages });
+      errors.push(...messages);
+    };
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      invalid(existing?.t ?? `Show ${key}`, [`Show "${key}": show data must be an object`]);
+      return;
+    }
+
+    const { watched, ...entry } = value as ImportEntry;
+    if (!isFullShow(entry) && !existing) {
+      invalid(`Show ${key}`, [`Show "${key}": no show with this ID in the guide to apply season data to`]);
+      return;
+    }
+
+    // Imported seasons are read while building the show, so check them first
+    if (validateData && entry.seasons !== undefined) {
+      const validation = validators.validateSeasons(entry.seasons);
+      if (!validation.isValid) {
+        const title = isFullShow(entry) && typeof entry.t === 'string' ? entry.t : existing?.t;
+        invalid(title || `Show ${key}`, validation.errors.map(error => `Show "${key}" seasons: ${error.message}`));
+        return;
+      }
+    }
+
+    // Validate the entry as the show it would become (merged into the guide's show in merge mode)
+    const candidate = existing && strategy === 'merge'
+      ? mergeShow(existing, entry, today)
+      : replaceShow(existing, entry, today);
+    if (validateData) {
+      const validation = validators.validateImportData({ [key]: candidate });
+      if (!validation.isValid) {
+        invalid(String(candidate.t || existing?.t || `Show ${key}`), validation.errors.map(error => error.message));
+        return;
+      }
+    }
+
+    if (existing && strategy === 'skip') {
+      entries.push({ id, title: existing.t, status: 'skipped', changes: [], errors: [] });
+      return;
+    }
+
+    const show = candidate;
+    const changes = getImportChanges(existing, show);
+
+    // Watch progress is keyed by title, so it follows the show's entry
+    const showProgress = normalizeSeasonProgress(watched);
+    if (showProgress) {
+      const current = progress[show.t];
+      const next = strategy === 'merge' ? { ...current, ...showProgress } : showProgress;
+      importedProgress[show.t] = next;
+      if (formatWatched(current) !== formatWatched(next)) {
+        changes.push({ field: 'Watched', from: formatWatched(current), to: formatWatched(next) });
+      }
+    }
+
+    imported[id] = show;
+    entries.push({
+      id,
+      title: show.t,
+      status: !existing ? 'new' : changes.length > 0 ? 'updated' : 'unchanged',
+      changes,
+      errors: []
+    });
+  });
+
+  entries.sort((a, b) => a.title.localeCompare(b.title));
+  const importedCount = entries.filter(entry => entry.status === 'new' || entry.status === 'updated').length;
+
+  return toPlan({
+    success: errors.length === 0,
+    imported: importedCount,
+    skipped: entries.length - importedCount,
+    errors
+  }, { ...shows, ...imported });
+};
+
+/**
+ * Adds entries left out before the import was worked out (e.g., invalid CSV rows)
+ * to its preview and result
+ */
+export const addRejectedEntries = (plan: ImportPlan, rejected: ImportPreviewEntry[]): ImportPlan => {
+  if (rejected.length === 0) {
+    return plan;
+  }
+  return {
+    ...plan,
+    entries: [...plan.entries, ...rejected].sort((a, b) => a.title.localeCompare(b.title)),
+    result: {
+      ...plan.result,
+      success: false,
+      skipped: plan.result.skipped + rejected.length,
+      errors: [...plan.result.errors, ...rejected.flatMap(entry => entry.errors)]
+    }
+  };
+};
+
+/**
+ * Summarizes an import result (e.g., "Imported 3 shows, skipped 2, 1 error")
+ */
+export const formatImportResult = (result: DataImportResult): string => {
+  const parts = [`Imported ${result.imported} show${result.imported === 1 ? '' : 's'}`];
+  if (result.skipped > 0) {
+    parts.push(`skipped ${result.skipped}`);
+  }
+  if (result.errors.length > 0) {
+    parts.push(`${result.errors.length} error${result.errors.length === 1 ? '' : 's'}`);
+  }
+  return parts.join(', ');
+};
@@ -0,0 +1,136 @@
+/**
+ * Episode Schedule Module
+ * Derives a per-episode air date list from a show's season data
+ */
+
+import { Show, Episode, EpisodeSchedule, HiatusCalendar } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { pad, parseISODate, toISODate, addDays } from '../utils/dateUtils.js';
+import { isHiatusDate } from './hiatusCalendar.js';
+import { registry } from '../services/registryService.js';
+
+/**
+ * Safety limit for schedules derived from an end date alone
+ */
+const MAX_EPISODES = 100;
+
+/**
+ * Safety limit on air days checked, in case breaks cover every remaining air day
+ */
+const MAX_AIR_DAYS = 200;
+
+/**
+ * Gets the episode count for a show, falling back to the network then platform default
+ */
+export const getEpisodeCount = (show: Show): number | null =>
+  show.eps ??
+  registry.getNetwork(show.net)?.defaultEpisodes ??
+  registry.getPlatform(show.c)?.defaultEpisodes ??
+  null;
+
+/**
+ * Returns the next air date after the given date
+ * Uses the show's air day when set, otherwise one week later
+ */
+const nextAirDate = (show: Show, after: Date): Date => {
+  const dayIndex = show.air ? CONFIG.DAY_ORDER.indexOf(show.air) : -1;
+  if (dayIndex < 0) {
+    return addDays(after, 7);
+  }
+  const diff = (dayIndex - after.getDay() + 7) % 7;
+  return addDays(after, diff === 0 ? 7 : diff);
+};
+
+/**
+ * Builds the episode schedule for a show's current season
+ *
+ * The premiere airs on the start date, later episodes on each following air day
+ * that is not in one of the show's breaks in the hiatus calendar.
+ * The schedule length is the show's episode count when set, otherwise every
+ * air day up to the end date, otherwise the network default.
+ * Returns null if the show has no valid start date.
+ */
+export const buildEpisodeSchedule = (
+  show: Show,
+  calendar: HiatusCalendar = CONFIG.HIATUS_CALENDAR
+): EpisodeSchedule | null => {
+  const start = parseISODate(show.start);
+  if (!start) {
+    return null;
+  }
+
+  const end = show.eps === null && show.end ? parseISODate(show.end) : null;
+  const count = end ? MAX_EPISODES : getEpisodeCount(show);
+  if (!count) {
+    return null;
+  }
+
+  const episodes: Episode[] = [];
+  let airDate = start;
+  for (
+    let airDays = 0;
+    airDays < MAX_AIR_DAYS && episodes.length < count && (!end || airDate <= end);
+    airDays++
+  ) {
+    // The entered start date is always the premiere, even if it falls in a break
+    if (episodes.length === 0 || !isHiatusDate(show, airDate, calendar)) {
+      episodes.push({ season: show.s, number: episodes.length + 1, airDate: toISODate(airDate) });
+    }
+    airDate = nextAirDate(show, airDate);
+  }
+
+  return {
+    season: show.s,
+    episodes,
+    usesDefaultCount: show.eps === null && !end
+  };
+};
+
+/**
+ * Finds the first episode airing within a date range (inclusive)
+ */
+export const findEpisodeInRange = (
+  schedule: EpisodeSchedule | null,
+  rangeStart: Date,
+  rangeEnd: Date
+): Episode | undefined => {
+  if (!schedule) {
+    return undefined;
+  }
+  return schedule.episodes.find(episode => {
+    const airDate = parseISODate(episode.airDate);
+    return airDate !== null && airDate >= rangeStart && airDate <= rangeEnd;
+  });
+};
+
+/**
+ * Checks whether a show's season overlaps a date range
+ * A season without an end date is treated as airing once it has started
+ */
+export const isSeasonAiring = (show: Show, rangeStart: Date, rangeEnd: Date): boolean => {
+  const start = parseISODate(show.start);
+  if (!start || start > rangeEnd) {
+    return false;
+  }
+  const end = show.end ? parseISODate(show.end) : null;
+  return !end || end >= rangeStart;
+};
+
+/**
+ * Formats a season/episode pair as an SxxEyy code (e.g., "S22E05")
+ */
+export const formatEpisodeCode = (season: number | null, episode: number): string =>
+  `S${season !== null ? pad(season) : '?'}E${pad(episode)}`;
+
+/**
+ * Formats consecutive episodes as a code range (e.g., "S02E01–E10"); a single episode as SxxEyy
+ */
+export const formatEpisodeRange = (episodes: Episode[]): string => {
+  const first = episodes[0];
+  const last = episodes[episodes.length - 1];
+  if (!first || !last) {
+    return '';
+  }
+  const code = formatEpisodeCode(first.season, first.number);
+  return first === last ? code : `${code}–E${pad(last.number)}`;
+};
@@ -0,0 +1,76 @@
+/**
+ * Estimation Engine Module
+ * Fills in missing season end dates and episode counts from network defaults
+ */
+
+import {
+  Show,
+  SeasonEstimate,
+  EstimateSettings,
+  EstimableField,
+  HiatusCalendar
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { buildEpisodeSchedule, getEpisodeCount } from './episodeSchedule.js';
+
+/**
+ * Checks whether a show falls under the current estimate settings
+ */
+export const shouldEstimate = (show: Show, settings: EstimateSettings): boolean =>
+  settings.enabled && settings.networks.includes(show.net);
+
+/**
+ * Estimates a show's season end and episode count
+ *
+ * Counts forward weekly from the start date on the show's air day, skipping
+ * breaks in the hiatus calendar. A missing episode count comes from the network
+ * default (or the end date when known); a missing end date is the air date of
+ * the last counted episode.
+ * Returns null if nothing is missing or there is no start date to count from.
+ */
+export const estimateSeason = (
+  show: Show,
+  calendar: HiatusCalendar = CONFIG.HIATUS_CALENDAR
+): SeasonEstimate | null => {
+  if (!show.start || (show.end && show.eps !== null)) {
+    return null;
+  }
+
+  const schedule = buildEpisodeSchedule(show, calendar);
+  const lastEpisode = schedule?.episodes[schedule.episodes.length - 1];
+  if (!schedule || !lastEpisode) {
+    return null;
+  }
+
+  const estimated: EstimableField[] = [];
+  let eps = show.eps;
+  let end = show.end;
+
+  if (eps === null) {
+    eps = show.end ? schedule.episodes.length : getEpisodeCount(show);
+    estimated.push('eps');
+  }
+
+  if (!end) {
+    end = lastEpisode.airDate;
+    estimated.push('end');
+  }
+
+  return { end, eps, estimated };
+};
+
+/**
+ * Gets the season estimate for a show if the settings allow it
+ */
+export const getSeasonEstimate = (
+  show: Show,
+  settings: EstimateSettings,
+  calendar: HiatusCalendar = CONFIG.HIATUS_CALENDAR
+): SeasonEstimate | null => (shouldEstimate(show, settings) ? estimateSeason(show, calendar) : null);
+
+/**
+ * Returns a copy of the show with estimated values filled in
+ * Use for date calculations only - estimates must never be saved as user data
+ */
+export const withEstimate = (show: Show, estimate: SeasonEstimate | null): Show =>
+  estimate ? { ...show, end: estimate.end, eps: estimate.eps } : show;
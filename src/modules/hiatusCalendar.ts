@@ -0,0 +1,122 @@
+/**
+ * Hiatus Calendar Module
+ * Looks up and edits holiday breaks, network preemptions and per-show skip dates
+ */
+
+import { Show, HiatusCalendar, HiatusPeriod, HiatusScope } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { toISODate, addDays, parseISODate } from '../utils/dateUtils.js';
+
+/**
+ * Gets every break that applies to a show (global, network and show-specific)
+ */
+export const getHiatusPeriods = (
+  show: Show,
+  calendar: HiatusCalendar = CONFIG.HIATUS_CALENDAR
+): HiatusPeriod[] => [
+  ...calendar.global,
+  ...(calendar.networks[show.net] ?? []),
+  ...(calendar.shows[show.t] ?? [])
+];
+
+/**
+ * Finds the break covering a date for a show, if any
+ */
+export const findHiatus = (
+  show: Show,
+  date: Date,
+  calendar: HiatusCalendar = CONFIG.HIATUS_CALENDAR
+): HiatusPeriod | undefined => {
+  const iso = toISODate(date);
+  return getHiatusPeriods(show, calendar).find(period => period.start <= iso && iso <= period.end);
+};
+
+/**
+ * Checks whether a date falls in one of a show's breaks
+ */
+export const isHiatusDate = (
+  show: Show,
+  date: Date,
+  calendar: HiatusCalendar = CONFIG.HIATUS_CALENDAR
+): boolean => findHiatus(show, date, calendar) !== undefined;
+
+/**
+ * Finds the break that keeps a show from airing within a date range (inclusive)
+ *
+ * Checks the show's air day within the range, or every day of the range when
+ * no air day is set. Returns undefined if the show has a regular air date.
+ */
+export const findHiatusInRange = (
+  show: Show,
+  rangeStart: Date,
+  rangeEnd: Date,
+  calendar: HiatusCalendar = CONFIG.HIATUS_CALENDAR
+): HiatusPeriod | undefined => {
+  let hiatus: HiatusPeriod | undefined;
+  for (let date = rangeStart; date <= rangeEnd; date = addDays(date, 1)) {
+    if (show.air && CONFIG.DAY_ORDER[date.getDay()] !== show.air) {
+      continue;
+    }
+    hiatus = findHiatus(show, date, calendar);
+    if (!hiatus) {
+      return undefined;
+    }
+  }
+  return hiatus;
+};
+
+/**
+ * Adds a break for every show, a network's shows (key: network ID) or a show (key: title)
+ * Returns null if a date is missing or invalid, the end precedes the start, or a
+ * network or show break has no key.
+ */
+export const addHiatusPeriod = (
+  calendar: HiatusCalendar,
+  scope: HiatusScope,
+  key: string,
+  period: HiatusPeriod
+): HiatusCalendar | null => {
+  if (!parseISODate(period.start) || !parseISODate(period.end) || period.end < period.start) {
+    return null;
+  }
+  if (scope === 'global') {
+    return { ...calendar, global: [...calendar.global, period] };
+  }
+  if (!key) {
+    return null;
+  }
+  if (scope === 'network') {
+    return { ...calendar, networks: { ...calendar.networks, [key]: [...(calendar.networks[key] ?? []), period] } };
+  }
+  return { ...calendar, shows: { ...calendar.shows, [key]: [...(calendar.shows[key] ?? []), period] } };
+};
+
+/**
+ * Removes a break by its position in the global, network or show list
+ * Network and show lists left empty are dropped.
+ */
+export const removeHiatusPeriod = (
+  calendar: HiatusCalendar,
+  scope: HiatusScope,
+  key: string,
+  index: number
+): HiatusCalendar => {
+  const without = (periods: HiatusPeriod[] = []): HiatusPeriod[] => periods.filter((_, i) => i !== index);
+  const update = <T extends Partial<Record<string, HiatusPeriod[]>>>(group: T): T => {
+    const remaining = without(group[key]);
+    const updated: Partial<Record<string, HiatusPeriod[]>> = { ...group };
+    if (remaining.length > 0) {
+      updated[key] = remaining;
+    } else {
+      delete updated[key];
+    }
+    return updated as T;
+  };
+
+  if (scope === 'global') {
+    return { ...calendar, global: without(calendar.global) };
+  }
+  return scope === 'network'
+    ? { ...calendar, networks: update(calendar.networks) }
+    : { ...calendar, shows: update(calendar.shows) };
+};
@@ -0,0 +1,109 @@
+/**
+ * Month Calendar Module
+ * Lays out the shows airing in a month on a Sunday-first grid of weeks
+ */
+
+import {
+  Show,
+  AirDay,
+  HiatusCalendar,
+  SeasonEstimate,
+  MonthCalendar,
+  MonthCalendarDay,
+  MonthCalendarEntry
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { addDays, getMonthRange, parseISODate, startOfWeek, toISODate } from '../utils/dateUtils.js';
+import { compareByAirtime } from './airtime.js';
+import { buildEpisodeSchedule, findEpisodeInRange, isSeasonAiring } from './episodeSchedule.js';
+import { withEstimate } from './estimationEngine.js';
+import { findHiatusInRange } from './hiatusCalendar.js';
+import { getSeasonMilestone, isEstimatedMilestone } from './seasonMilestones.js';
+
+/**
+ * Days of the week, Sunday first
+ */
+const DAYS = CONFIG.DAY_ORDER as readonly AirDay[];
+
+/**
+ * Season estimate, break and date settings for a month calendar
+ */
+export interface MonthCalendarOptions {
+  /** Breaks used to project air dates for the milestone badges and hiatus weeks */
+  calendar?: HiatusCalendar;
+  /** Season estimate source (default: no estimates) */
+  getEstimate?: (show: Show) => SeasonEstimate | null;
+  /** Date marked as today (default: now) */
+  today?: Date;
+}
+
+/**
+ * Builds the month calendar for a month key (YYYY-MM)
+ * Each week row uses the week view's test (the season overlaps the Sunday–Saturday week)
+ * and lists the show on its air day, so both views always agree on what airs. Each
+ * entry carries the week's season milestone (premiere, finale...) for its badge, and,
+ * as in the week view, the break keeping the show off the air when no episode airs
+ * that week.
+ */
+export const buildMonthCalendar = (
+  entries: Array<{ id: number; show: Show }>,
+  month: string,
+  options: MonthCalendarOptions = {}
+): MonthCalendar => {
+  const {
+    calendar = CONFIG.HIATUS_CALENDAR,
+    getEstimate = (): SeasonEstimate | null => null,
+    today = new Date()
+  } = options;
+  const range = getMonthRange(month);
+  const monthStart = parseISODate(range.start);
+  const monthEnd = parseISODate(range.end);
+  if (!monthStart || !monthEnd) {
+    return { month, weeks: [] };
+  }
+
+  const todayISO = toISODate(today);
+  const estimated = entries
+    .filter(({ show }) => show.air)
+    .map(({ id, show }) => {
+      const estimate = getEstimate(show);
+      return { id, show, estimate, season: withEstimate(show, estimate) };
+    });
+
+  const weeks: MonthCalendarDay[][] = [];
+  for (let weekStart = startOfWeek(monthStart); weekStart <= monthEnd; weekStart = addDays(weekStart, 7)) {
+    const weekEnd = addDays(weekStart, 6);
+    weekEnd.setHours(23, 59, 59, 999);
+
+    const byDay = new Map<AirDay, MonthCalendarEntry[]>();
+    estimated.forEach(({ id, show, estimate, season }) => {
+      if (!show.air || !isSeasonAiring(season, weekStart, weekEnd)) {
+        return;
+      }
+      const dayEntries = byDay.get(show.air) ?? [];
+      const milestone = getSeasonMilestone(season, weekStart, weekEnd, calendar);
+      const episode = findEpisodeInRange(buildEpisodeSchedule(season, calendar), weekStart, weekEnd);
+      const hiatus = episode ? undefined : findHiatusInRange(show, weekStart, weekEnd, calendar);
+      dayEntries.push({
+        id,
+        show,
+        milestone,
+        milestoneEstimated: isEstimatedMilestone(milestone, estimate),
+        hiatus: hiatus ?? null
+      });
+      byDay.set(show.air, dayEntries);
+    });
+
+    weeks.push(DAYS.map((day, i) => {
+      const date = toISODate(addDays(weekStart, i));
+      return {
+        date,
+        inMonth: date >= range.start && date <= range.end,
+        today: date === todayISO,
+        entries: (byDay.get(day) ?? []).sort((a, b) => compareByAirtime(a.show, b.show))
+      };
+    }));
+  }
+
+  return { month, weeks };
+};
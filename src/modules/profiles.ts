@@ -0,0 +1,61 @@
+/**
+ * Profiles Module
+ * Household profiles and the shows each person follows
+ */
+
+import { Profile } from '../types/index.js';
+
+/**
+ * Converts a display name to a profile ID (e.g., "Nikki B." -> 'nikki-b')
+ */
+export const toProfileId = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Creates a profile with an ID derived from its name, unique among the existing IDs
+ * Returns null if the name has no usable characters
+ */
+export const createProfile = (
+  name: string,
+  existingIds: string[],
+  followed: string[] = []
+): Profile | null => {
+  const baseId = toProfileId(name);
+  if (!baseId) {
+    return null;
+  }
+
+  let id = baseId;
+  for (let n = 2; existingIds.includes(id); n++) {
+    id = `${baseId}-${n}`;
+  }
+  return { id, name: name.trim(), followed: [...followed] };
+};
+
+/**
+ * Checks whether a profile follows a show
+ */
+export const isFollowing = (profile: Profile, title: string): boolean =>
+  profile.followed.includes(title);
+
+/**
+ * Returns a copy of the profile with a show followed or unfollowed
+ */
+export const setFollowing = (profile: Profile, title: string, following: boolean): Profile => {
+  const followed = profile.followed.filter(t => t !== title);
+  return {
+    ...profile,
+    followed: following ? [...followed, title].sort((a, b) => a.localeCompare(b)) : followed
+  };
+};
+
+/**
+ * Gets the titles followed by every one of the profiles (empty if none are given)
+ */
+export const getSharedTitles = (profiles: Profile[]): string[] => {
+  const [first, ...rest] = profiles;
+  if (!first) {
+    return [];
+  }
+  return first.followed.filter(title => rest.every(profile => isFollowing(profile, title)));
+};
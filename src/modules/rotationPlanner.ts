@@ -0,0 +1,193 @@
+/**
+ * Rotation Planner Module
+ * Works out when each platform is needed and when it can be cancelled
+ */
+
+import {
+  Show,
+  Platform,
+  HiatusCalendar,
+  RotationWindow,
+  RotationGap,
+  PlatformRotation,
+  RotationAction,
+  RotationPlan,
+  ICalEvent
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { addDaysISO, daysBetween, getMonthRange } from '../utils/dateUtils.js';
+import { buildEpisodeSchedule } from './episodeSchedule.js';
+import { getShowRule, getWatchableEpisodes } from './availability.js';
+import { getPlanMonths } from './costOptimizer.js';
+import { registry } from '../services/registryService.js';
+
+/**
+ * Days allowed to watch a season that arrives all at once
+ */
+const FULL_SEASON_WATCH_DAYS = 30;
+
+/**
+ * Planning window and gap settings for a rotation plan
+ */
+export interface RotationPlanOptions {
+  /** First month of the window (YYYY-MM) */
+  startMonth?: string;
+  /** Number of months in the window */
+  months?: number;
+  /** Shortest break worth cancelling for (shorter breaks keep the subscription) */
+  minGapDays?: number;
+  /** Breaks used to project air dates */
+  calendar?: HiatusCalendar;
+}
+
+/**
+ * Gets the days a show needs its primary platform, clipped to the planning window
+ *
+ * The platform is needed from the day the first episode becomes watchable to the
+ * day the finale does; a season arriving all at once gets a month to watch.
+ * Library platforms only carry past seasons, so they are never needed.
+ */
+const getShowWindow = (
+  show: Show,
+  range: { start: string; end: string },
+  calendar: HiatusCalendar
+): RotationWindow | null => {
+  const rule = getShowRule(show);
+  const episodes = getWatchableEpisodes(buildEpisodeSchedule(show, calendar), rule);
+  const first = episodes[0];
+  const last = episodes[episodes.length - 1];
+  if (!rule || !first || !last) {
+    return null;
+  }
+
+  const start = first.watchDate;
+  const end = rule.type === 'full-season'
+    ? addDaysISO(start, FULL_SEASON_WATCH_DAYS - 1)
+    : last.watchDate;
+
+  if (end < range.start || start > range.end) {
+    return null;
+  }
+  return {
+    start: start < range.start ? range.start : start,
+    end: end > range.end ? range.end : end,
+    shows: [show.t]
+  };
+};
+
+/**
+ * Merges overlapping windows, and windows separated by less than the minimum gap
+ */
+const mergeWindows = (windows: RotationWindow[], minGapDays: number): RotationWindow[] => {
+  const merged: RotationWindow[] = [];
+  [...windows]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .forEach(window => {
+      const previous = merged[merged.length - 1];
+      if (previous && daysBetween(previous.end, window.start) - 1 < minGapDays) {
+        if (window.end > previous.end) {
+          previous.end = window.end;
+        }
+        previous.shows = [...new Set([...previous.shows, ...window.shows])];
+      } else {
+        merged.push({ ...window, shows: [...window.shows] });
+      }
+    });
+  merged.forEach(window => window.shows.sort((a, b) => a.localeCompare(b)));
+  return merged;
+};
+
+/**
+ * Finds the breaks between windows, and after the last one, that are worth cancelling for
+ */
+const findGaps = (windows: RotationWindow[], rangeEnd: string): RotationGap[] => {
+  const gaps: RotationGap[] = [];
+  windows.forEach((window, i) => {
+    const next = windows[i + 1];
+    const gapEnd = next ? addDaysISO(next.start, -1) : rangeEnd;
+    if (window.end < gapEnd) {
+      gaps.push({ start: addDaysISO(window.end, 1), end: gapEnd });
+    }
+  });
+  return gaps;
+};
+
+/**
+ * Builds the subscription rotation calendar for a set of shows
+ *
+ * Shows are watched on their primary platform. Pass shows with estimates applied
+ * (see withEstimate) to cover seasons without an end date or episode count.
+ * A platform is cancelled the day after its last needed window ends and
+ * re-subscribed when the next one starts.
+ */
+export const buildRotationPlan = (shows: Show[], options: RotationPlanOptions = {}): RotationPlan => {
+  const {
+    startMonth = CONFIG.COST_PLAN_START,
+    months: monthCount = CONFIG.COST_PLAN_MONTHS,
+    minGapDays = 30,
+    calendar = CONFIG.HIATUS_CALENDAR
+  } = options;
+
+  const planMonths = getPlanMonths(startMonth, monthCount);
+  const firstMonth = planMonths[0];
+  const lastMonth = planMonths[planMonths.length - 1];
+  if (!firstMonth || !lastMonth) {
+    return { start: '', end: '', months: [], platforms: [], actions: [] };
+  }
+  const range = { start: getMonthRange(firstMonth).start, end: getMonthRange(lastMonth).end };
+
+  const windowsByPlatform = new Map<Platform, RotationWindow[]>();
+  shows.forEach(show => {
+    const window = getShowWindow(show, range, calendar);
+    if (window) {
+      windowsByPlatform.set(show.c, [...(windowsByPlatform.get(show.c) ?? []), window]);
+    }
+  });
+
+  const platforms: PlatformRotation[] = [...windowsByPlatform.entries()]
+    .map(([platform, windows]) => {
+      const merged = mergeWindows(windows, minGapDays);
+      return { platform, windows: merged, gaps: findGaps(merged, range.end) };
+    })
+    .sort((a, b) => a.platform.localeCompare(b.platform));
+
+  const months = planMonths.map(month => {
+    const { start, end } = getMonthRange(month);
+    return {
+      month,
+      platforms: platforms
+        .filter(rotation => rotation.windows.some(w => w.start <= end && w.end >= start))
+        .map(rotation => rotation.platform)
+    };
+  });
+
+  const actions: RotationAction[] = [];
+  platforms.forEach(({ platform, windows }) => {
+    windows.forEach(window => {
+      actions.push({ type: 'subscribe', platform, date: window.start, shows: window.shows });
+      if (window.end < range.end) {
+        actions.push({ type: 'cancel', platform, date: addDaysISO(window.end, 1), shows: window.shows });
+      }
+    });
+  });
+  actions.sort((a, b) => a.date.localeCompare(b.date) || a.platform.localeCompare(b.platform));
+
+  return { start: range.start, end: range.end, months, platforms, actions };
+};
+
+/**
+ * Converts a rotation plan's subscribe and cancel dates into calendar reminders
+ */
+export const getRotationReminders = (plan: RotationPlan): ICalEvent[] =>
+  plan.actions.map(action => {
+    const name = registry.getName('platform', action.platform);
+    const subscribe = action.type === 'subscribe';
+    return {
+      uid: `rotation-${action.type}-${action.platform}-${action.date}@tv-show-guide`,
+      date: action.date,
+      summary: subscribe ? `Subscribe to ${name}` : `Cancel ${name}`,
+      description: subscribe
+        ? `Needed for: ${action.shows.join(', ')}`
+        : `Nothing airing after: ${action.shows.join(', ')}`
+    };
+  });
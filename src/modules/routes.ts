@@ -0,0 +1,139 @@
+/**
+ * Routes Module
+ * Encodes the view, week, focused show, filters and search term as a URL hash and
+ * reads them back, e.g. "#/week/2025-10-19?platform=hulu&q=chicago", "#/month/2025-10" or "#/show/13"
+ */
+
+import { AirDay, DisplayMode, Network, Platform } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { registry } from '../services/registryService.js';
+import { getMonthKey, getMonthOffset, getWeekOffset, getWeekRange, parseISODate, toISODate } from '../utils/dateUtils.js';
+import { ShowFilters } from './showManager.js';
+
+/**
+ * App state kept in the URL
+ */
+export interface RouteState {
+  view: DisplayMode;
+  /** Weeks from the current week (part of week and grid routes) */
+  weekOffset?: number;
+  /** Months from the current month (part of month routes) */
+  monthOffset?: number;
+  /** Show a show route points at, focused in the all shows view */
+  showId?: number;
+  /** Platform, network, air day, returning and search filters */
+  filters: ShowFilters;
+}
+
+/**
+ * Platform parameter value for a filter with no platform selected
+ * (no platform parameter at all means every platform)
+ */
+const NO_PLATFORMS = 'none';
+
+/**
+ * Views with a week in their route
+ */
+const WEEK_VIEWS: DisplayMode[] = ['week', 'grid'];
+
+/**
+ * Builds the URL hash for a route
+ * Weeks are written as their Sunday so a link opens the same week on another day;
+ * filters matching every platform, network or day are left out, and a filter with
+ * no platform selected is written as "platform=none".
+ */
+export const buildRoute = (route: RouteState, today: Date = new Date()): string => {
+  const { view, weekOffset = 0, monthOffset = 0, showId, filters } = route;
+  let path = `/${view}`;
+  if (showId !== undefined) {
+    path = `/show/${showId}`;
+  } else if (WEEK_VIEWS.includes(view)) {
+    path = `/${view}/${toISODate(getWeekRange(weekOffset, today).startDate)}`;
+  } else if (view === 'month') {
+    path = `/month/${getMonthKey(monthOffset, today)}`;
+  }
+
+  const params = new URLSearchParams();
+  const { platforms = [], networks = [], airDays = [], returning, searchTerm = '' } = filters;
+  if (platforms.length === 0) {
+    params.set('platform', NO_PLATFORMS);
+  } else if (platforms.length < registry.getPlatforms().length) {
+    platforms.forEach(platform => params.append('platform', platform));
+  }
+  if (networks.length < registry.getNetworks().length) {
+    networks.forEach(network => params.append('network', network));
+  }
+  if (airDays.length < CONFIG.DAY_ORDER.length) {
+    airDays.forEach(day => params.append('day', day));
+  }
+  if (returning !== true) {
+    params.set('nonreturning', returning === false ? 'only' : 'show');
+  }
+  if (searchTerm) {
+    params.set('q', searchTerm);
+  }
+
+  const query = params.toString();
+  return `#${path}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Reads a route from a URL hash
+ * Returns null for an empty or unknown route; unknown platforms, networks and days
+ * are dropped, and a week may be given as any of its days (a month as YYYY-MM or any of its days).
+ * Without a platform parameter every registered platform is selected.
+ */
+export const parseRoute = (hash: string, today: Date = new Date()): RouteState | null => {
+  const text = hash.replace(/^#/, '');
+  const queryStart = text.indexOf('?');
+  const path = queryStart >= 0 ? text.slice(0, queryStart) : text;
+  const params = new URLSearchParams(queryStart >= 0 ? text.slice(queryStart + 1) : '');
+  const [name = '', arg = ''] = path.replace(/^\/+/, '').split('/');
+
+  let route: Omit<RouteState, 'filters'>;
+  if (name === 'show' && /^\d+$/.test(arg)) {
+    route = { view: 'all', showId: Number(arg) };
+  } else if (name === 'all') {
+    route = { view: 'all' };
+  } else if (WEEK_VIEWS.includes(name as DisplayMode)) {
+    const date = arg ? parseISODate(arg) : today;
+    route = { view: name as DisplayMode, weekOffset: date ? getWeekOffset(date, today) : 0 };
+  } else if (name === 'month') {
+    const date = arg ? parseISODate(/^\d{4}-\d{2}$/.test(arg) ? `${arg}-01` : arg) : today;
+    route = { view: 'month', monthOffset: date ? getMonthOffset(date, today) : 0 };
+  } else {
+    return null;
+  }
+
+  const platformParams = params.getAll('platform');
+  const filters: ShowFilters = {
+    platforms: platformParams.length === 0
+      ? registry.getPlatforms().map(platform => platform.id)
+      : platformParams.filter(id => id !== NO_PLATFORMS && registry.isPlatform(id)) as Platform[],
+    networks: params.getAll('network').filter(id => registry.isNetwork(id)) as Network[],
+    airDays: params.getAll('day').filter(day => CONFIG.DAY_ORDER.includes(day)) as AirDay[],
+    searchTerm: params.get('q') ?? ''
+  };
+  // Non-returning shows are hidden unless the route shows them ("show") or only them ("only")
+  const nonReturning = params.get('nonreturning');
+  if (nonReturning === 'only') {
+    filters.returning = false;
+  } else if (nonReturning !== 'show') {
+    filters.returning = true;
+  }
+
+  return { ...route, filters };
+};
+
+/**
+ * Checks whether two sets of filters route the same (titles are not part of routes)
+ */
+export const isSameRouteFilters = (a: ShowFilters, b: ShowFilters): boolean => {
+  const sameList = (x: readonly string[] = [], y: readonly string[] = []): boolean =>
+    x.length === y.length && x.every(value => y.includes(value));
+  return sameList(a.platforms, b.platforms) &&
+    sameList(a.networks, b.networks) &&
+    sameList(a.airDays, b.airDays) &&
+    a.returning === b.returning &&
+    (a.searchTerm ?? '') === (b.searchTerm ?? '');
+};
@@ -0,0 +1,192 @@
+/**
+ * Season History Module
+ * Keeps a list of seasons per show and derives the current season from today's date
+ */
+
+import { Show, SeasonRecord, SeasonData } from '../types/index.js';
+import { toISODate } from '../utils/dateUtils.js';
+
+/**
+ * Builds a season record from a show's flat season fields
+ */
+export const toSeasonRecord = (show: Pick<Show, 's' | 'start' | 'end' | 'eps' | 'air'>): SeasonRecord => ({
+  s: show.s,
+  start: show.start,
+  end: show.end,
+  eps: show.eps,
+  air: show.air
+});
+
+/**
+ * Checks whether a season record has any data worth keeping
+ */
+const hasSeasonData = (season: SeasonRecord): boolean =>
+  season.s !== null || Boolean(season.start) || Boolean(season.end) || season.eps !== null;
+
+/**
+ * Orders seasons by season number, falling back to start date
+ */
+const compareSeasons = (a: SeasonRecord, b: SeasonRecord): number => {
+  if (a.s !== null && b.s !== null && a.s !== b.s) {
+    return a.s - b.s;
+  }
+  if (a.start && b.start) {
+    return a.start.localeCompare(b.start);
+  }
+  // Undated seasons sort after dated ones
+  return a.start ? -1 : b.start ? 1 : 0;
+};
+
+/**
+ * Gets a show's seasons in airing order
+ * Shows without a history yet get one built from their flat fields
+ */
+export const getSeasons = (show: Show): SeasonRecord[] => {
+  if (show.seasons) {
+    return [...show.seasons].sort(compareSeasons);
+  }
+  const season = toSeasonRecord(show);
+  return hasSeasonData(season) ? [season] : [];
+};
+
+/**
+ * Gets the latest season (the one to edit when a new season is announced)
+ */
+export const getLatestSeason = (seasons: SeasonRecord[]): SeasonRecord | undefined =>
+  [...seasons].sort(compareSeasons)[seasons.length - 1];
+
+/**
+ * Formats a season from a show's history (e.g., "S21: 2024-09-26 – 2025-05-01, 18 eps")
+ */
+export const formatSeasonRecord = (season: SeasonRecord): string => {
+  const seasonInfo = season.s !== null ? `S${season.s}` : 'S?';
+  const dates = season.start ? `${season.start}${season.end ? ' – ' + season.end : ''}` : 'dates TBD';
+  const eps = season.eps !== null ? `, ${season.eps} eps` : '';
+  return `${seasonInfo}: ${dates}${eps}`;
+};
+
+/**
+ * Derives the current season from today's date
+ *
+ * This is the most recent season that has started, unless it has ended and a
+ * later season is scheduled, in which case the upcoming season is current.
+ * Seasons without a start date only count when no season is dated.
+ */
+export const getCurrentSeason = (
+  seasons: SeasonRecord[],
+  today: Date = new Date()
+): SeasonRecord | undefined => {
+  const todayISO = toISODate(today);
+  const dated = seasons.filter(season => season.start).sort((a, b) => a.start.localeCompare(b.start));
+  const started = dated.filter(season => season.start <= todayISO);
+  const upcoming = dated.find(season => season.start > todayISO);
+  const latestStarted = started[started.length - 1];
+
+  if (latestStarted && (!upcoming || !latestStarted.end || latestStarted.end >= todayISO)) {
+    return latestStarted;
+  }
+  return upcoming ?? getLatestSeason(seasons);
+};
+
+/**
+ * Returns a copy of the show with its flat season fields mirroring the current season
+ */
+export const applyCurrentSeason = (show: Show, today: Date = new Date()): Show => {
+  const seasons = getSeasons(show);
+  const current = getCurrentSeason(seasons, today);
+  return current ? { ...show, ...current, seasons } : { ...show, seasons };
+};
+
+/**
+ * Adds or replaces a season in a show's history and refreshes the current season
+ * Seasons are matched by number; an unnumbered season replaces the latest season
+ */
+export const recordSeason = (show: Show, season: SeasonRecord, today: Date = new Date()): Show => {
+  const seasons = getSeasons(show);
+  const latest = getLatestSeason(seasons);
+  const index = season.s !== null
+    ? seasons.findIndex(existing => existing.s === season.s)
+    : seasons.findIndex(existing => existing === latest);
+
+  if (index >= 0) {
+    seasons[index] = season;
+  } else if (hasSeasonData(season)) {
+    seasons.push(season);
+  }
+
+  return applyCurrentSeason({ ...show, seasons: seasons.sort(compareSeasons) }, today);
+};
+
+/**
+ * Applies updates to a show, recording changed flat season fields in its history
+ */
+export const updateShowSeason = (show: Show, updates: Partial<Show>, today: Date = new Date()): Show => {
+  const updated: Show = { ...show, ...updates };
+  const seasonFields: Array<keyof SeasonRecord> = ['s', 'start', 'end', 'eps', 'air'];
+  if (updates.seasons || !seasonFields.some(field => field in updates)) {
+    return updated;
+  }
+  return recordSeason(updated, toSeasonRecord(updated), today);
+};
+
+/**
+ * Migrates a show stored with flat season fields to the season history shape (in place)
+ */
+export const migrateShow = (show: Show, today: Date = new Date()): Show =>
+  Object.assign(show, applyCurrentSeason(show, today));
+
+/**
+ * Applies stored or imported season data to a show
+ * Data with a season history replaces the show's history; flat data from
+ * before season history existed is recorded as a season
+ */
+export const applySeasonData = (show: Show, data: SeasonData, today: Date = new Date()): Show => {
+  const { seasons, ...flat } = data;
+  const merged: Show = { ...show, ...flat };
+  if (seasons) {
+    return applyCurrentSeason({ ...merged, seasons }, today);
+  }
+  return recordSeason(merged, toSeasonRecord(merged), today);
+};
+
+/**
+ * Converts a show to season data for storage or export
+ * Flat fields describe the current season; empty values are omitted.
+ * Streaming availabilities and the timeslot are show-level and stored alongside.
+ */
+export const toSeasonData = (show: Show): SeasonData => {
+  const { s, start, end, eps, air, ret } = show;
+  const seasonData: SeasonData = {};
+
+  if (s !== null) {
+    seasonData.s = s;
+  }
+  if (start) {
+    seasonData.start = start;
+  }
+  if (end) {
+    seasonData.end = end;
+  }
+  if (eps !== null) {
+    seasonData.eps = eps;
+  }
+  if (air) {
+    seasonData.air = air;
+  }
+  if (ret !== undefined) {
+    seasonData.ret = ret;
+  }
+  if (show.avail && show.avail.length > 0) {
+    seasonData.avail = show.avail;
+  }
+  if (show.airtime) {
+    seasonData.airtime = show.airtime;
+  }
+
+  const seasons = getSeasons(show);
+  if (seasons.length > 0) {
+    seasonData.seasons = seasons;
+  }
+
+  return seasonData;
+};
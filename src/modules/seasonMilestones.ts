@@ -0,0 +1,102 @@
+/**
+ * Season Milestones Module
+ * Tells which point of its season a show reaches in a week: premiere, regular episode,
+ * midseason finale, season finale or series finale
+ */
+
+import { Show, HiatusCalendar, SeasonEstimate, SeasonMilestone } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { daysBetween, toISODate } from '../utils/dateUtils.js';
+import { buildEpisodeSchedule, isSeasonAiring } from './episodeSchedule.js';
+
+/**
+ * Display labels for each milestone
+ */
+const MILESTONE_LABELS: Readonly<Record<SeasonMilestone, string>> = {
+  premiere: 'Premiere',
+  regular: 'New episode',
+  'midseason-finale': 'Midseason finale',
+  'season-finale': 'Season finale',
+  'series-finale': 'Series finale'
+};
+
+/**
+ * Gets the finale milestone for a show: a series finale when it is not returning
+ */
+const getFinale = (show: Show): SeasonMilestone => (show.ret ? 'season-finale' : 'series-finale');
+
+/**
+ * Gets the milestone a show reaches within a date range (inclusive), from its episode schedule
+ *
+ * Pass the show with any season estimate applied, as the week view does. When several
+ * episodes air in the range the finale wins, then the premiere, then a midseason finale
+ * (an episode followed by a gap of CONFIG.MIDSEASON_BREAK_DAYS or more). A schedule whose
+ * length is only the network's default episode count (no entered or estimated end or
+ * count) has no known finale, so it gives no finale or midseason finale either. A show
+ * without an episode schedule falls back to its start and end dates.
+ * Returns null when the season is not airing or no episode airs in the range (a break).
+ */
+export const getSeasonMilestone = (
+  show: Show,
+  rangeStart: Date,
+  rangeEnd: Date,
+  calendar: HiatusCalendar = CONFIG.HIATUS_CALENDAR
+): SeasonMilestone | null => {
+  if (!isSeasonAiring(show, rangeStart, rangeEnd)) {
+    return null;
+  }
+
+  const first = toISODate(rangeStart);
+  const last = toISODate(rangeEnd);
+  const inRange = (date: string): boolean => !!date && date >= first && date <= last;
+
+  const schedule = buildEpisodeSchedule(show, calendar);
+  const episodes = schedule?.episodes ?? [];
+  if (episodes.length === 0) {
+    if (inRange(show.end)) {
+      return getFinale(show);
+    }
+    return inRange(show.start) ? 'premiere' : 'regular';
+  }
+
+  const airing = episodes.filter(episode => inRange(episode.airDate));
+  if (airing.length === 0) {
+    return null;
+  }
+  const knownLength = !schedule?.usesDefaultCount;
+  const finale = episodes[episodes.length - 1];
+  if (knownLength && finale && airing.includes(finale)) {
+    return getFinale(show);
+  }
+  if (airing.some(episode => episode.number === 1)) {
+    return 'premiere';
+  }
+  const beforeBreak = knownLength && airing.some(episode => {
+    const next = episodes[episodes.indexOf(episode) + 1];
+    return next !== undefined && daysBetween(episode.airDate, next.airDate) >= CONFIG.MIDSEASON_BREAK_DAYS;
+  });
+  return beforeBreak ? 'midseason-finale' : 'regular';
+};
+
+/**
+ * Checks whether a milestone is a premiere or any kind of finale
+ */
+export const isPremiereOrFinale = (milestone: SeasonMilestone | null): boolean =>
+  milestone !== null && milestone !== 'regular';
+
+/**
+ * Checks whether a milestone depends on estimated season data
+ * Finales (midseason included) follow the episode list, which an estimated end date or
+ * episode count sets; premieres come from the entered start date.
+ */
+export const isEstimatedMilestone = (
+  milestone: SeasonMilestone | null,
+  estimate: SeasonEstimate | null | undefined
+): boolean =>
+  isPremiereOrFinale(milestone) && milestone !== 'premiere' && (estimate?.estimated.length ?? 0) > 0;
+
+/**
+ * Formats a milestone for display (e.g., "Midseason finale", or "Season finale (est.)")
+ */
+export const formatMilestone = (milestone: SeasonMilestone, estimated: boolean = false): string =>
+  `${MILESTONE_LABELS[milestone]}${estimated ? ' (est.)' : ''}`;
@@ -0,0 +1,138 @@
+/**
+ * Season Timeline Module
+ * Lays out each show's season as a bar between its start and end dates, grouped by
+ * platform or network, so gaps in a lineup stand out
+ */
+
+import {
+  Show,
+  HiatusCalendar,
+  SeasonTimeline,
+  TimelineBar,
+  TimelineGroup,
+  TimelineGrouping,
+  TimelineScale,
+  TimelineTick
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { registry } from '../services/registryService.js';
+import {
+  addDays,
+  daysBetween,
+  formatMonth,
+  formatShortDate,
+  getMonthRange,
+  parseISODate,
+  startOfWeek,
+  toISODate
+} from '../utils/dateUtils.js';
+import { estimateSeason } from './estimationEngine.js';
+
+/**
+ * Grouping, breaks and date settings for a season timeline
+ */
+export interface SeasonTimelineOptions {
+  /** Group bars by platform (Show.c) or network (Show.net) (default: 'platform') */
+  groupBy?: TimelineGrouping;
+  /** Breaks used to project missing end dates */
+  calendar?: HiatusCalendar;
+  /** Date marked as today (default: now) */
+  today?: Date;
+}
+
+/**
+ * Gets a show's season as a bar, projecting a missing end date from its air day
+ * and episode count; null when there is no start or the end cannot be projected
+ */
+const toBar = (id: number, show: Show, calendar: HiatusCalendar): TimelineBar | null => {
+  if (!parseISODate(show.start)) {
+    return null;
+  }
+  if (show.end) {
+    return show.end >= show.start ? { id, show, start: show.start, end: show.end, projected: false } : null;
+  }
+  const estimate = estimateSeason(show, calendar);
+  return estimate ? { id, show, start: show.start, end: estimate.end, projected: true } : null;
+};
+
+/**
+ * Builds the season timeline for a set of shows
+ * The range covers every bar and today, widened to whole months.
+ */
+export const buildSeasonTimeline = (
+  entries: Array<{ id: number; show: Show }>,
+  options: SeasonTimelineOptions = {}
+): SeasonTimeline => {
+  const { groupBy = 'platform', calendar = CONFIG.HIATUS_CALENDAR, today = new Date() } = options;
+  const todayISO = toISODate(today);
+
+  const bars: TimelineBar[] = [];
+  const undated: Show[] = [];
+  entries.forEach(({ id, show }) => {
+    const bar = toBar(id, show, calendar);
+    if (bar) {
+      bars.push(bar);
+    } else {
+      undated.push(show);
+    }
+  });
+
+  // Groups follow the registry order; IDs missing from the registry go last
+  const groupId = (bar: TimelineBar): string => (groupBy === 'network' ? bar.show.net : bar.show.c);
+  const order = (groupBy === 'network' ? registry.getNetworks() : registry.getPlatforms()).map(entry => entry.id);
+  const ids = [...new Set(bars.map(groupId))]
+    .sort((a, b) => (order.includes(a) ? order.indexOf(a) : order.length) - (order.includes(b) ? order.indexOf(b) : order.length));
+  const groups: TimelineGroup[] = ids.map(id => ({
+    id,
+    bars: bars
+      .filter(bar => groupId(bar) === id)
+      .sort((a, b) => a.start.localeCompare(b.start) || a.show.t.localeCompare(b.show.t))
+  }));
+
+  const first = bars.reduce((min, bar) => (bar.start < min ? bar.start : min), todayISO);
+  const last = bars.reduce((max, bar) => (bar.end > max ? bar.end : max), todayISO);
+  return {
+    start: getMonthRange(first.slice(0, 7)).start,
+    end: getMonthRange(last.slice(0, 7)).end,
+    today: todayISO,
+    groups,
+    undated: undated.sort((a, b) => a.t.localeCompare(b.t))
+  };
+};
+
+/**
+ * Gets the axis marks for a zoom level: each Sunday at the month scale, each month
+ * at the season scale
+ */
+export const getTimelineTicks = (timeline: SeasonTimeline, scale: TimelineScale): TimelineTick[] => {
+  const start = parseISODate(timeline.start);
+  const end = parseISODate(timeline.end);
+  if (!start || !end) {
+    return [];
+  }
+
+  const ticks: TimelineTick[] = [];
+  if (scale === 'month') {
+    for (let d = startOfWeek(addDays(start, 6)); d <= end; d = addDays(d, 7)) {
+      ticks.push({ date: toISODate(d), label: formatShortDate(toISODate(d)) });
+    }
+  } else {
+    for (let d = start; d <= end; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+      const date = toISODate(d);
+      ticks.push({ date, label: formatMonth(date.slice(0, 7)) });
+    }
+  }
+  return ticks;
+};
+
+/**
+ * Counts the days from the start of the timeline to a date
+ */
+export const getTimelineDay = (timeline: SeasonTimeline, date: string): number =>
+  daysBetween(timeline.start, date);
+
+/**
+ * Counts the days the timeline covers
+ */
+export const getTimelineLength = (timeline: SeasonTimeline): number =>
+  daysBetween(timeline.start, timeline.end) + 1;
@@ -0,0 +1,123 @@
+/**
+ * Show Calendar Module
+ * Converts the guide's airing seasons into calendar events (premieres, weekly episodes, finales)
+ */
+
+import { Show, ShowDatabase, HiatusCalendar, SeasonEstimate, ICalEvent } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { registry } from '../services/registryService.js';
+import { addDaysISO, parseISODate } from '../utils/dateUtils.js';
+import { buildEpisodeSchedule } from './episodeSchedule.js';
+import { withEstimate } from './estimationEngine.js';
+import { formatAirtime } from './airtime.js';
+
+/**
+ * Breaks and estimates used to project a season's air dates
+ */
+export interface ShowCalendarOptions {
+  /** Breaks skipped by the weekly events (default: CONFIG.HIATUS_CALENDAR) */
+  calendar?: HiatusCalendar;
+  /** Season estimate source for seasons without an end date (default: no estimates) */
+  getEstimate?: (show: Show) => SeasonEstimate | null;
+}
+
+/**
+ * Formats a show's season label (e.g., "Chicago Fire Season 14")
+ */
+const formatSeasonLabel = (show: Show): string =>
+  show.s !== null ? `${show.t} Season ${show.s}` : show.t;
+
+/**
+ * Describes where and when a show airs (e.g., "NBC · 9:00 PM ET · 60 min · Watch on Peacock")
+ */
+const describeShow = (show: Show): string =>
+  [
+    show.net ? registry.getName('network', show.net) : '',
+    show.airtime ? formatAirtime(show.airtime) : '',
+    `Watch on ${registry.getName('platform', show.c)}`
+  ].filter(Boolean).join(' · ');
+
+/**
+ * Gets the weekly dates from the first air date through the last day, inclusive
+ */
+const getWeeklyDates = (first: string, until: string): string[] => {
+  const dates: string[] = [];
+  for (let date = first; date <= until; date = addDaysISO(date, 7)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Converts a show's current season into calendar events
+ *
+ * The premiere and finale are separate events. Episodes repeat weekly on the air
+ * day until the season end (entered, estimated, or the last scheduled episode when
+ * the episode count is entered), skipping the show's breaks and the premiere and
+ * finale days.
+ * Seasons without a start date have no events.
+ */
+export const getShowEvents = (id: number | string, show: Show, options: ShowCalendarOptions = {}): ICalEvent[] => {
+  const { calendar = CONFIG.HIATUS_CALENDAR, getEstimate } = options;
+  if (!parseISODate(show.start)) {
+    return [];
+  }
+
+  const estimate = getEstimate?.(show) ?? null;
+  const schedule = buildEpisodeSchedule(withEstimate(show, estimate), calendar);
+  const airDates = schedule?.episodes.map(episode => episode.airDate) ?? [];
+  const lastEpisode = schedule && !schedule.usesDefaultCount ? airDates[airDates.length - 1] : undefined;
+  const end = estimate?.end || show.end || lastEpisode || '';
+  const endEstimated = estimate?.estimated.includes('end') ?? false;
+
+  const label = formatSeasonLabel(show);
+  const uid = `show-${id}-s${show.s ?? 0}`;
+  const description = describeShow(show);
+
+  const events: ICalEvent[] = [{
+    uid: `${uid}-premiere@tv-show-guide`,
+    date: show.start,
+    summary: `${label} premiere`,
+    description
+  }];
+
+  const hasFinale = !!end && end > show.start;
+
+  // The weekly repeat follows the air day, which an off-day premiere may not fall on.
+  // It skips breaks and the premiere and finale days, which have their own events.
+  const airDayIndex = show.air ? CONFIG.DAY_ORDER.indexOf(show.air) : -1;
+  const first = airDates.find(date => airDayIndex < 0 || parseISODate(date)?.getDay() === airDayIndex);
+  if (end && first && first <= end) {
+    const weekly = getWeeklyDates(first, end);
+    const exdates = weekly.filter(date =>
+      !airDates.includes(date) || date === show.start || (hasFinale && date === end)
+    );
+    if (exdates.length < weekly.length) {
+      events.push({
+        uid: `${uid}-weekly@tv-show-guide`,
+        date: first,
+        summary: show.t,
+        description,
+        until: end,
+        exdates
+      });
+    }
+  }
+
+  if (hasFinale) {
+    events.push({
+      uid: `${uid}-finale@tv-show-guide`,
+      date: end,
+      summary: `${label} finale${endEstimated ? ' (estimated)' : ''}`,
+      description
+    });
+  }
+
+  return events;
+};
+
+/**
+ * Converts every show's current season into calendar events
+ */
+export const getShowCalendarEvents = (shows: ShowDatabase, options: ShowCalendarOptions = {}): ICalEvent[] =>
+  Object.entries(shows).flatMap(([id, show]) => getShowEvents(id, show, options));
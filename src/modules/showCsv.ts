@@ -0,0 +1,295 @@
+/**
+ * Show CSV Module
+ * Exports the show table as CSV and reads shows from spreadsheet rows mapped onto show fields
+ */
+
+import {
+  Show,
+  ShowDatabase,
+  AirDay,
+  RegistryKind,
+  CsvField,
+  CsvColumnMapping,
+  CsvTable,
+  CsvImportRows
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { registry } from '../services/registryService.js';
+import { validators } from '../validation.js';
+import { buildCsv, parseCsv } from '../utils/csvUtils.js';
+import { parseISODate, toISODate } from '../utils/dateUtils.js';
+import { applyCurrentSeason, formatSeasonRecord, getLatestSeason, getSeasons, updateShowSeason } from './seasonHistory.js';
+import { parseAirtimeText, toAirtimeText } from './airtime.js';
+import { toTitleKey } from './calendarImport.js';
+import { NEW_SHOW_DEFAULTS } from './dataImport.js';
+
+/**
+ * Columns of the exported show table (the editor's columns)
+ */
+const EXPORT_HEADERS = [
+  '#', 'Title', 'Platform', 'Network', 'Air Day', 'Time', 'Season', 'Start', 'End', 'Eps', 'Returning', 'Past Seasons'
+];
+
+/**
+ * Field names shown in the column mapping, in display order
+ */
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  id: 'Show ID (#)',
+  t: 'Title',
+  c: 'Platform',
+  net: 'Network',
+  air: 'Air Day',
+  airtime: 'Time',
+  s: 'Season',
+  start: 'Start',
+  end: 'End',
+  eps: 'Eps',
+  ret: 'Returning'
+};
+
+/**
+ * Headers recognized for each field (lowercase, letters, digits and "#" only)
+ */
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  id: ['#', 'id', 'showid'],
+  t: ['title', 'show', 'name', 'series'],
+  c: ['platform', 'streaming', 'service', 'streamson'],
+  net: ['network', 'channel', 'net'],
+  air: ['airday', 'day', 'airs'],
+  airtime: ['time', 'timeslot', 'airtime'],
+  s: ['season', 'seasonnumber'],
+  start: ['start', 'premiere', 'premieredate', 'startdate', 'seasonstart'],
+  end: ['end', 'finale', 'finaledate', 'enddate', 'seasonend'],
+  eps: ['eps', 'episodes', 'episodecount'],
+  ret: ['returning', 'renewed', 'ret']
+};
+
+/**
+ * Values read as yes or no in the Returning column
+ */
+const YES_VALUES = ['yes', 'y', 'true', '1', 'renewed'];
+const NO_VALUES = ['no', 'n', 'false', '0', 'cancelled', 'canceled', 'ended'];
+
+/**
+ * Builds the show table as CSV, one row per show in ID order
+ * Columns match the editor; the current season is the latest one in the history.
+ */
+export const buildShowsCsv = (shows: ShowDatabase): string => {
+  const rows = Object.entries(shows)
+    .map(([id, show]) => ({ id: Number(id), show }))
+    .sort((a, b) => a.id - b.id)
+    .map(({ id, show }) => {
+      const seasons = getSeasons(show);
+      const latest = getLatestSeason(seasons) ?? { s: null, start: '', end: '', eps: null, air: show.air };
+      return [
+        String(id),
+        show.t,
+        registry.getName('platform', show.c),
+        show.net ? registry.getName('network', show.net) : '',
+        latest.air,
+        show.airtime ? toAirtimeText(show.airtime) : '',
+        latest.s !== null ? String(latest.s) : '',
+        latest.start,
+        latest.end,
+        latest.eps !== null ? String(latest.eps) : '',
+        show.ret ? 'Yes' : 'No',
+        seasons.filter(season => season !== latest).map(formatSeasonRecord).join('; ')
+      ];
+    });
+  return buildCsv([EXPORT_HEADERS, ...rows]);
+};
+
+/**
+ * Reads a CSV file into its header row and data rows
+ */
+export const readCsvTable = (text: string): CsvTable => {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers, rows };
+};
+
+/**
+ * Guesses the field each column holds from its header
+ * Each field is used by one column at most; unknown headers are ignored
+ */
+export const guessCsvMapping = (headers: string[]): CsvColumnMapping => {
+  const used = new Set<CsvField>();
+  return headers.map(header => {
+    const key = header.toLowerCase().replace(/[^a-z0-9#]/g, '');
+    const field = (Object.keys(FIELD_ALIASES) as CsvField[])
+      .find(candidate => !used.has(candidate) && FIELD_ALIASES[candidate].includes(key));
+    if (!field) {
+      return null;
+    }
+    used.add(field);
+    return field;
+  });
+};
+
+/**
+ * Finds a platform or network by ID or name, ignoring case
+ * Unknown values are returned as they are, for validation to report
+ */
+const resolveRegistryId = (kind: RegistryKind, value: string): string => {
+  const entries = kind === 'platform' ? registry.getPlatforms() : registry.getNetworks();
+  const lower = value.toLowerCase();
+  return entries.find(entry => entry.id.toLowerCase() === lower || entry.name.toLowerCase() === lower)?.id ?? value;
+};
+
+/**
+ * Reads a day name or its abbreviation ("thu", "Thurs")
+ */
+const parseAirDay = (value: string): AirDay | string => {
+  const lower = value.toLowerCase();
+  const day = CONFIG.DAY_ORDER.find(name => lower.length >= 2 && name.toLowerCase().startsWith(lower));
+  return (day as AirDay | undefined) ?? value;
+};
+
+/**
+ * Reads an ISO date or a spreadsheet date (M/D/YYYY)
+ */
+const parseCsvDate = (value: string): string => {
+  if (parseISODate(value)) {
+    return value;
+  }
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (!match) {
+    return value;
+  }
+  const date = new Date(Number(match[3]), Number(match[1]) - 1, Number(match[2]));
+  return date.getMonth() === Number(match[1]) - 1 ? toISODate(date) : value;
+};
+
+/**
+ * Reads a number, keeping text that is not one for validation to report
+ */
+const parseCsvNumber = (value: string): number | string => {
+  const number = Number(value);
+  return value !== '' && Number.isFinite(number) ? number : value;
+};
+
+/**
+ * Reads the mapped cells of a row as show fields
+ * Empty cells are left out; values that cannot be read are reported as errors
+ */
+const readRowFields = (values: Partial<Record<CsvField, string>>): { fields: Partial<Show>; errors: string[] } => {
+  const fields: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  Object.entries(values).forEach(([field, value]) => {
+    if (!value) {
+      return;
+    }
+    switch (field as CsvField) {
+      case 't':
+        fields.t = value;
+        break;
+      case 'c':
+        fields.c = resolveRegistryId('platform', value);
+        break;
+      case 'net':
+        fields.net = resolveRegistryId('network', value);
+        break;
+      case 'air':
+        fields.air = parseAirDay(value);
+        break;
+      case 'airtime': {
+        const airtime = parseAirtimeText(value);
+        if (airtime) {
+          fields.airtime = airtime;
+        } else {
+          errors.push(`time "${value}" is not a time like 21:00 ET 60 min`);
+        }
+        break;
+      }
+      case 's':
+      case 'eps':
+        fields[field] = parseCsvNumber(value);
+        break;
+      case 'start':
+      case 'end':
+        fields[field] = parseCsvDate(value);
+        break;
+      case 'ret': {
+        const lower = value.toLowerCase();
+        if (YES_VALUES.includes(lower) || NO_VALUES.includes(lower)) {
+          fields.ret = YES_VALUES.includes(lower);
+        } else {
+          errors.push(`returning "${value}" is not yes or no`);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  return { fields: fields as Partial<Show>, errors };
+};
+
+/**
+ * Reads shows from CSV rows with a column mapping
+ *
+ * Rows are matched to shows by the ID column when mapped, otherwise by title;
+ * unmatched rows become new shows with the next free IDs. Empty cells keep the
+ * show's current values. Each row is validated as the show it would become, and
+ * invalid rows are returned with their row number and errors.
+ */
+export const readCsvShows = (table: CsvTable, mapping: CsvColumnMapping, shows: ShowDatabase): CsvImportRows => {
+  const result: CsvImportRows = { shows: {}, rejected: [] };
+  const idsByTitle = new Map(Object.entries(shows).map(([id, show]) => [toTitleKey(show.t), Number(id)]));
+  let nextId = Math.max(0, ...Object.keys(shows).map(Number)) + 1;
+
+  table.rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const values: Partial<Record<CsvField, string>> = {};
+    mapping.forEach((field, column) => {
+      if (field && values[field] === undefined) {
+        values[field] = row[column] ?? '';
+      }
+    });
+
+    const reject = (id: number, title: string, messages: string[]): void => {
+      result.rejected.push({
+        id,
+        title,
+        status: 'invalid',
+        changes: [],
+        errors: messages.map(message => `Row ${rowNumber}: ${message}`)
+      });
+    };
+
+    const title = values.t || `Row ${rowNumber}`;
+    let id: number | undefined;
+    if (values.id) {
+      id = Number(values.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        reject(NaN, title, [`show ID "${values.id}" must be a positive integer`]);
+        return;
+      }
+    } else if (values.t) {
+      id = idsByTitle.get(toTitleKey(values.t));
+    }
+    if (id === undefined) {
+      id = nextId++;
+    }
+
+    const { fields, errors } = readRowFields(values);
+    const existing = result.shows[id] ?? shows[id];
+    const show = existing
+      ? updateShowSeason(existing, fields)
+      : applyCurrentSeason({ ...NEW_SHOW_DEFAULTS, ...fields } as Show);
+
+    const validation = validators.validateShow(show);
+    const messages = [...errors, ...validation.errors.map(error => error.message)];
+    if (messages.length > 0) {
+      reject(id, existing?.t ?? title, messages);
+      return;
+    }
+
+    result.shows[id] = show;
+    idsByTitle.set(toTitleKey(show.t), id);
+    nextId = Math.max(nextId, id + 1);
+  });
+
+  return result;
+};
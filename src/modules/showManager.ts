@@ -5,13 +5,19 @@
 
 import { Show, ShowDatabase, Platform, Network, AirDay } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { updateShowSeason } from './seasonHistory.js';
+import { registry } from '../services/registryService.js';
+import { isAvailableOn, getShowPlatforms } from './availability.js';
 
 export interface ShowFilters {
+  /** Only shows these platforms carry (empty for none; every platform if missing) */
   platforms?: Platform[];
   networks?: Network[];
   returning?: boolean;
   airDays?: AirDay[];
   searchTerm?: string;
+  /** Only shows with these titles (e.g., a profile's followed shows) */
+  titles?: string[];
 }
 
 export interface ShowStats {
@@ -104,8 +110,8 @@ export class ShowManager {
       total: 0,
       returning: 0,
       nonReturning: 0,
-      byPlatform: { hulu: 0, peacock: 0, paramount: 0 },
-      byNetwork: { ABC: 0, NBC: 0, CBS: 0, FOX: 0 }
+      byPlatform: Object.fromEntries(registry.getPlatforms().map(p => [p.id, 0])),
+      byNetwork: Object.fromEntries(registry.getNetworks().map(n => [n.id, 0]))
     };
 
     Object.values(this.shows).forEach(show => {
@@ -117,8 +123,8 @@ export class ShowManager {
         stats.nonReturning++;
       }
 
-      stats.byPlatform[show.c]++;
-      stats.byNetwork[show.net]++;
+      stats.byPlatform[show.c] = (stats.byPlatform[show.c] ?? 0) + 1;
+      stats.byNetwork[show.net] = (stats.byNetwork[show.net] ?? 0) + 1;
     });
 
     return stats;
@@ -133,7 +139,7 @@ export class ShowManager {
       return false;
     }
 
-    this.shows[id] = { ...this.shows[id], ...updates };
+    this.shows[id] = updateShowSeason(this.shows[id], updates);
     logger.info(`Show ${id} updated`);
     return true;
   }
@@ -170,11 +176,9 @@ export class ShowManager {
    * Check if a show matches the given filters
    */
   private matchesFilters(show: Show, filters: ShowFilters): boolean {
-    // Platform filter
-    if (filters.platforms && filters.platforms.length > 0) {
-      if (!filters.platforms.includes(show.c)) {
-        return false;
-      }
+    // Platform filter - visible if any selected platform carries the show (none when none is selected)
+    if (filters.platforms && !isAvailableOn(show, filters.platforms)) {
+      return false;
     }
 
     // Network filter
@@ -198,12 +202,17 @@ export class ShowManager {
       }
     }
 
+    // Title filter
+    if (filters.titles && !filters.titles.includes(show.t)) {
+      return false;
+    }
+
     // Search term filter
     if (filters.searchTerm) {
       const searchLower = filters.searchTerm.toLowerCase();
       const titleMatch = show.t.toLowerCase().includes(searchLower);
       const networkMatch = show.net.toLowerCase().includes(searchLower);
-      const platformMatch = show.c.toLowerCase().includes(searchLower);
+      const platformMatch = getShowPlatforms(show).some(p => p.toLowerCase().includes(searchLower));
       
       if (!titleMatch && !networkMatch && !platformMatch) {
         return false;
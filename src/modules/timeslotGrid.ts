@@ -0,0 +1,91 @@
+/**
+ * Timeslot Grid Module
+ * Lays out an evening of shows per day as blocks on half-hour rows
+ */
+
+import { Show, AirDay, GridBlock, GridDay, TimeslotGrid } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { compareByAirtime, findConflicts, getAirtimeSlot } from './airtime.js';
+
+/**
+ * Days of the week, Sunday first
+ */
+const DAYS = CONFIG.DAY_ORDER as readonly AirDay[];
+
+/**
+ * Grid window and row length
+ */
+export interface TimeslotGridOptions {
+  /** First hour shown, Eastern clock (default: CONFIG.GRID_START_HOUR) */
+  startHour?: number;
+  /** Hour the grid ends, Eastern clock (default: CONFIG.GRID_END_HOUR) */
+  endHour?: number;
+  /** Length of a row in minutes (default: CONFIG.GRID_SLOT_MINUTES) */
+  slotMinutes?: number;
+}
+
+/**
+ * Gets the start of each row in minutes after midnight
+ */
+export const getGridSlots = (startHour: number, endHour: number, slotMinutes: number): number[] => {
+  const slots: number[] = [];
+  for (let minutes = startHour * 60; minutes < endHour * 60; minutes += slotMinutes) {
+    slots.push(minutes);
+  }
+  return slots;
+};
+
+/**
+ * Lays out one day's shows, giving shows that share rows their own lane
+ */
+const layoutDay = (shows: Show[], gridStart: number, gridEnd: number, slotMinutes: number): GridDay => {
+  const conflicts = findConflicts(shows);
+  const blocks: GridBlock[] = [];
+  const outside: Show[] = [];
+  const laneEnds: number[] = [];
+
+  [...shows].sort(compareByAirtime).forEach(show => {
+    const slot = getAirtimeSlot(show);
+    if (!slot || slot.end <= gridStart || slot.start >= gridEnd) {
+      outside.push(show);
+      return;
+    }
+
+    const row = Math.floor((Math.max(slot.start, gridStart) - gridStart) / slotMinutes);
+    const endRow = Math.ceil((Math.min(slot.end, gridEnd) - gridStart) / slotMinutes);
+    const span = Math.max(endRow - row, 1);
+
+    let lane = laneEnds.findIndex(end => end <= row);
+    if (lane < 0) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = row + span;
+
+    blocks.push({ show, row, span, lane, conflicts: conflicts.get(show.t) ?? [] });
+  });
+
+  return { lanes: Math.max(laneEnds.length, 1), blocks, outside };
+};
+
+/**
+ * Builds the evening timeslot grid for a week of shows grouped by air day
+ * Shows are placed by their timeslot on the Eastern clock and clipped to the window
+ */
+export const buildTimeslotGrid = (
+  weekData: Record<AirDay, Show[]>,
+  options: TimeslotGridOptions = {}
+): TimeslotGrid => {
+  const {
+    startHour = CONFIG.GRID_START_HOUR,
+    endHour = CONFIG.GRID_END_HOUR,
+    slotMinutes = CONFIG.GRID_SLOT_MINUTES
+  } = options;
+  const gridStart = startHour * 60;
+  const gridEnd = endHour * 60;
+
+  const days = Object.fromEntries(
+    DAYS.map(day => [day, layoutDay(weekData[day], gridStart, gridEnd, slotMinutes)])
+  ) as Record<AirDay, GridDay>;
+
+  return { slots: getGridSlots(startHour, endHour, slotMinutes), slotMinutes, days };
+};
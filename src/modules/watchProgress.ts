@@ -0,0 +1,153 @@
+/**
+ * Watch Progress Module
+ * Tracks watched episodes per show and season against the derived episode list
+ */
+
+import { SeasonProgress, WatchProgress, HouseholdProgress, EpisodeSchedule, ProgressSummary } from '../types/index.js';
+import { toISODate } from '../utils/dateUtils.js';
+
+/**
+ * Gets the progress key for a season number
+ */
+export const getSeasonKey = (season: number | null): string => (season !== null ? String(season) : '?');
+
+/**
+ * Gets the watched episode numbers for a show's season
+ */
+export const getWatchedEpisodes = (
+  progress: WatchProgress,
+  title: string,
+  season: number | null
+): number[] => progress[title]?.[getSeasonKey(season)] ?? [];
+
+/**
+ * Checks whether an episode is marked watched
+ */
+export const isEpisodeWatched = (
+  progress: WatchProgress,
+  title: string,
+  season: number | null,
+  episode: number
+): boolean => getWatchedEpisodes(progress, title, season).includes(episode);
+
+/**
+ * Returns a copy of the progress with an episode marked watched or unwatched
+ * Shows and seasons left without watched episodes are removed
+ */
+export const setEpisodeWatched = (
+  progress: WatchProgress,
+  title: string,
+  season: number | null,
+  episode: number,
+  watched: boolean
+): WatchProgress => {
+  const key = getSeasonKey(season);
+  const current = getWatchedEpisodes(progress, title, season).filter(n => n !== episode);
+  const episodes = watched ? [...current, episode].sort((a, b) => a - b) : current;
+
+  const showProgress: SeasonProgress = { ...progress[title] };
+  if (episodes.length > 0) {
+    showProgress[key] = episodes;
+  } else {
+    delete showProgress[key];
+  }
+
+  const updated: WatchProgress = { ...progress };
+  if (Object.keys(showProgress).length > 0) {
+    updated[title] = showProgress;
+  } else {
+    delete updated[title];
+  }
+  return updated;
+};
+
+/**
+ * Gets the episodes watched in every one of the progress records (empty if none are given)
+ * Used when several profiles watch together
+ */
+export const getSharedProgress = (progresses: WatchProgress[]): WatchProgress => {
+  const [first, ...rest] = progresses;
+  if (!first) {
+    return {};
+  }
+
+  const shared: WatchProgress = {};
+  Object.entries(first).forEach(([title, seasons]) => {
+    Object.entries(seasons).forEach(([season, episodes]) => {
+      const common = episodes.filter(n => rest.every(p => p[title]?.[season]?.includes(n)));
+      if (common.length > 0) {
+        shared[title] = { ...shared[title], [season]: common };
+      }
+    });
+  });
+  return shared;
+};
+
+/**
+ * Summarizes progress through a season's episode list
+ * Episodes count as aired on their air date
+ */
+export const getProgressSummary = (
+  schedule: EpisodeSchedule,
+  watchedEpisodes: number[],
+  today: Date = new Date()
+): ProgressSummary => {
+  const todayISO = toISODate(today);
+  const aired = schedule.episodes.filter(episode => episode.airDate <= todayISO);
+  const watched = schedule.episodes.filter(episode => watchedEpisodes.includes(episode.number));
+  const behind = aired.filter(episode => !watchedEpisodes.includes(episode.number));
+
+  return {
+    total: schedule.episodes.length,
+    aired: aired.length,
+    watched: watched.length,
+    behind: behind.length
+  };
+};
+
+/**
+ * Formats a progress summary (e.g., "3 of 18 watched · 2 behind")
+ */
+export const formatProgress = (summary: ProgressSummary): string =>
+  `${summary.watched} of ${summary.total} watched` + (summary.behind > 0 ? ` · ${summary.behind} behind` : '');
+
+/**
+ * Cleans imported season progress, keeping positive whole episode numbers only
+ * Returns null if nothing valid is left
+ */
+export const normalizeSeasonProgress = (data: unknown): SeasonProgress | null => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return null;
+  }
+
+  const progress: SeasonProgress = {};
+  Object.entries(data as Record<string, unknown>).forEach(([season, episodes]) => {
+    if (!Array.isArray(episodes)) {
+      return;
+    }
+    const valid = [...new Set(episodes.filter((n): n is number => Number.isInteger(n) && n > 0))];
+    if (valid.length > 0) {
+      progress[season] = valid.sort((a, b) => a - b);
+    }
+  });
+  return Object.keys(progress).length > 0 ? progress : null;
+};
+
+/**
+ * Migrates stored progress to per-profile progress
+ * Progress saved before household profiles is keyed by show title (its entries hold
+ * season lists); it was shared by the household, so every profile gets a copy.
+ * Profiles that no longer exist are dropped.
+ */
+export const migrateHouseholdProgress = (
+  progress: HouseholdProgress | WatchProgress,
+  profileIds: string[]
+): HouseholdProgress => {
+  const titleKeyed = Object.values(progress).some(entry =>
+    Object.values(entry as Record<string, unknown>).some(value => Array.isArray(value))
+  );
+  if (titleKeyed) {
+    return Object.fromEntries(profileIds.map(id => [id, progress as WatchProgress]));
+  }
+  return Object.fromEntries(Object.entries(progress as HouseholdProgress).filter(([id]) => profileIds.includes(id)));
+};
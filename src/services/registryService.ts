@@ -0,0 +1,207 @@
+/**
+ * Platform and network registry service
+ * Holds the built-in platforms and networks plus entries added by the user
+ */
+
+import { RegistryEntry, RegistryKind, AvailabilityRule } from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * IDs end up in element IDs and class names, so keep them simple
+ */
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+const COLOR_PATTERN = /^#[0-9A-Fa-f]{3,8}$/;
+
+/**
+ * Checks a stored availability rule (entries saved by older versions have none)
+ */
+const isValidRule = (rule: AvailabilityRule | undefined): boolean => {
+  if (rule === undefined) {
+    return true;
+  }
+  if (rule.type === 'days-later') {
+    return Number.isInteger(rule.days) && rule.days >= 0;
+  }
+  return ['same-day', 'next-day', 'full-season'].includes(rule.type);
+};
+
+interface StoredRegistry {
+  platforms: RegistryEntry[];
+  networks: RegistryEntry[];
+}
+
+export class RegistryService {
+  private readonly storageKey: string;
+  private platforms: RegistryEntry[];
+  private networks: RegistryEntry[];
+  private listeners: (() => void)[] = [];
+
+  constructor(storageKey = CONFIG.REGISTRY_STORAGE_KEY) {
+    this.storageKey = storageKey;
+    this.platforms = [...CONFIG.PLATFORMS];
+    this.networks = [...CONFIG.NETWORKS];
+    this.loadData();
+  }
+
+  /**
+   * Get all registered platforms
+   */
+  getPlatforms(): readonly RegistryEntry[] {
+    return this.platforms;
+  }
+
+  /**
+   * Get all registered networks
+   */
+  getNetworks(): readonly RegistryEntry[] {
+    return this.networks;
+  }
+
+  /**
+   * Get a platform by ID
+   */
+  getPlatform(id: string): RegistryEntry | undefined {
+    return this.platforms.find(entry => entry.id === id);
+  }
+
+  /**
+   * Get a network by ID
+   */
+  getNetwork(id: string): RegistryEntry | undefined {
+    return this.networks.find(entry => entry.id === id);
+  }
+
+  /**
+   * Check whether an ID is a registered platform
+   */
+  isPlatform(id: string): boolean {
+    return this.getPlatform(id) !== undefined;
+  }
+
+  /**
+   * Check whether an ID is a registered network
+   */
+  isNetwork(id: string): boolean {
+    return this.getNetwork(id) !== undefined;
+  }
+
+  /**
+   * Get the display name for a platform or network, falling back to the ID
+   */
+  getName(kind: RegistryKind, id: string): string {
+    const entry = kind === 'platform' ? this.getPlatform(id) : this.getNetwork(id);
+    return entry?.name ?? id;
+  }
+
+  /**
+   * Get the color for a platform or network (undefined if not registered)
+   */
+  getColor(kind: RegistryKind, id: string): string | undefined {
+    const entry = kind === 'platform' ? this.getPlatform(id) : this.getNetwork(id);
+    return entry?.color;
+  }
+
+  /**
+   * Add a platform or network
+   * Returns false if the ID or color is invalid or the ID is already registered
+   */
+  addEntry(kind: RegistryKind, entry: RegistryEntry): boolean {
+    const id = entry.id.trim();
+    if (!ID_PATTERN.test(id)) {
+      logger.warn(`Invalid ${kind} ID "${id}" - use letters, numbers, - and _`);
+      return false;
+    }
+
+    if (!COLOR_PATTERN.test(entry.color)) {
+      logger.warn(`Invalid ${kind} color "${entry.color}" - use a hex color`);
+      return false;
+    }
+
+    const exists = kind === 'platform' ? this.isPlatform(id) : this.isNetwork(id);
+    if (exists) {
+      logger.warn(`${kind} "${id}" is already registered`);
+      return false;
+    }
+
+    const newEntry: RegistryEntry = { ...entry, id, name: entry.name.trim() || id };
+    if (kind === 'platform') {
+      this.platforms = [...this.platforms, newEntry];
+    } else {
+      this.networks = [...this.networks, newEntry];
+    }
+
+    this.saveData();
+    this.notifyListeners();
+    logger.info(`Added ${kind}: ${newEntry.name}`);
+    return true;
+  }
+
+  /**
+   * Subscribe to registry changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Notify all listeners of registry changes
+   */
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Loads user-added entries from localStorage
+   */
+  private loadData(): void {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) {
+        return;
+      }
+
+      const data = JSON.parse(raw) as Partial<StoredRegistry>;
+      (data.platforms ?? []).forEach(entry => {
+        if (
+          ID_PATTERN.test(entry.id) &&
+          COLOR_PATTERN.test(entry.color) &&
+          isValidRule(entry.availability) &&
+          !this.isPlatform(entry.id)
+        ) {
+          this.platforms.push(entry);
+        }
+      });
+      (data.networks ?? []).forEach(entry => {
+        if (ID_PATTERN.test(entry.id) && COLOR_PATTERN.test(entry.color) && !this.isNetwork(entry.id)) {
+          this.networks.push(entry);
+        }
+      });
+    } catch (error) {
+      logger.warn('Failed to load registry:', error);
+    }
+  }
+
+  /**
+   * Saves user-added entries to localStorage
+   */
+  private saveData(): void {
+    try {
+      const data: StoredRegistry = {
+        platforms: this.platforms.filter(entry => !CONFIG.PLATFORMS.some(p => p.id === entry.id)),
+        networks: this.networks.filter(entry => !CONFIG.NETWORKS.some(n => n.id === entry.id))
+      };
+      localStorage.setItem(this.storageKey, JSON.stringify(data));
+    } catch (error) {
+      logger.warn('Failed to save registry:', error);
+    }
+  }
+}
+
+/**
+ * Shared registry instance used for filters, chips, stats and validation
+ */
+export const registry = new RegistryService();
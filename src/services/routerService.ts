@@ -0,0 +1,96 @@
+/**
+ * Hash router service
+ * Keeps the view, week or month, focused show, filters and search term in the URL hash,
+ * so the page survives a refresh and can be shared as a link. Moving to another view,
+ * week, month or show adds a browser history entry (back and forward move between weeks);
+ * filter and search changes replace the current one.
+ */
+
+import { ReactiveShowManager } from '../state/ReactiveShowManager.js';
+import { buildRoute, parseRoute } from '../modules/routes.js';
+import { logger } from '../utils/logger.js';
+
+export class RouterService {
+  private readonly showManager: ReactiveShowManager;
+  private unsubscribers: Array<() => void> = [];
+  private restoring = false;
+  private readonly handleNavigation = (): void => this.restoreFromUrl();
+
+  constructor(showManager: ReactiveShowManager) {
+    this.showManager = showManager;
+  }
+
+  /**
+   * Restore the state in the URL, then keep the URL in step with the state
+   */
+  start(): void {
+    this.restoreFromUrl();
+
+    const updateUrl = (): void => this.updateUrl();
+    this.unsubscribers.push(
+      this.showManager.subscribeToCurrentView(updateUrl),
+      this.showManager.subscribeToWeekOffset(updateUrl),
+      this.showManager.subscribeToMonthOffset(updateUrl),
+      this.showManager.subscribeToFocusedShow(updateUrl),
+      this.showManager.subscribeToFilters(updateUrl)
+    );
+
+    // Back/forward, edited URLs and followed links
+    window.addEventListener('popstate', this.handleNavigation);
+    window.addEventListener('hashchange', this.handleNavigation);
+    logger.info('Router started', { route: window.location.hash });
+  }
+
+  /**
+   * Stop following the URL and the state
+   */
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    window.removeEventListener('popstate', this.handleNavigation);
+    window.removeEventListener('hashchange', this.handleNavigation);
+  }
+
+  /**
+   * Apply the route in the URL to the state, then write it back in its canonical form
+   */
+  private restoreFromUrl(): void {
+    const route = parseRoute(window.location.hash);
+    if (route) {
+      this.restoring = true;
+      try {
+        if (this.showManager.restoreRouteState(route)) {
+          logger.info('State restored from URL', route);
+        }
+      } finally {
+        this.restoring = false;
+      }
+    } else if (window.location.hash) {
+      logger.warn(`Unknown route: ${window.location.hash}`);
+    }
+    this.updateUrl(true);
+  }
+
+  /**
+   * Write the state to the URL (a new history entry when the view, week, month or show changed)
+   */
+  private updateUrl(replace = false): void {
+    if (this.restoring) {
+      return;
+    }
+    const hash = buildRoute(this.showManager.getRouteState());
+    const current = window.location.hash;
+    if (hash === current) {
+      return;
+    }
+
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    const samePath = current.split('?')[0] === hash.split('?')[0];
+    if (replace || !current || samePath) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+    logger.debug(`URL updated: ${hash}`);
+  }
+}
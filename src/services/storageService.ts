@@ -4,6 +4,7 @@
 
 import { ShowDatabase, SeasonData } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { applySeasonData, toSeasonData } from '../modules/seasonHistory.js';
 
 export class StorageService {
   private readonly storageKey: string;
@@ -14,6 +15,7 @@ export class StorageService {
 
   /**
    * Loads show data from localStorage
+   * Data saved before season history existed is migrated in place
    */
   loadData(shows: ShowDatabase): void {
     const raw = localStorage.getItem(this.storageKey);
@@ -25,8 +27,9 @@ export class StorageService {
       const data = JSON.parse(raw);
       Object.keys(data).forEach(k => {
         const showId = parseInt(k);
-        if (shows[showId]) {
-          Object.assign(shows[showId], data[k]);
+        const show = shows[showId];
+        if (show) {
+          Object.assign(show, applySeasonData(show, data[k]));
         }
       });
       logger.info('Data loaded successfully');
@@ -45,29 +48,7 @@ export class StorageService {
       Object.keys(shows).forEach(k => {
         const show = shows[parseInt(k)];
         if (show) {
-          const { s, start, end, eps, air, ret } = show;
-          const seasonData: SeasonData = {};
-          
-          if (s !== null) {
-            seasonData.s = s;
-          }
-          if (start) {
-            seasonData.start = start;
-          }
-          if (end) {
-            seasonData.end = end;
-          }
-          if (eps !== null) {
-            seasonData.eps = eps;
-          }
-          if (air) {
-            seasonData.air = air;
-          }
-          if (ret !== undefined) {
-            seasonData.ret = ret;
-          }
-          
-          out[k] = seasonData;
+          out[k] = toSeasonData(show);
         }
       });
       
@@ -5,7 +5,38 @@
 
 import { StateManager } from './StateManager.js';
 import { ShowManager, ShowFilters, ShowStats } from '../modules/showManager.js';
-import { Show, ShowDatabase, Platform, Network, AirDay } from '../types/index.js';
+import {
+  Show,
+  ShowDatabase,
+  Platform,
+  Network,
+  AirDay,
+  EstimateSettings,
+  SeasonEstimate,
+  HiatusCalendar,
+  WatchProgress,
+  HouseholdProgress,
+  ProgressSummary,
+  Profile,
+  ProfileFilters,
+  StateSnapshot,
+  DisplayMode
+} from '../types/index.js';
+import { CONFIG } from '../core/config.js';
+import { getSeasonEstimate, withEstimate } from '../modules/estimationEngine.js';
+import { buildEpisodeSchedule } from '../modules/episodeSchedule.js';
+import {
+  getWatchedEpisodes,
+  isEpisodeWatched,
+  setEpisodeWatched,
+  getSharedProgress,
+  getProgressSummary,
+  migrateHouseholdProgress
+} from '../modules/watchProgress.js';
+import { createProfile, setFollowing, getSharedTitles } from '../modules/profiles.js';
+import { updateShowSeason } from '../modules/seasonHistory.js';
+import { RouteState, isSameRouteFilters } from '../modules/routes.js';
+import { registry } from '../services/registryService.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -25,6 +56,7 @@ export interface ReactiveShowManagerConfig {
 export class ReactiveShowManager {
   private stateManager: StateManager;
   private showManager: ShowManager;
+  private definedPlatformPaths = new Set<string>();
 
   constructor(initialShows: ShowDatabase, config: ReactiveShowManagerConfig = {}) {
     // Initialize state manager
@@ -38,6 +70,12 @@ export class ReactiveShowManager {
     // Initialize show manager
     this.showManager = new ShowManager(initialShows);
 
+    // Restore profiles, watch progress and break calendar edits saved in a previous session
+    // (before initial state is persisted over them)
+    if (config.enablePersistence ?? true) {
+      this.stateManager.loadPaths(['profiles', 'ui.profiles', 'progress', 'hiatus']);
+    }
+
     // Initialize state
     this.initializeState(initialShows);
 
@@ -56,15 +94,46 @@ export class ReactiveShowManager {
   private initializeState(shows: ShowDatabase): void {
     this.stateManager.set('shows', shows, 'initialize shows');
     this.stateManager.set('filters', {
-      platforms: [],
+      platforms: registry.getPlatforms().map(platform => platform.id),
       networks: [],
       returning: undefined,
       airDays: [],
       searchTerm: '',
     }, 'initialize filters');
-    this.stateManager.set('ui.currentView', 'all-shows', 'initialize view');
+    this.stateManager.set('estimates', {
+      enabled: false,
+      networks: [],
+    }, 'initialize estimates');
+    this.stateManager.set(
+      'hiatus',
+      this.stateManager.get<HiatusCalendar>('hiatus') ?? CONFIG.HIATUS_CALENDAR,
+      'initialize hiatus calendar'
+    );
+
+    // Household profiles start out following every show
+    const profiles = this.stateManager.get<Profile[]>('profiles') ??
+      CONFIG.PROFILES.map(({ id, name }) => ({
+        id,
+        name,
+        followed: Object.values(shows).map(show => show.t).sort((a, b) => a.localeCompare(b))
+      }));
+    const profileIds = profiles.map(profile => profile.id);
+    // Progress saved before household profiles is keyed by show title
+    const progress = this.stateManager.get<HouseholdProgress | WatchProgress>('progress') ?? {};
+    this.stateManager.set('profiles', profiles, 'initialize profiles');
+    this.stateManager.set(
+      'ui.profiles',
+      (this.stateManager.get<string[]>('ui.profiles') ?? []).filter(id => profileIds.includes(id)),
+      'initialize selected profiles'
+    );
+    this.stateManager.set('progress', migrateHouseholdProgress(progress, profileIds), 'initialize watch progress');
+    this.stateManager.set('ui.currentView', 'all', 'initialize view');
+    this.stateManager.set('ui.focusedShow', null, 'initialize focused show');
     this.stateManager.set('ui.searchTerm', '', 'initialize search');
     this.stateManager.set('ui.weekOffset', 0, 'initialize week offset');
+    this.stateManager.set('ui.monthOffset', 0, 'initialize month offset');
+    this.stateManager.set('ui.watchable', false, 'initialize watchable mode');
+    this.stateManager.set('ui.milestonesOnly', false, 'initialize milestones filter');
   }
 
   /**
@@ -84,9 +153,9 @@ export class ReactiveShowManager {
 
         // Update internal ShowManager with current shows
         this.showManager = new ShowManager(shows);
-        return this.showManager.getFilteredShows(filters || {});
+        return this.showManager.getFilteredShows(this.getScopedFilters(filters || {}));
       },
-      ['shows', 'filters']
+      ['shows', 'filters', 'profiles', 'ui.profiles']
     );
 
     // Computed: Show statistics
@@ -99,56 +168,24 @@ export class ReactiveShowManager {
             total: 0,
             returning: 0,
             nonReturning: 0,
-            byPlatform: { hulu: 0, peacock: 0, paramount: 0 },
-            byNetwork: { ABC: 0, NBC: 0, CBS: 0, FOX: 0 }
+            byPlatform: Object.fromEntries(registry.getPlatforms().map(p => [p.id, 0])),
+            byNetwork: Object.fromEntries(registry.getNetworks().map(n => [n.id, 0]))
           };
         }
 
+        // Stats cover the selected profiles' shows
         this.showManager = new ShowManager(shows);
+        this.showManager = new ShowManager(this.showManager.getFilteredShows(this.getScopedFilters({})));
         return this.showManager.getStats();
       },
-      ['shows']
-    );
-
-    // Computed: Shows by platform
-    this.stateManager.defineComputed(
-      'showsByPlatform.hulu',
-      () => {
-        const shows = this.stateManager.get<ShowDatabase>('shows');
-        if (!shows) {
-          return {};
-        }
-        this.showManager = new ShowManager(shows);
-        return this.showManager.getShowsByPlatform('hulu');
-      },
-      ['shows']
-    );
-
-    this.stateManager.defineComputed(
-      'showsByPlatform.peacock',
-      () => {
-        const shows = this.stateManager.get<ShowDatabase>('shows');
-        if (!shows) {
-          return {};
-        }
-        this.showManager = new ShowManager(shows);
-        return this.showManager.getShowsByPlatform('peacock');
-      },
-      ['shows']
+      ['shows', 'profiles', 'ui.profiles']
     );
 
-    this.stateManager.defineComputed(
-      'showsByPlatform.paramount',
-      () => {
-        const shows = this.stateManager.get<ShowDatabase>('shows');
-        if (!shows) {
-          return {};
-        }
-        this.showManager = new ShowManager(shows);
-        return this.showManager.getShowsByPlatform('paramount');
-      },
-      ['shows']
-    );
+    // Computed: Shows by platform (one per registered platform, including ones added later)
+    registry.getPlatforms().forEach(({ id }) => this.defineShowsByPlatform(id));
+    registry.subscribe(() => {
+      registry.getPlatforms().forEach(({ id }) => this.defineShowsByPlatform(id));
+    });
 
     // Computed: Returning shows only
     this.stateManager.defineComputed(
@@ -184,7 +221,7 @@ export class ReactiveShowManager {
         }
 
         this.showManager = new ShowManager(shows);
-        const filteredShows = this.showManager.getFilteredShows(filters || {});
+        const filteredShows = this.showManager.getFilteredShows(this.getScopedFilters(filters || {}));
         
         // Group shows by air day
         const weekData: Record<AirDay, Show[]> = {
@@ -205,12 +242,36 @@ export class ReactiveShowManager {
 
         return weekData;
       },
-      ['shows', 'filters']
+      ['shows', 'filters', 'profiles', 'ui.profiles']
     );
 
     logger.debug('Computed properties defined for ReactiveShowManager');
   }
 
+  /**
+   * Define the computed shows list for a platform (skipped if already defined)
+   */
+  private defineShowsByPlatform(platform: Platform): void {
+    const path = `showsByPlatform.${platform}`;
+    if (this.definedPlatformPaths.has(path)) {
+      return;
+    }
+    this.definedPlatformPaths.add(path);
+
+    this.stateManager.defineComputed(
+      path,
+      () => {
+        const shows = this.stateManager.get<ShowDatabase>('shows');
+        if (!shows) {
+          return {};
+        }
+        this.showManager = new ShowManager(shows);
+        return this.showManager.getShowsByPlatform(platform);
+      },
+      ['shows']
+    );
+  }
+
   /**
    * Get all shows (reactive)
    */
@@ -233,8 +294,8 @@ export class ReactiveShowManager {
       total: 0,
       returning: 0,
       nonReturning: 0,
-      byPlatform: { hulu: 0, peacock: 0, paramount: 0 },
-      byNetwork: { ABC: 0, NBC: 0, CBS: 0, FOX: 0 }
+      byPlatform: Object.fromEntries(registry.getPlatforms().map(p => [p.id, 0])),
+      byNetwork: Object.fromEntries(registry.getNetworks().map(n => [n.id, 0]))
     };
   }
 
@@ -267,6 +328,13 @@ export class ReactiveShowManager {
     };
   }
 
+  /**
+   * Get the current filters
+   */
+  getFilters(): ShowFilters {
+    return this.stateManager.get<ShowFilters>('filters') || {};
+  }
+
   /**
    * Update filters (triggers reactive updates)
    */
@@ -309,11 +377,11 @@ export class ReactiveShowManager {
   }
 
   /**
-   * Clear all filters
+   * Clear all filters (every platform selected)
    */
   clearFilters(action: string = 'clear filters'): void {
     this.stateManager.set('filters', {
-      platforms: [],
+      platforms: registry.getPlatforms().map(platform => platform.id),
       networks: [],
       returning: undefined,
       airDays: [],
@@ -321,6 +389,403 @@ export class ReactiveShowManager {
     }, action);
   }
 
+  /**
+   * Update estimate settings (which networks get estimated end dates and episode counts)
+   */
+  setEstimateSettings(settings: EstimateSettings, action: string = 'update estimate settings'): void {
+    this.stateManager.set('estimates', { ...settings, networks: [...settings.networks] }, action);
+    logger.debug('Estimate settings updated', settings);
+  }
+
+  /**
+   * Get current estimate settings
+   */
+  getEstimateSettings(): EstimateSettings {
+    return this.stateManager.get<EstimateSettings>('estimates') || { enabled: false, networks: [] };
+  }
+
+  /**
+   * Get the season estimate for a show under the current settings (null if not estimated)
+   */
+  getSeasonEstimate(show: Show): SeasonEstimate | null {
+    return getSeasonEstimate(show, this.getEstimateSettings(), this.getHiatusCalendar());
+  }
+
+  /**
+   * Subscribe to estimate settings changes
+   */
+  subscribeToEstimates(callback: (settings: EstimateSettings) => void): () => void {
+    return this.stateManager.subscribe('estimates', (newValue) => {
+      callback(newValue as EstimateSettings);
+    });
+  }
+
+  /**
+   * Replace the hiatus calendar (holiday breaks, network preemptions, show skip dates)
+   */
+  setHiatusCalendar(calendar: HiatusCalendar, action: string = 'update hiatus calendar'): void {
+    this.stateManager.set('hiatus', calendar, action);
+    logger.debug('Hiatus calendar updated', calendar);
+  }
+
+  /**
+   * Get the current hiatus calendar
+   */
+  getHiatusCalendar(): HiatusCalendar {
+    return this.stateManager.get<HiatusCalendar>('hiatus') || CONFIG.HIATUS_CALENDAR;
+  }
+
+  /**
+   * Subscribe to hiatus calendar changes
+   */
+  subscribeToHiatusCalendar(callback: (calendar: HiatusCalendar) => void): () => void {
+    return this.stateManager.subscribe('hiatus', (newValue) => {
+      callback(newValue as HiatusCalendar);
+    });
+  }
+
+  /**
+   * Get watch progress for the selected profiles (everyone if none are selected)
+   * Several profiles share the episodes all of them have watched
+   */
+  getWatchProgress(): WatchProgress {
+    const progress = this.stateManager.get<HouseholdProgress>('progress') || {};
+    return getSharedProgress(this.getProgressProfileIds().map(id => progress[id] ?? {}));
+  }
+
+  /**
+   * Replace the selected profiles' progress for the shows in the given progress
+   * Progress for other shows is kept
+   */
+  importWatchProgress(progress: WatchProgress, action: string = 'import watch progress'): void {
+    if (Object.keys(progress).length === 0) {
+      return;
+    }
+    this.updateProfileProgress(current => ({ ...current, ...progress }), action);
+  }
+
+  /**
+   * Get the watched episode numbers for a show's current season
+   */
+  getWatchedEpisodes(show: Show): number[] {
+    return getWatchedEpisodes(this.getWatchProgress(), show.t, show.s);
+  }
+
+  /**
+   * Check whether an episode of a show's current season is watched
+   */
+  isEpisodeWatched(show: Show, episode: number): boolean {
+    return isEpisodeWatched(this.getWatchProgress(), show.t, show.s, episode);
+  }
+
+  /**
+   * Mark an episode of a show's current season as watched or unwatched
+   * for every selected profile (everyone if none are selected)
+   */
+  setEpisodeWatched(show: Show, episode: number, watched: boolean, action?: string): void {
+    const label = `${show.t} E${episode}`;
+    this.updateProfileProgress(
+      current => setEpisodeWatched(current, show.t, show.s, episode, watched),
+      action || (watched ? `mark watched: ${label}` : `mark unwatched: ${label}`)
+    );
+  }
+
+  /**
+   * Toggle whether an episode of a show's current season is watched
+   */
+  toggleEpisodeWatched(show: Show, episode: number): void {
+    this.setEpisodeWatched(show, episode, !this.isEpisodeWatched(show, episode));
+  }
+
+  /**
+   * Apply a progress update to every selected profile (everyone if none are selected)
+   */
+  private updateProfileProgress(
+    update: (progress: WatchProgress) => WatchProgress,
+    action: string
+  ): void {
+    this.stateManager.set('progress', this.getUpdatedProgress(update), action);
+    logger.debug('Watch progress updated');
+  }
+
+  /**
+   * Get the household progress with an update applied to every selected profile
+   */
+  private getUpdatedProgress(update: (progress: WatchProgress) => WatchProgress): HouseholdProgress {
+    const progress = { ...this.stateManager.get<HouseholdProgress>('progress') };
+    this.getProgressProfileIds().forEach(id => {
+      progress[id] = update(progress[id] ?? {});
+    });
+    return progress;
+  }
+
+  /**
+   * Get the profiles whose progress is shown (the selected ones, or everyone)
+   */
+  private getProgressProfileIds(): string[] {
+    const selected = this.getSelectedProfileIds();
+    return selected.length > 0 ? selected : this.getProfiles().map(profile => profile.id);
+  }
+
+  /**
+   * Summarize progress through a show's current season (null if it has no episode list)
+   */
+  getProgressSummary(
+    show: Show,
+    estimate: SeasonEstimate | null = this.getSeasonEstimate(show)
+  ): ProgressSummary | null {
+    const schedule = buildEpisodeSchedule(withEstimate(show, estimate), this.getHiatusCalendar());
+    if (!schedule || schedule.episodes.length === 0) {
+      return null;
+    }
+    return getProgressSummary(schedule, this.getWatchedEpisodes(show));
+  }
+
+  /**
+   * Subscribe to watch progress changes
+   */
+  subscribeToProgress(callback: (progress: WatchProgress) => void): () => void {
+    const unsubscribers = ['progress', 'ui.profiles'].map(path =>
+      this.stateManager.subscribe(path, () => callback(this.getWatchProgress()))
+    );
+    return (): void => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Get all household profiles
+   */
+  getProfiles(): Profile[] {
+    return this.stateManager.get<Profile[]>('profiles') || [];
+  }
+
+  /**
+   * Get a profile by ID
+   */
+  getProfile(id: string): Profile | undefined {
+    return this.getProfiles().find(profile => profile.id === id);
+  }
+
+  /**
+   * Add a household profile (following no shows)
+   */
+  addProfile(name: string, action: string = `add profile: ${name}`): Profile | null {
+    const profiles = this.getProfiles();
+    const profile = createProfile(name, profiles.map(p => p.id));
+    if (!profile) {
+      logger.warn(`Invalid profile name: "${name}"`);
+      return null;
+    }
+    this.stateManager.set('profiles', [...profiles, profile], action);
+    logger.info(`Profile added: ${profile.id}`);
+    return profile;
+  }
+
+  /**
+   * Remove a household profile along with its watch progress
+   */
+  removeProfile(id: string, action: string = `remove profile: ${id}`): void {
+    const progress = Object.fromEntries(
+      Object.entries(this.stateManager.get<HouseholdProgress>('progress') || {})
+        .filter(([profileId]) => profileId !== id)
+    );
+    this.stateManager.batch({
+      'profiles': this.getProfiles().filter(profile => profile.id !== id),
+      'ui.profiles': this.getSelectedProfileIds().filter(selected => selected !== id),
+      'progress': progress
+    }, action);
+  }
+
+  /**
+   * Get the selected profile IDs (empty = whole household, every show)
+   */
+  getSelectedProfileIds(): string[] {
+    return this.stateManager.get<string[]>('ui.profiles') || [];
+  }
+
+  /**
+   * Select the profiles to scope views to
+   *
+   * One profile shows that person's shows and restores their saved filter preferences;
+   * several profiles show only the shows all of them follow (shared view).
+   */
+  selectProfiles(ids: string[], action: string = `select profiles: ${ids.join(', ') || 'everyone'}`): void {
+    const updates: Record<string, unknown> = { 'ui.profiles': ids };
+
+    const saved = ids.length === 1 && ids[0] ? this.getProfile(ids[0])?.filters : undefined;
+    if (saved) {
+      updates['filters'] = {
+        ...this.stateManager.get<ShowFilters>('filters'),
+        platforms: saved.platforms,
+        returning: saved.showNonReturning ? undefined : true
+      };
+    }
+
+    this.stateManager.batch(updates, action);
+    logger.debug('Profiles selected', ids);
+  }
+
+  /**
+   * Get the saved filter preferences of the selected profile (null unless exactly one is selected)
+   */
+  getSelectedProfileFilters(): ProfileFilters | null {
+    const [id, ...rest] = this.getSelectedProfileIds();
+    return id && rest.length === 0 ? this.getProfile(id)?.filters ?? null : null;
+  }
+
+  /**
+   * Save filter preferences to the selected profile (ignored unless exactly one is selected)
+   */
+  saveProfileFilters(filters: ProfileFilters, action: string = 'save profile filters'): void {
+    const [id, ...rest] = this.getSelectedProfileIds();
+    const current = this.getSelectedProfileFilters();
+    if (!id || rest.length > 0 || JSON.stringify(current) === JSON.stringify(filters)) {
+      return;
+    }
+    this.updateProfile(id, profile => ({ ...profile, filters }), action);
+  }
+
+  /**
+   * Check whether a profile follows a show
+   */
+  isFollowing(profileId: string, title: string): boolean {
+    return this.getProfile(profileId)?.followed.includes(title) ?? false;
+  }
+
+  /**
+   * Follow or unfollow a show for a profile
+   */
+  setFollowing(profileId: string, title: string, following: boolean, action?: string): void {
+    this.updateProfile(
+      profileId,
+      profile => setFollowing(profile, title, following),
+      action || `${following ? 'follow' : 'unfollow'}: ${title} (${profileId})`
+    );
+  }
+
+  /**
+   * Set the evenings a profile is free to watch
+   */
+  setProfileEvenings(profileId: string, evenings: AirDay[], action?: string): void {
+    this.updateProfile(
+      profileId,
+      profile => ({ ...profile, evenings }),
+      action || `set free evenings (${profileId}): ${evenings.join(', ') || 'none'}`
+    );
+  }
+
+  /**
+   * Get the profiles watching together (the selected ones, or everyone)
+   */
+  getWatchingProfiles(): Profile[] {
+    const ids = this.getProgressProfileIds();
+    return this.getProfiles().filter(profile => ids.includes(profile.id));
+  }
+
+  /**
+   * Get the titles in scope for the selected profiles (null = every show)
+   */
+  getScopedTitles(): string[] | null {
+    const ids = this.getSelectedProfileIds();
+    if (ids.length === 0) {
+      return null;
+    }
+    const profiles = ids
+      .map(id => this.getProfile(id))
+      .filter((profile): profile is Profile => profile !== undefined);
+    return getSharedTitles(profiles);
+  }
+
+  /**
+   * Check whether a show is in scope for the selected profiles
+   */
+  isInProfileScope(show: Show): boolean {
+    const titles = this.getScopedTitles();
+    return titles === null || titles.includes(show.t);
+  }
+
+  /**
+   * Subscribe to profile changes (profiles, followed shows or the selection)
+   */
+  subscribeToProfiles(callback: (profiles: Profile[]) => void): () => void {
+    const unsubscribers = ['profiles', 'ui.profiles'].map(path =>
+      this.stateManager.subscribe(path, () => callback(this.getProfiles()))
+    );
+    return (): void => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Replace one profile
+   */
+  private updateProfile(id: string, update: (profile: Profile) => Profile, action: string): void {
+    this.stateManager.set(
+      'profiles',
+      this.getProfiles().map(profile => (profile.id === id ? update(profile) : profile)),
+      action
+    );
+  }
+
+  /**
+   * Add the selected profiles' followed titles to a set of filters
+   */
+  private getScopedFilters(filters: ShowFilters): ShowFilters {
+    const titles = this.getScopedTitles();
+    return titles === null ? filters : { ...filters, titles };
+  }
+
+  /**
+   * Switch the week view between broadcast days and the days episodes can be streamed
+   */
+  setWatchableMode(
+    enabled: boolean,
+    action: string = enabled ? 'show watchable days' : 'show broadcast days'
+  ): void {
+    this.stateManager.set('ui.watchable', enabled, action);
+    logger.debug(`Watchable mode ${enabled ? 'on' : 'off'}`);
+  }
+
+  /**
+   * Whether the week view places shows on the day episodes can be streamed
+   */
+  isWatchableMode(): boolean {
+    return this.stateManager.get<boolean>('ui.watchable') ?? false;
+  }
+
+  /**
+   * Subscribe to watchable mode changes
+   */
+  subscribeToWatchableMode(callback: (enabled: boolean) => void): () => void {
+    return this.stateManager.subscribe('ui.watchable', (newValue) => {
+      callback(newValue as boolean);
+    });
+  }
+
+  /**
+   * Limit the week view to premieres and finales (of any kind) in the selected week
+   */
+  setMilestonesOnly(
+    enabled: boolean,
+    action: string = enabled ? 'show premieres and finales only' : 'show all episodes'
+  ): void {
+    this.stateManager.set('ui.milestonesOnly', enabled, action);
+    logger.debug(`Premieres and finales only ${enabled ? 'on' : 'off'}`);
+  }
+
+  /**
+   * Whether the week view only lists premieres and finales
+   */
+  isMilestonesOnly(): boolean {
+    return this.stateManager.get<boolean>('ui.milestonesOnly') ?? false;
+  }
+
+  /**
+   * Subscribe to premieres-and-finales filter changes
+   */
+  subscribeToMilestonesOnly(callback: (enabled: boolean) => void): () => void {
+    return this.stateManager.subscribe('ui.milestonesOnly', (newValue) => {
+      callback(newValue as boolean);
+    });
+  }
+
   /**
    * Set week offset (0 = current week, -1 = previous week, 1 = next week)
    */
@@ -379,6 +844,156 @@ export class ReactiveShowManager {
     });
   }
 
+  /**
+   * Set month offset (0 = current month, -1 = previous month, 1 = next month)
+   */
+  setMonthOffset(offset: number, action: string = `set month offset: ${offset}`): void {
+    this.stateManager.set('ui.monthOffset', offset, action);
+  }
+
+  /**
+   * Get current month offset
+   */
+  getMonthOffset(): number {
+    return this.stateManager.get<number>('ui.monthOffset') || 0;
+  }
+
+  /**
+   * Navigate to previous month
+   */
+  previousMonth(action: string = 'navigate to previous month'): void {
+    this.setMonthOffset(this.getMonthOffset() - 1, action);
+  }
+
+  /**
+   * Navigate to next month
+   */
+  nextMonth(action: string = 'navigate to next month'): void {
+    this.setMonthOffset(this.getMonthOffset() + 1, action);
+  }
+
+  /**
+   * Reset to current month
+   */
+  currentMonth(action: string = 'navigate to current month'): void {
+    this.setMonthOffset(0, action);
+  }
+
+  /**
+   * Subscribe to month offset changes
+   */
+  subscribeToMonthOffset(observer: (offset: number) => void): () => void {
+    return this.stateManager.subscribe('ui.monthOffset', () => {
+      observer(this.getMonthOffset());
+    });
+  }
+
+  /**
+   * Set the current view (all shows, week, grid or month); leaving a view unfocuses its show
+   */
+  setCurrentView(view: DisplayMode, action: string = `show ${view} view`): void {
+    if (view === this.getCurrentView()) {
+      return;
+    }
+    this.stateManager.batch({ 'ui.currentView': view, 'ui.focusedShow': null }, action);
+  }
+
+  /**
+   * Get the current view
+   */
+  getCurrentView(): DisplayMode {
+    const view = this.stateManager.get<string>('ui.currentView');
+    return view === 'week' || view === 'grid' || view === 'month' ? view : 'all';
+  }
+
+  /**
+   * Subscribe to view changes
+   */
+  subscribeToCurrentView(callback: (view: DisplayMode) => void): () => void {
+    return this.stateManager.subscribe('ui.currentView', () => {
+      callback(this.getCurrentView());
+    });
+  }
+
+  /**
+   * Focus a show in the all shows view (null to unfocus)
+   */
+  setFocusedShow(id: number | null, action: string = id === null ? 'unfocus show' : `focus show ${id}`): void {
+    if (id === this.getFocusedShowId()) {
+      return;
+    }
+    const updates: Record<string, unknown> = { 'ui.focusedShow': id };
+    if (id !== null) {
+      updates['ui.currentView'] = 'all';
+    }
+    this.stateManager.batch(updates, action);
+  }
+
+  /**
+   * Get the focused show's ID, if any
+   */
+  getFocusedShowId(): number | null {
+    return this.stateManager.get<number | null>('ui.focusedShow') ?? null;
+  }
+
+  /**
+   * Subscribe to focused show changes
+   */
+  subscribeToFocusedShow(callback: (id: number | null) => void): () => void {
+    return this.stateManager.subscribe('ui.focusedShow', () => {
+      callback(this.getFocusedShowId());
+    });
+  }
+
+  /**
+   * Get the view, week, month, focused show and filters as a route (kept in the URL)
+   */
+  getRouteState(): RouteState {
+    const showId = this.getFocusedShowId();
+    return {
+      view: this.getCurrentView(),
+      weekOffset: this.getWeekOffset(),
+      monthOffset: this.getMonthOffset(),
+      ...(showId !== null ? { showId } : {}),
+      filters: this.getFilters()
+    };
+  }
+
+  /**
+   * Restore the view, week, month, focused show and filters from a route as a single change
+   * Parts matching the current state are left alone (no change when nothing differs);
+   * profile scoping of the filters is kept.
+   */
+  restoreRouteState(route: RouteState, action: string = 'open link'): boolean {
+    const current = this.getRouteState();
+    const updates: Record<string, unknown> = {};
+
+    if (route.view !== current.view) {
+      updates['ui.currentView'] = route.view;
+    }
+    if (route.weekOffset !== undefined && route.weekOffset !== current.weekOffset) {
+      updates['ui.weekOffset'] = route.weekOffset;
+    }
+    if (route.monthOffset !== undefined && route.monthOffset !== current.monthOffset) {
+      updates['ui.monthOffset'] = route.monthOffset;
+    }
+    if ((route.showId ?? null) !== (current.showId ?? null)) {
+      updates['ui.focusedShow'] = route.showId ?? null;
+    }
+
+    if (!isSameRouteFilters(route.filters, current.filters)) {
+      const { titles } = current.filters;
+      updates['filters'] = { ...route.filters, ...(titles ? { titles } : {}) };
+      updates['ui.searchTerm'] = route.filters.searchTerm ?? '';
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return false;
+    }
+    this.stateManager.batch(updates, action);
+    return true;
+  }
+
   /**
    * Update a show (triggers reactive updates, enables undo/redo)
    */
@@ -392,7 +1007,7 @@ export class ReactiveShowManager {
 
     const updatedShows = {
       ...shows,
-      [id]: { ...shows[id], ...updates }
+      [id]: updateShowSeason(shows[id], updates)
     };
 
     const actionDescription = action || `update show: ${shows[id].t}`;
@@ -453,8 +1068,9 @@ export class ReactiveShowManager {
 
     Object.entries(updates).forEach(([id, update]) => {
       const showId = parseInt(id);
-      if (updatedShows[showId]) {
-        updatedShows[showId] = { ...updatedShows[showId], ...update };
+      const show = updatedShows[showId];
+      if (show) {
+        updatedShows[showId] = updateShowSeason(show, update);
       }
     });
 
@@ -470,6 +1086,19 @@ export class ReactiveShowManager {
     logger.info(`Replaced all shows: ${Object.keys(shows).length} shows`);
   }
 
+  /**
+   * Replace all shows and import watch progress as a single undoable change
+   * Progress replaces the selected profiles' progress for the shows it covers
+   */
+  importShows(shows: ShowDatabase, progress: WatchProgress, action: string = 'import shows'): void {
+    const updates: Record<string, unknown> = { 'shows': shows };
+    if (Object.keys(progress).length > 0) {
+      updates['progress'] = this.getUpdatedProgress(current => ({ ...current, ...progress }));
+    }
+    this.stateManager.batch(updates, action);
+    logger.info(`Imported shows: ${Object.keys(shows).length} shows`);
+  }
+
   /**
    * Subscribe to show changes
    */
@@ -483,8 +1112,9 @@ export class ReactiveShowManager {
    * Subscribe to filtered shows changes
    */
   subscribeToFilteredShows(callback: (shows: ShowDatabase) => void): () => void {
-    return this.stateManager.subscribe('filteredShows', (newValue) => {
-      callback(newValue as ShowDatabase);
+    // Computed paths notify without a value, so read the recomputed one
+    return this.stateManager.subscribe('filteredShows', () => {
+      callback(this.getFilteredShows());
     });
   }
 
@@ -492,8 +1122,8 @@ export class ReactiveShowManager {
    * Subscribe to stats changes
    */
   subscribeToStats(callback: (stats: ShowStats) => void): () => void {
-    return this.stateManager.subscribe('stats', (newValue) => {
-      callback(newValue as ShowStats);
+    return this.stateManager.subscribe('stats', () => {
+      callback(this.getStats());
     });
   }
 
@@ -510,8 +1140,8 @@ export class ReactiveShowManager {
    * Subscribe to week view data changes
    */
   subscribeToWeekView(callback: (weekData: Record<AirDay, Show[]>) => void): () => void {
-    return this.stateManager.subscribe('weekViewData', (newValue) => {
-      callback(newValue as Record<AirDay, Show[]>);
+    return this.stateManager.subscribe('weekViewData', () => {
+      callback(this.getWeekViewData());
     });
   }
 
@@ -570,6 +1200,24 @@ export class ReactiveShowManager {
     return loaded;
   }
 
+  /**
+   * Get the state with its undo history (for full backups)
+   */
+  exportStateSnapshot(): StateSnapshot {
+    return this.stateManager.exportSnapshot();
+  }
+
+  /**
+   * Restore the state and undo history from a full backup
+   */
+  importStateSnapshot(snapshot: StateSnapshot): boolean {
+    const imported = this.stateManager.importSnapshot(snapshot);
+    if (imported) {
+      logger.info('ReactiveShowManager state restored from backup');
+    }
+    return imported;
+  }
+
   /**
    * Clear persisted state
    */
@@ -4,6 +4,7 @@
  * persistence, and undo/redo functionality.
  */
 
+import { StateHistoryEntry, StateSnapshot } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -16,15 +17,6 @@ export type StateObserver<T = unknown> = (newValue: T, oldValue: T, path: string
  */
 export type ComputedGetter<T = unknown> = () => T;
 
-/**
- * Type for state history entries
- */
-interface StateHistoryEntry {
-  state: Record<string, unknown>;
-  timestamp: number;
-  action: string;
-}
-
 /**
  * Configuration options for StateManager
  */
@@ -444,6 +436,85 @@ export class StateManager {
     }
   }
 
+  /**
+   * Load selected paths from localStorage, keeping the rest of the current state
+   * The restored values become part of the current history entry, so they survive undo
+   */
+  loadPaths(paths: string[]): boolean {
+    try {
+      const stored = localStorage.getItem(this.config.persistenceKey);
+      if (!stored) {
+        return false;
+      }
+
+      const snapshot = JSON.parse(stored) as Record<string, unknown>;
+      const restored = paths.filter(path => Object.prototype.hasOwnProperty.call(snapshot, path));
+
+      this.isRestoringHistory = true;
+      restored.forEach(path => this.set(path, snapshot[path]));
+      this.isRestoringHistory = false;
+
+      const entry = this.history[this.historyIndex];
+      if (entry) {
+        entry.state = this.createSnapshot();
+      }
+
+      logger.info('Paths loaded from localStorage', { paths: restored });
+      return restored.length > 0;
+    } catch (error) {
+      this.isRestoringHistory = false;
+      logger.error('Failed to load persisted paths:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the state with its undo history (for full backups)
+   */
+  exportSnapshot(): StateSnapshot {
+    return {
+      state: this.createSnapshot(),
+      history: this.history.map(entry => ({
+        ...entry,
+        state: this.deepClone(entry.state) as Record<string, unknown>
+      })),
+      historyIndex: this.historyIndex
+    };
+  }
+
+  /**
+   * Replace the state and undo history with a snapshot (e.g., from a full backup)
+   * History beyond the configured size is dropped from the oldest end.
+   */
+  importSnapshot(snapshot: StateSnapshot): boolean {
+    const { state, history, historyIndex } = snapshot;
+    const isValid = !!state && typeof state === 'object' &&
+      Array.isArray(history) &&
+      history.every(entry => !!entry?.state && typeof entry.state === 'object' && typeof entry.action === 'string') &&
+      Number.isInteger(historyIndex) && historyIndex >= -1 && historyIndex < history.length;
+    if (!isValid) {
+      logger.warn('Cannot import snapshot: malformed state or history');
+      return false;
+    }
+
+    const dropped = Math.max(0, history.length - this.config.maxHistorySize);
+    this.history = this.config.enableHistory
+      ? history.slice(dropped).map(entry => ({
+        ...entry,
+        state: this.deepClone(entry.state) as Record<string, unknown>
+      }))
+      : [];
+    this.historyIndex = this.config.enableHistory ? Math.max(historyIndex - dropped, -1) : -1;
+    this.restoreSnapshot(state);
+
+    if (this.config.enablePersistence) {
+      this.persist();
+    }
+
+    logger.info('Snapshot imported', { index: this.historyIndex, size: this.history.length });
+    return true;
+  }
+
   /**
    * Clear persisted state
    */
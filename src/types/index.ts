@@ -2,8 +2,10 @@
  * Core data types for the TV Show Guide application
  */
 
-export type Platform = 'hulu' | 'peacock' | 'paramount';
-export type Network = 'ABC' | 'NBC' | 'CBS' | 'FOX';
+/** Streaming platform ID from the platform registry (e.g., 'hulu') */
+export type Platform = string;
+/** Network ID from the network registry (e.g., 'ABC') */
+export type Network = string;
 export type AirDay = 'Sunday' | 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday';
 
 /**
@@ -28,6 +30,63 @@ export interface Show {
   air: AirDay | '';
   /** Whether show is returning next season */
   ret: boolean;
+  /** Season history; the flat season fields above mirror the current season */
+  seasons?: SeasonRecord[];
+  /** Platforms carrying the show; the primary platform `c` is implied if missing */
+  avail?: Availability[];
+  /** Broadcast timeslot on the air day (unknown if missing) */
+  airtime?: Airtime;
+}
+
+/**
+ * Broadcast feed a start time is quoted in (e.g., "8/7c" is 8:00 PM ET)
+ */
+export type TimeFeed = 'ET' | 'CT' | 'MT' | 'PT';
+
+/**
+ * A show's broadcast timeslot
+ */
+export interface Airtime {
+  /** Start time on the feed's clock (24-hour HH:MM) */
+  start: string;
+  /** Runtime of the slot in minutes, including ads */
+  runtime: number;
+  /** Feed the start time is quoted in */
+  feed: TimeFeed;
+}
+
+/**
+ * How a platform carries a show
+ * - next-day: new episodes as they air, on the platform's availability rule
+ * - full-season-later: the whole season arrives after it finishes airing
+ * - library: past seasons only
+ */
+export type AvailabilityKind = 'next-day' | 'full-season-later' | 'library';
+
+/**
+ * A platform where a show can be streamed
+ */
+export interface Availability {
+  /** Platform carrying the show */
+  platform: Platform;
+  /** How the platform carries it */
+  kind: AvailabilityKind;
+}
+
+/**
+ * A single season in a show's history
+ */
+export interface SeasonRecord {
+  /** Season number (null if not set) */
+  s: number | null;
+  /** Season start date (ISO format YYYY-MM-DD) */
+  start: string;
+  /** Season end date (ISO format YYYY-MM-DD) */
+  end: string;
+  /** Number of episodes in season (null if not set) */
+  eps: number | null;
+  /** Day of week the season airs */
+  air: AirDay | '';
 }
 
 /**
@@ -46,8 +105,551 @@ export interface SeasonData {
   air?: AirDay | '';
   /** Whether show is returning */
   ret?: boolean;
+  /** Season history (flat fields above describe the current season) */
+  seasons?: SeasonRecord[];
+  /** Streaming availabilities */
+  avail?: Availability[];
+  /** Broadcast timeslot */
+  airtime?: Airtime;
+  /** Watched episode numbers per season */
+  watched?: SeasonProgress;
+}
+
+/**
+ * A single episode of a season with its expected air date
+ */
+export interface Episode {
+  /** Season number (null if not set) */
+  season: number | null;
+  /** Episode number within the season (1-based) */
+  number: number;
+  /** Expected air date (ISO format YYYY-MM-DD) */
+  airDate: string;
+}
+
+/**
+ * An episode with the date it can be streamed
+ */
+export interface WatchableEpisode extends Episode {
+  /** First day the episode can be streamed (ISO format YYYY-MM-DD) */
+  watchDate: string;
+}
+
+/**
+ * When a platform makes new episodes available
+ * - same-day: the day of broadcast
+ * - next-day: the day after broadcast
+ * - days-later: a fixed number of days after broadcast
+ * - full-season: every episode the day after the finale
+ */
+export type AvailabilityRule =
+  | { type: 'same-day' }
+  | { type: 'next-day' }
+  | { type: 'days-later'; days: number }
+  | { type: 'full-season' };
+
+/**
+ * Per-episode schedule derived from a show's season data
+ */
+export interface EpisodeSchedule {
+  /** Season number (null if not set) */
+  season: number | null;
+  /** Episodes in airing order */
+  episodes: Episode[];
+  /** Whether the episode count came from the network defaults rather than the show */
+  usesDefaultCount: boolean;
+}
+
+/**
+ * Where a week falls in a show's season:
+ * - premiere: the first episode airs
+ * - regular: an episode airs, with the next one a week or so later
+ * - midseason-finale: the last episode before a long break
+ * - season-finale: the last episode of a returning show's season
+ * - series-finale: the last episode of a show that is not returning
+ */
+export type SeasonMilestone = 'premiere' | 'regular' | 'midseason-finale' | 'season-finale' | 'series-finale';
+
+/**
+ * Watched episode numbers per season, keyed by season number ('?' if unnumbered)
+ */
+export type SeasonProgress = Record<string, number[]>;
+
+/**
+ * Watch progress for every show, keyed by show title
+ */
+export type WatchProgress = Record<string, SeasonProgress>;
+
+/**
+ * Watch progress per household profile, keyed by profile ID
+ */
+export type HouseholdProgress = Record<string, WatchProgress>;
+
+/**
+ * Filter preferences saved with a household profile
+ */
+export interface ProfileFilters {
+  /** Platforms shown */
+  platforms: Platform[];
+  /** Whether non-returning shows are shown */
+  showNonReturning: boolean;
+}
+
+/**
+ * A household member with their own watchlist
+ */
+export interface Profile {
+  /** Unique identifier (e.g., 'nikki') */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Titles of followed shows */
+  followed: string[];
+  /** Filter preferences, restored when the profile is selected on its own */
+  filters?: ProfileFilters;
+  /** Evenings free to watch (default: every evening) */
+  evenings?: AirDay[];
+}
+
+/**
+ * An episode proposed for a co-watching night
+ */
+export interface CoWatchEpisode extends Episode {
+  /** Show title */
+  title: string;
+}
+
+/**
+ * Weekly plan of which episodes to watch together on which nights
+ */
+export interface CoWatchPlan {
+  /** First day of the week (ISO format YYYY-MM-DD) */
+  start: string;
+  /** Last day of the week (ISO format YYYY-MM-DD) */
+  end: string;
+  /** Names of the profiles watching together */
+  profiles: string[];
+  /** Evenings everyone is free */
+  evenings: AirDay[];
+  /** Most episodes proposed for one night */
+  maxEpisodesPerNight: number;
+  /** Episodes proposed for each night */
+  nights: Record<AirDay, CoWatchEpisode[]>;
+  /** Episodes that did not fit on a free evening this week */
+  unscheduled: CoWatchEpisode[];
+}
+
+/**
+ * A show drawn on the evening timeslot grid
+ */
+export interface GridBlock {
+  /** Show airing in the slot */
+  show: Show;
+  /** First half-hour row the show covers (0-based) */
+  row: number;
+  /** Number of rows the show's runtime spans */
+  span: number;
+  /** Side-by-side lane within the day, for shows sharing rows (0-based) */
+  lane: number;
+  /** Titles of shows whose timeslots overlap this one */
+  conflicts: string[];
+}
+
+/**
+ * One day column of the evening timeslot grid
+ */
+export interface GridDay {
+  /** Lanes needed to draw overlapping shows side by side */
+  lanes: number;
+  /** Shows with a timeslot in the grid window */
+  blocks: GridBlock[];
+  /** Shows without a timeslot, or airing outside the grid window */
+  outside: Show[];
+}
+
+/**
+ * Evening timeslot grid: days as columns, time slots as rows
+ */
+export interface TimeslotGrid {
+  /** Start of each row in minutes after midnight (Eastern clock) */
+  slots: number[];
+  /** Length of a row in minutes */
+  slotMinutes: number;
+  /** Layout of each day */
+  days: Record<AirDay, GridDay>;
+}
+
+/**
+ * Episodes airing in one week of the airing heatmap
+ */
+export interface HeatmapWeek {
+  /** First day of the week, a Sunday (ISO format YYYY-MM-DD) */
+  start: string;
+  /** Weeks from the current week (the week view's offset) */
+  offset: number;
+  /** Episodes airing per platform */
+  counts: Record<Platform, number>;
+  /** Episodes airing on every platform */
+  total: number;
+}
+
+/**
+ * Episodes airing each week of a broadcast year, split by platform
+ */
+export interface AiringHeatmap {
+  /** Weeks in order */
+  weeks: HeatmapWeek[];
+  /** Platforms with episodes airing, in registry order */
+  platforms: Platform[];
+  /** Most episodes airing on one platform in one week */
+  max: number;
+}
+
+/**
+ * How the season timeline groups its bars
+ */
+export type TimelineGrouping = 'platform' | 'network';
+
+/**
+ * Season timeline zoom: weeks within months, or months across a season
+ */
+export type TimelineScale = 'month' | 'season';
+
+/**
+ * A show's season drawn as a bar on the season timeline
+ */
+export interface TimelineBar {
+  /** Show ID */
+  id: number;
+  /** Show as entered */
+  show: Show;
+  /** Season start date (ISO format YYYY-MM-DD) */
+  start: string;
+  /** Season end date, entered or projected (ISO format YYYY-MM-DD) */
+  end: string;
+  /** Whether the end date is projected from the air day and episode count */
+  projected: boolean;
+}
+
+/**
+ * Bars sharing a platform or network
+ */
+export interface TimelineGroup {
+  /** Platform or network ID */
+  id: Platform | Network;
+  /** Bars by start date */
+  bars: TimelineBar[];
+}
+
+/**
+ * Season timeline: a bar per season over the months they cover
+ */
+export interface SeasonTimeline {
+  /** First day drawn, the start of a month (ISO format YYYY-MM-DD) */
+  start: string;
+  /** Last day drawn, the end of a month (ISO format YYYY-MM-DD) */
+  end: string;
+  /** Today (ISO format YYYY-MM-DD) */
+  today: string;
+  /** Groups in registry order */
+  groups: TimelineGroup[];
+  /** Shows without a start date, or without an end date that can be projected */
+  undated: Show[];
+}
+
+/**
+ * A labelled mark on the season timeline's axis
+ */
+export interface TimelineTick {
+  /** Date marked (ISO format YYYY-MM-DD) */
+  date: string;
+  /** Axis label */
+  label: string;
+}
+
+/**
+ * A show listed on a day of the month calendar
+ */
+export interface MonthCalendarEntry {
+  /** Show ID */
+  id: number;
+  /** Show as entered */
+  show: Show;
+  /** Where the week falls in the season (null for a week without an episode) */
+  milestone: SeasonMilestone | null;
+  /** Whether the milestone depends on estimated season data */
+  milestoneEstimated: boolean;
+  /** Break keeping the show off the air that week (null when it airs or has no break) */
+  hiatus: HiatusPeriod | null;
+}
+
+/**
+ * A day cell of the month calendar
+ */
+export interface MonthCalendarDay {
+  /** Date (ISO format YYYY-MM-DD) */
+  date: string;
+  /** Whether the day belongs to the month (days from the weeks before and after do not) */
+  inMonth: boolean;
+  /** Whether the day is today */
+  today: boolean;
+  /** Shows airing that day, by timeslot */
+  entries: MonthCalendarEntry[];
+}
+
+/**
+ * Month calendar: the weeks (Sunday to Saturday) covering a month
+ */
+export interface MonthCalendar {
+  /** Month key (YYYY-MM) */
+  month: string;
+  /** Seven days per week */
+  weeks: MonthCalendarDay[][];
+}
+
+/**
+ * Progress through a season's derived episode list
+ */
+export interface ProgressSummary {
+  /** Episodes in the season */
+  total: number;
+  /** Episodes aired so far */
+  aired: number;
+  /** Episodes marked watched */
+  watched: number;
+  /** Aired episodes not yet watched */
+  behind: number;
+}
+
+/**
+ * Season fields the estimation engine can fill in
+ */
+export type EstimableField = 'end' | 'eps';
+
+/**
+ * Season end and episode count with estimated values filled in
+ */
+export interface SeasonEstimate {
+  /** Season end date, entered or estimated (ISO format YYYY-MM-DD) */
+  end: string;
+  /** Number of episodes, entered or estimated */
+  eps: number | null;
+  /** Fields whose values were estimated rather than entered by the user */
+  estimated: EstimableField[];
+}
+
+/**
+ * Settings controlling which shows receive season estimates
+ */
+export interface EstimateSettings {
+  /** Whether estimation is turned on */
+  enabled: boolean;
+  /** Networks whose shows are estimated */
+  networks: Network[];
+}
+
+/**
+ * A break in a broadcast season when no new episodes air (dates inclusive)
+ */
+export interface HiatusPeriod {
+  /** First day of the break (ISO format YYYY-MM-DD) */
+  start: string;
+  /** Last day of the break (ISO format YYYY-MM-DD) */
+  end: string;
+  /** Optional description (e.g., "Thanksgiving week") */
+  label?: string;
+}
+
+/**
+ * Break calendar used when projecting episode air dates
+ */
+export interface HiatusCalendar {
+  /** Breaks that apply to every show */
+  global: HiatusPeriod[];
+  /** Breaks (e.g., sports preemptions) that apply to a network's shows */
+  networks: Partial<Record<Network, HiatusPeriod[]>>;
+  /** Skip dates that apply to a single show, keyed by show title */
+  shows: Record<string, HiatusPeriod[]>;
+}
+
+/**
+ * Which shows a break applies to: every show, a network's shows or a single show
+ */
+export type HiatusScope = 'global' | 'network' | 'show';
+
+/**
+ * A platform or network in the registry
+ */
+export interface RegistryEntry {
+  /** Unique ID stored on shows (e.g., 'hulu', 'ABC') */
+  id: string;
+  /** Display name (e.g., 'Paramount+') */
+  name: string;
+  /** Chip or badge color (CSS color) */
+  color: string;
+  /** Default episodes per season when a show has no count (null if none) */
+  defaultEpisodes: number | null;
+  /** Platforms only: when new episodes can be streamed (next-day if not set) */
+  availability?: AvailabilityRule;
+}
+
+/**
+ * Kinds of registry entries
+ */
+export type RegistryKind = 'platform' | 'network';
+
+/**
+ * Subscription tiers offered by platforms
+ */
+export type PriceTier = 'ads' | 'ad-free';
+
+/**
+ * Monthly price per tier for a platform (null if the tier is not offered)
+ */
+export type PlatformPricing = Record<PriceTier, number | null>;
+
+/**
+ * Subscriptions for one month of a cost plan
+ */
+export interface CostPlanMonth {
+  /** Month key (YYYY-MM) */
+  month: string;
+  /** Platforms to subscribe to this month */
+  platforms: Platform[];
+  /** Titles watched on each subscribed platform this month */
+  shows: Record<Platform, string[]>;
+  /** Total price of this month's subscriptions */
+  cost: number;
+}
+
+/**
+ * Month-by-month subscription plan covering the followed shows
+ */
+export interface CostPlan {
+  /** Preferred tier the plan was priced with */
+  tier: PriceTier;
+  /** Every month in the planning window, in order */
+  months: CostPlanMonth[];
+  /** Total price across the planning window */
+  total: number;
+  /** Titles airing in the window that no priced platform can cover */
+  uncovered: string[];
+}
+
+/**
+ * A stretch of days a platform is needed, and the shows that need it
+ */
+export interface RotationWindow {
+  /** First day needed (ISO format) */
+  start: string;
+  /** Last day needed (ISO format) */
+  end: string;
+  /** Titles watched on the platform in this window */
+  shows: string[];
+}
+
+/**
+ * A stretch of days with nothing to watch on a platform (ISO dates, inclusive)
+ */
+export interface RotationGap {
+  start: string;
+  end: string;
+}
+
+/**
+ * When a platform is needed and when it can be cancelled
+ */
+export interface PlatformRotation {
+  platform: Platform;
+  windows: RotationWindow[];
+  gaps: RotationGap[];
+}
+
+/**
+ * A subscribe or cancel reminder
+ */
+export interface RotationAction {
+  type: 'subscribe' | 'cancel';
+  platform: Platform;
+  /** Day to act on (ISO format) */
+  date: string;
+  /** Titles that justify keeping the platform up to a cancel, or from a subscribe */
+  shows: string[];
+}
+
+/**
+ * Subscription rotation calendar for the planning window
+ */
+export interface RotationPlan {
+  /** First day of the planning window (ISO format) */
+  start: string;
+  /** Last day of the planning window (ISO format) */
+  end: string;
+  /** Platforms needed in each month (YYYY-MM) */
+  months: Array<{ month: string; platforms: Platform[] }>;
+  /** Needed windows and cancel gaps per platform */
+  platforms: PlatformRotation[];
+  /** Subscribe and cancel reminders in date order */
+  actions: RotationAction[];
+}
+
+/**
+ * An all-day calendar event for iCalendar export
+ */
+export interface ICalEvent {
+  /** Unique ID, stable across exports so calendars update instead of duplicating */
+  uid: string;
+  /** Day of the event (ISO format) */
+  date: string;
+  summary: string;
+  description?: string;
+  /** Last day of a weekly repeat (ISO format); the event does not repeat if missing */
+  until?: string;
+  /** Days the weekly repeat skips (ISO format) */
+  exdates?: string[];
+}
+
+/**
+ * Season fields a calendar import can fill in
+ */
+export type CalendarSeasonFields = Partial<Pick<Show, 's' | 'start' | 'end' | 'eps' | 'air'>>;
+
+/**
+ * Proposed season updates for one show, read from calendar events
+ */
+export interface CalendarProposal {
+  /** ID of the matched show */
+  id: number;
+  /** Title of the matched show */
+  title: string;
+  /** Current values of the fields being updated */
+  current: CalendarSeasonFields;
+  /** New values proposed by the calendar */
+  updates: CalendarSeasonFields;
+  /** Summaries of the events the updates came from */
+  sources: string[];
 }
 
+/**
+ * Result of reading a calendar against the show database
+ */
+export interface CalendarImportResult {
+  /** Proposed updates for shows whose season data would change */
+  proposals: CalendarProposal[];
+  /** Summaries of events that matched no show */
+  unmatched: string[];
+}
+
+/**
+ * Display modes: all shows, the week table, the evening timeslot grid, or the month calendar
+ */
+export type DisplayMode = 'all' | 'week' | 'grid' | 'month';
+
+/**
+ * File formats the guide can be exported as
+ */
+export type ExportFormat = 'json' | 'csv' | 'ics' | 'backup';
+
 /**
  * Show database mapping show IDs to show objects
  */
@@ -57,12 +659,12 @@ export type ShowDatabase = Record<number, Show>;
  * Application configuration
  */
 export interface AppConfiguration {
-  /** Default episode counts per network */
-  EPISODE_DEFAULTS: Record<Network, number>;
   /** Days of the week in order */
   DAY_ORDER: readonly AirDay[];
-  /** Available streaming platforms */
-  PLATFORMS: readonly Platform[];
+  /** Built-in streaming platforms */
+  PLATFORMS: readonly RegistryEntry[];
+  /** Built-in networks (with default episode counts) */
+  NETWORKS: readonly RegistryEntry[];
   /** Local storage key */
   STORAGE_KEY: string;
 }
@@ -156,11 +758,81 @@ export interface ImportOptions {
 }
 
 export interface ExportOptions {
-  format?: 'json' | 'csv';
+  format?: ExportFormat;
   includeMetadata?: boolean;
   compress?: boolean;
 }
 
+/**
+ * Filters active when an export was made
+ */
+export interface ExportFilterContext {
+  /** Platforms shown */
+  platforms: Platform[];
+  /** Whether non-returning shows are shown */
+  showNonReturning: boolean;
+  /** Search term ('' when not searching) */
+  searchTerm: string;
+  /** Selected profile IDs (empty for everyone) */
+  profiles: string[];
+}
+
+/**
+ * Metadata a JSON export is wrapped with
+ */
+export interface ExportMetadata {
+  /** App version that made the export */
+  appVersion: string;
+  /** Version of the export format */
+  schemaVersion: number;
+  /** When the export was made (ISO timestamp) */
+  exportedAt: string;
+  /** Filters active at export time (every show is exported regardless) */
+  filters: ExportFilterContext;
+}
+
+/**
+ * A show as exported, with its watch progress
+ */
+export type ExportedShow = Show & { watched?: SeasonProgress };
+
+/**
+ * A JSON export: metadata and every show keyed by ID
+ */
+export interface ExportEnvelope extends ExportMetadata {
+  shows: Record<number, ExportedShow>;
+}
+
+/**
+ * An undo history entry: the state after an action
+ */
+export interface StateHistoryEntry {
+  state: Record<string, unknown>;
+  timestamp: number;
+  action: string;
+}
+
+/**
+ * The state with its undo history
+ */
+export interface StateSnapshot {
+  state: Record<string, unknown>;
+  history: StateHistoryEntry[];
+  /** Position in the history (-1 when empty) */
+  historyIndex: number;
+}
+
+/**
+ * A full backup: the state snapshot with its undo history, and metadata
+ */
+export interface StateBackup {
+  appVersion: string;
+  schemaVersion: number;
+  /** When the backup was made (ISO timestamp) */
+  exportedAt: string;
+  snapshot: StateSnapshot;
+}
+
 export interface DataImportResult {
   success: boolean;
   imported: number;
@@ -168,6 +840,81 @@ export interface DataImportResult {
   errors: string[];
 }
 
+/**
+ * How imported shows are combined with the guide's shows
+ */
+export type ImportStrategy = NonNullable<ImportOptions['mergeStrategy']>;
+
+/**
+ * What an import does to a show
+ */
+export type ImportStatus = 'new' | 'updated' | 'unchanged' | 'skipped' | 'invalid';
+
+/**
+ * A field an import changes, with display values
+ */
+export interface ImportChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Preview of one imported show
+ */
+export interface ImportPreviewEntry {
+  id: number;
+  title: string;
+  status: ImportStatus;
+  changes: ImportChange[];
+  errors: string[];
+}
+
+/**
+ * An import worked out against the guide, ready to preview and apply
+ */
+export interface ImportPlan {
+  strategy: ImportStrategy;
+  entries: ImportPreviewEntry[];
+  /** Show database after the import */
+  shows: ShowDatabase;
+  /** Watch progress read from the imported shows, keyed by title */
+  progress: WatchProgress;
+  /** Metadata of the export the data came from (missing for bare data) */
+  metadata?: ExportMetadata;
+  result: DataImportResult;
+}
+
+/**
+ * Show fields a CSV column can be imported into ('id' is the show ID)
+ */
+export type CsvField = 'id' | 't' | 'c' | 'net' | 'air' | 'airtime' | 's' | 'start' | 'end' | 'eps' | 'ret';
+
+/**
+ * Field each CSV column is imported into, by column position (null to ignore the column)
+ */
+export type CsvColumnMapping = Array<CsvField | null>;
+
+/**
+ * A parsed CSV file
+ */
+export interface CsvTable {
+  /** Header row */
+  headers: string[];
+  /** Data rows */
+  rows: string[][];
+}
+
+/**
+ * Shows read from CSV rows, and the rows left out
+ */
+export interface CsvImportRows {
+  /** Valid rows as shows, keyed by show ID */
+  shows: ShowDatabase;
+  /** Invalid rows, with the reasons */
+  rejected: ImportPreviewEntry[];
+}
+
 /**
  * Date processing utilities
  */
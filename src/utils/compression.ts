@@ -0,0 +1,80 @@
+/**
+ * Compression utilities for exports and backups
+ * Uses the browser's CompressionStream and DecompressionStream when available,
+ * with the pure-TS DEFLATE fallback otherwise.
+ */
+
+import { gunzip, gzip, zlibDeflate, zlibInflate } from './deflate.js';
+
+/**
+ * Compressed formats written and detected
+ */
+export type CompressedFormat = 'gzip' | 'deflate';
+
+/**
+ * Runs bytes through a compression or decompression stream
+ */
+const pipeBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> => {
+  const input = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(input).arrayBuffer());
+};
+
+/**
+ * Detects gzip or zlib ("deflate") data from its header
+ */
+export const detectCompression = (bytes: Uint8Array): CompressedFormat | null => {
+  const [first = 0, second = 0] = bytes;
+  if (first === 0x1f && second === 0x8b) {
+    return 'gzip';
+  }
+  // zlib: deflate method, window up to 32 KB and a header checksum
+  if ((first & 0x0f) === 8 && first >> 4 <= 7 && ((first << 8) | second) % 31 === 0) {
+    return 'deflate';
+  }
+  return null;
+};
+
+/**
+ * Compresses text (as UTF-8) with gzip or zlib
+ */
+export const compressText = async (text: string, format: CompressedFormat = 'gzip'): Promise<Uint8Array<ArrayBuffer>> => {
+  const bytes = new TextEncoder().encode(text);
+  if (typeof CompressionStream !== 'undefined') {
+    return pipeBytes(bytes, new CompressionStream(format));
+  }
+  return format === 'gzip' ? gzip(bytes) : zlibDeflate(bytes);
+};
+
+/**
+ * Reads bytes as UTF-8 text, decompressing them first when they are gzip or zlib data
+ */
+export const decompressToText = async (bytes: Uint8Array): Promise<string> => {
+  const format = detectCompression(bytes);
+  if (!format) {
+    return new TextDecoder().decode(bytes);
+  }
+  try {
+    const decompressed = typeof DecompressionStream !== 'undefined'
+      ? await pipeBytes(bytes, new DecompressionStream(format))
+      : format === 'gzip' ? gunzip(bytes) : zlibInflate(bytes);
+    return new TextDecoder().decode(decompressed);
+  } catch (error) {
+    // A zlib header is only two bytes, so plain text (e.g., a CSV starting "H,") can look like one
+    if (format === 'deflate') {
+      return new TextDecoder().decode(bytes);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Reads an imported file as text, whether or not it is compressed
+ */
+export const readFileText = async (file: Blob): Promise<string> =>
+  decompressToText(new Uint8Array(await file.arrayBuffer()));
+
+/**
+ * Removes a compressed file extension (".gz", ".zz") from a file name
+ */
+export const stripCompressedExtension = (fileName: string): string =>
+  fileName.replace(/\.(gz|zz)$/i, '');
@@ -0,0 +1,87 @@
+/**
+ * CSV utilities for spreadsheet exports and imports
+ */
+
+/**
+ * Delimiters a spreadsheet may use, in order of preference
+ */
+const DELIMITERS = [',', ';', '\t'] as const;
+
+/**
+ * Quotes a value when it contains a delimiter, quote or line break
+ */
+export const escapeCsvValue = (value: string | number | boolean | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",;\t\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV document (header row first) with CRLF line endings
+ */
+export const buildCsv = (rows: ReadonlyArray<ReadonlyArray<string | number | boolean | null | undefined>>): string =>
+  rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Picks the delimiter used most in the first line (comma if none appear)
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length - 1);
+  const best = Math.max(...counts);
+  return best > 0 ? DELIMITERS[counts.indexOf(best)] ?? ',' : ',';
+};
+
+/**
+ * Parses CSV text into rows of values
+ * Quoted values may contain delimiters, doubled quotes and line breaks; the
+ * delimiter (comma, semicolon or tab) is read from the first line. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  const endRow = (): void => {
+    row.push(value);
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row.map(cell => cell.trim()));
+    }
+    row = [];
+    value = '';
+  };
+
+  // Strip a byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  if (value !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
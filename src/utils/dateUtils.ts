@@ -24,4 +24,110 @@ export const startOfWeek = (d: Date): Date => {
   const dow = x.getDay();
   x.setDate(x.getDate() - dow);
   return x;
-};
\ No newline at end of file
+};
+
+/**
+ * Parses an ISO date string (YYYY-MM-DD) as local midnight
+ * Returns null for empty or invalid input
+ */
+export const parseISODate = (iso: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) {
+    return null;
+  }
+  const d = new Date(`${iso}T00:00:00`);
+  return isNaN(d.getTime()) ? null : d;
+};
+
+/**
+ * Formats a date as an ISO date string (YYYY-MM-DD) in local time
+ */
+export const toISODate = (d: Date): string =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+/**
+ * Returns a new date shifted by the given number of days
+ */
+export const addDays = (d: Date, days: number): Date => {
+  const x = new Date(d);
+  x.setDate(x.getDate() + days);
+  return x;
+};
+
+/**
+ * Returns the Sunday–Saturday range for a week offset relative to the current week
+ */
+export const getWeekRange = (offset: number, today: Date = new Date()): { startDate: Date; endDate: Date } => {
+  const startDate = addDays(startOfWeek(today), offset * 7);
+  const endDate = addDays(startDate, 6);
+  endDate.setHours(23, 59, 59, 999);
+  return { startDate, endDate };
+};
+
+/**
+ * Shifts an ISO date string by the given number of days
+ * Returns the input unchanged if it is not a valid ISO date
+ */
+export const addDaysISO = (iso: string, days: number): string => {
+  const d = parseISODate(iso);
+  return d ? toISODate(addDays(d, days)) : iso;
+};
+
+/**
+ * Counts the days from one ISO date to another (negative if `to` is earlier)
+ */
+export const daysBetween = (from: string, to: string): number => {
+  const start = parseISODate(from);
+  const end = parseISODate(to);
+  if (!start || !end) {
+    return NaN;
+  }
+  // Round to absorb daylight saving shifts between local midnights
+  return Math.round((end.getTime() - start.getTime()) / 86400000);
+};
+
+/**
+ * Returns the week offset of the week holding a date, relative to the current week
+ */
+export const getWeekOffset = (date: Date, today: Date = new Date()): number =>
+  Math.round(daysBetween(toISODate(startOfWeek(today)), toISODate(startOfWeek(date))) / 7);
+
+/**
+ * Returns the first and last ISO dates of a month key (YYYY-MM)
+ */
+export const getMonthRange = (month: string): { start: string; end: string } => {
+  const [year = NaN, monthNumber = NaN] = month.split('-').map(Number);
+  const lastDay = new Date(year, monthNumber, 0).getDate();
+  return { start: `${month}-01`, end: `${month}-${pad(lastDay)}` };
+};
+
+/**
+ * Returns the month key (YYYY-MM) for a month offset relative to the current month
+ */
+export const getMonthKey = (offset: number, today: Date = new Date()): string => {
+  const d = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}`;
+};
+
+/**
+ * Counts the months from the current month to the month containing a date
+ */
+export const getMonthOffset = (date: Date, today: Date = new Date()): number =>
+  (date.getFullYear() - today.getFullYear()) * 12 + date.getMonth() - today.getMonth();
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Formats a month key (YYYY-MM) for display (e.g., "Nov 2025")
+ */
+export const formatMonth = (month: string): string => {
+  const [year, monthNumber] = month.split('-');
+  return `${MONTH_NAMES[Number(monthNumber) - 1] ?? month} ${year ?? ''}`.trim();
+};
+
+/**
+ * Formats an ISO date without the year (e.g., "Jan 10")
+ */
+export const formatShortDate = (iso: string): string => {
+  const d = parseISODate(iso);
+  return d ? `${MONTH_NAMES[d.getMonth()]} ${d.getDate()}` : iso;
+};
@@ -0,0 +1,598 @@
+/**
+ * DEFLATE utilities (RFC 1951) with gzip (RFC 1952) and zlib (RFC 1950) framing
+ * Used when the browser has no CompressionStream. The compressor writes a single
+ * block with fixed Huffman codes; the decompressor reads every block type.
+ */
+
+/**
+ * Longest match and farthest distance a match may have
+ */
+const MAX_MATCH = 258;
+const MIN_MATCH = 3;
+const WINDOW_SIZE = 32768;
+
+/**
+ * Number of earlier positions tried per match (higher is smaller and slower)
+ */
+const MAX_CHAIN = 64;
+
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+
+/**
+ * Base value and extra bits of each length code (257-285) and distance code (0-29)
+ */
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/**
+ * Order in which code length code lengths are stored in a dynamic block
+ */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const GZIP_HEADER = [0x1f, 0x8b, 0x08, 0, 0, 0, 0, 0, 0, 0xff];
+
+/**
+ * gzip header flags
+ */
+const FHCRC = 0x02;
+const FEXTRA = 0x04;
+const FNAME = 0x08;
+const FCOMMENT = 0x10;
+
+/**
+ * Canonical Huffman code: number of codes per length and symbols in code order
+ */
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+/**
+ * Growable output buffer
+ */
+class ByteBuffer {
+  private bytes: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.bytes.length) {
+      return;
+    }
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+  }
+
+  push(byte: number): void {
+    this.reserve(1);
+    this.bytes[this.length++] = byte;
+  }
+
+  pushBytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /**
+   * Copy a match from earlier output (the ranges may overlap)
+   */
+  copyWithin(distance: number, length: number): void {
+    this.reserve(length);
+    for (let i = 0; i < length; i++) {
+      this.bytes[this.length] = this.bytes[this.length - distance] ?? 0;
+      this.length++;
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Writes bits least significant first, as DEFLATE stores them
+ */
+class BitWriter {
+  private readonly output: ByteBuffer;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(capacity: number) {
+    this.output = new ByteBuffer(capacity);
+  }
+
+  writeBits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.output.push(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  /**
+   * Write a Huffman code, which is stored most significant bit first
+   */
+  writeCode(code: number, length: number): void {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.writeBits(reversed, length);
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.output.push(this.bitBuffer & 0xff);
+    }
+    return this.output.toBytes();
+  }
+}
+
+/**
+ * Reads bits least significant first
+ */
+class BitReader {
+  position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      if (this.position >= this.bytes.length) {
+        throw new Error('Compressed data ends unexpectedly');
+      }
+      this.bitBuffer = this.bytes[this.position++] ?? 0;
+      this.bitCount = 8;
+    }
+    const bit = this.bitBuffer & 1;
+    this.bitBuffer >>= 1;
+    this.bitCount--;
+    return bit;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value |= this.readBit() << i;
+    }
+    return value;
+  }
+
+  /**
+   * Skip to the next byte boundary (before a stored block)
+   */
+  alignToByte(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.position + length > this.bytes.length) {
+      throw new Error('Compressed data ends unexpectedly');
+    }
+    const bytes = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+}
+
+/**
+ * CRC-32 lookup table (gzip checksum)
+ */
+const CRC_TABLE = ((): Uint32Array => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 of bytes (gzip trailer)
+ */
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = (CRC_TABLE[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Computes the Adler-32 of bytes (zlib trailer)
+ */
+export const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + (bytes[i] ?? 0)) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+/**
+ * Finds the code (257-285) or distance code (0-29) whose range holds a value
+ */
+const findCode = (bases: number[], value: number): number => {
+  let code = bases.length - 1;
+  while ((bases[code] ?? 0) > value) {
+    code--;
+  }
+  return code;
+};
+
+/**
+ * Writes a literal or length symbol with the fixed Huffman code
+ */
+const writeFixedSymbol = (writer: BitWriter, symbol: number): void => {
+  if (symbol < 144) {
+    writer.writeCode(0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writer.writeCode(0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writer.writeCode(symbol - 256, 7);
+  } else {
+    writer.writeCode(0xc0 + symbol - 280, 8);
+  }
+};
+
+/**
+ * Writes a match as its length and distance codes with extra bits
+ */
+const writeMatch = (writer: BitWriter, length: number, distance: number): void => {
+  const lengthCode = findCode(LENGTH_BASE, length);
+  writeFixedSymbol(writer, 257 + lengthCode);
+  writer.writeBits(length - (LENGTH_BASE[lengthCode] ?? 0), LENGTH_EXTRA[lengthCode] ?? 0);
+
+  const distCode = findCode(DIST_BASE, distance);
+  writer.writeCode(distCode, 5);
+  writer.writeBits(distance - (DIST_BASE[distCode] ?? 0), DIST_EXTRA[distCode] ?? 0);
+};
+
+/**
+ * Compresses bytes as raw DEFLATE data
+ * Matches are found with hash chains over a 32 KB window and written in one
+ * fixed Huffman block.
+ */
+export const deflateRaw = (data: Uint8Array): Uint8Array => {
+  const writer = new BitWriter(data.length / 2);
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+
+  const hashAt = (position: number): number =>
+    (((data[position] ?? 0) << 10) ^ ((data[position + 1] ?? 0) << 5) ^ (data[position + 2] ?? 0)) & (HASH_SIZE - 1);
+
+  const insert = (position: number): void => {
+    if (position + MIN_MATCH > data.length) {
+      return;
+    }
+    const hash = hashAt(position);
+    prev[position % WINDOW_SIZE] = head[hash] ?? -1;
+    head[hash] = position;
+  };
+
+  // Final block with fixed Huffman codes
+  writer.writeBits(1, 1);
+  writer.writeBits(1, 2);
+
+  let position = 0;
+  while (position < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (position + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - position);
+      let candidate = head[hashAt(position)] ?? -1;
+      let chain = MAX_CHAIN;
+      while (candidate >= 0 && position - candidate <= WINDOW_SIZE && chain-- > 0) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[position + length]) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = position - candidate;
+          if (length === maxLength) {
+            break;
+          }
+        }
+        const next = prev[candidate % WINDOW_SIZE] ?? -1;
+        if (next >= candidate) {
+          break;
+        }
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      for (let i = 0; i < bestLength; i++) {
+        insert(position + i);
+      }
+      position += bestLength;
+    } else {
+      writeFixedSymbol(writer, data[position] ?? 0);
+      insert(position);
+      position++;
+    }
+  }
+
+  writeFixedSymbol(writer, 256);
+  return writer.finish();
+};
+
+/**
+ * Builds a canonical Huffman code from the code length of each symbol
+ */
+const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i] ?? 0]!++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length++) {
+    offsets[length] = (offsets[length - 1] ?? 0) + (counts[length - 1] ?? 0);
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol] ?? 0;
+    if (length !== 0) {
+      symbols[offsets[length]!++] = symbol;
+    }
+  }
+  return { counts, symbols };
+};
+
+/**
+ * Reads one symbol with a Huffman code, a bit at a time
+ */
+const decodeSymbol = (reader: BitReader, huffman: Huffman): number => {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length < 16; length++) {
+    code |= reader.readBit();
+    const count = huffman.counts[length] ?? 0;
+    if (code - first < count) {
+      return huffman.symbols[index + code - first] ?? 0;
+    }
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('Compressed data has an invalid Huffman code');
+};
+
+/**
+ * Fixed Huffman codes (block type 1)
+ */
+const FIXED_CODES = ((): { lengths: Huffman; distances: Huffman } => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return { lengths: buildHuffman(lengths), distances: buildHuffman(new Uint8Array(30).fill(5)) };
+})();
+
+/**
+ * Reads the Huffman codes of a dynamic block (block type 2)
+ */
+const readDynamicCodes = (reader: BitReader): { lengths: Huffman; distances: Huffman } => {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i] ?? 0] = reader.readBits(3);
+  }
+  const codeLengthCode = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = decodeSymbol(reader, codeLengthCode);
+    if (symbol < 16) {
+      lengths[index++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (index === 0) {
+        throw new Error('Compressed data repeats a code length before the first one');
+      }
+      value = lengths[index - 1] ?? 0;
+      repeat = 3 + reader.readBits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.readBits(3);
+    } else {
+      repeat = 11 + reader.readBits(7);
+    }
+    if (index + repeat > lengths.length) {
+      throw new Error('Compressed data has too many code lengths');
+    }
+    lengths.fill(value, index, index + repeat);
+    index += repeat;
+  }
+
+  return {
+    lengths: buildHuffman(lengths.subarray(0, literalCount)),
+    distances: buildHuffman(lengths.subarray(literalCount))
+  };
+};
+
+/**
+ * Decompresses raw DEFLATE data
+ * Returns the bytes and where the compressed data ended (for the framing trailer).
+ */
+export const inflateRaw = (data: Uint8Array): { bytes: Uint8Array; end: number } => {
+  const reader = new BitReader(data);
+  const output = new ByteBuffer(data.length * 4);
+
+  let final = 0;
+  while (!final) {
+    final = reader.readBit();
+    const type = reader.readBits(2);
+
+    if (type === 0) {
+      reader.alignToByte();
+      const header = reader.readBytes(4);
+      const length = (header[0] ?? 0) | ((header[1] ?? 0) << 8);
+      const complement = (header[2] ?? 0) | ((header[3] ?? 0) << 8);
+      if (length !== (~complement & 0xffff)) {
+        throw new Error('Compressed data has a damaged stored block');
+      }
+      output.pushBytes(reader.readBytes(length));
+      continue;
+    }
+    if (type === 3) {
+      throw new Error('Compressed data has an invalid block type');
+    }
+
+    const codes = type === 1 ? FIXED_CODES : readDynamicCodes(reader);
+    for (;;) {
+      const symbol = decodeSymbol(reader, codes.lengths);
+      if (symbol < 256) {
+        output.push(symbol);
+        continue;
+      }
+      if (symbol === 256) {
+        break;
+      }
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new Error('Compressed data has an invalid match length');
+      }
+      const length = (LENGTH_BASE[lengthCode] ?? 0) + reader.readBits(LENGTH_EXTRA[lengthCode] ?? 0);
+      const distCode = decodeSymbol(reader, codes.distances);
+      if (distCode >= DIST_BASE.length) {
+        throw new Error('Compressed data has an invalid match distance');
+      }
+      const distance = (DIST_BASE[distCode] ?? 0) + reader.readBits(DIST_EXTRA[distCode] ?? 0);
+      if (distance > output.length) {
+        throw new Error('Compressed data refers back past its start');
+      }
+      output.copyWithin(distance, length);
+    }
+  }
+
+  return { bytes: output.toBytes(), end: reader.position };
+};
+
+/**
+ * Reads a 32-bit little-endian number
+ */
+const readUint32LE = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] ?? 0) | ((bytes[offset + 1] ?? 0) << 8) | ((bytes[offset + 2] ?? 0) << 16) | ((bytes[offset + 3] ?? 0) << 24)) >>> 0;
+
+/**
+ * Splits a number into 4 bytes, least significant first
+ */
+const toUint32LE = (value: number): number[] =>
+  [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff];
+
+/**
+ * Compresses bytes as a gzip file
+ */
+export const gzip = (data: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const body = deflateRaw(data);
+  const output = new Uint8Array(GZIP_HEADER.length + body.length + 8);
+  output.set(GZIP_HEADER);
+  output.set(body, GZIP_HEADER.length);
+  output.set([...toUint32LE(crc32(data)), ...toUint32LE(data.length)], GZIP_HEADER.length + body.length);
+  return output;
+};
+
+/**
+ * Decompresses a gzip file (the first member), checking its CRC
+ */
+export const gunzip = (data: Uint8Array): Uint8Array => {
+  if (data[0] !== 0x1f || data[1] !== 0x8b || data[2] !== 0x08) {
+    throw new Error('Data is not gzip compressed');
+  }
+  const flags = data[3] ?? 0;
+  let offset = 10;
+  if (flags & FEXTRA) {
+    offset += 2 + ((data[offset] ?? 0) | ((data[offset + 1] ?? 0) << 8));
+  }
+  if (flags & FNAME) {
+    while (offset < data.length && data[offset++] !== 0) { /* skip file name */ }
+  }
+  if (flags & FCOMMENT) {
+    while (offset < data.length && data[offset++] !== 0) { /* skip comment */ }
+  }
+  if (flags & FHCRC) {
+    offset += 2;
+  }
+
+  const body = data.subarray(offset);
+  const { bytes, end } = inflateRaw(body);
+  if (end + 8 > body.length || readUint32LE(body, end) !== crc32(bytes)) {
+    throw new Error('gzip data is damaged (checksum mismatch)');
+  }
+  return bytes;
+};
+
+/**
+ * Compresses bytes as zlib data (what CompressionStream calls "deflate")
+ */
+export const zlibDeflate = (data: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const body = deflateRaw(data);
+  const checksum = adler32(data);
+  const output = new Uint8Array(2 + body.length + 4);
+  output.set([0x78, 0x9c]);
+  output.set(body, 2);
+  output.set([checksum >>> 24, (checksum >>> 16) & 0xff, (checksum >>> 8) & 0xff, checksum & 0xff], 2 + body.length);
+  return output;
+};
+
+/**
+ * Decompresses zlib data, checking its Adler-32
+ */
+export const zlibInflate = (data: Uint8Array): Uint8Array => {
+  const cmf = data[0] ?? 0;
+  const flg = data[1] ?? 0;
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) {
+    throw new Error('Data is not zlib compressed');
+  }
+  if (flg & 0x20) {
+    throw new Error('zlib data with a preset dictionary is not supported');
+  }
+
+  const body = data.subarray(2);
+  const { bytes, end } = inflateRaw(body);
+  const checksum = (((body[end] ?? 0) << 24) | ((body[end + 1] ?? 0) << 16) | ((body[end + 2] ?? 0) << 8) | (body[end + 3] ?? 0)) >>> 0;
+  if (end + 4 > body.length || checksum !== adler32(bytes)) {
+    throw new Error('zlib data is damaged (checksum mismatch)');
+  }
+  return bytes;
+};
@@ -16,8 +16,35 @@ export const createElement = (tagName: string, className?: string, content?: str
   return element;
 };
 
+/**
+ * Escapes HTML special characters to prevent XSS
+ */
+export const escapeHtml = (unsafe: string): string =>
+  unsafe
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+
 /**
  * Creates a span element with text and class name
  */
 export const span = (text: string | number, className: string): string => 
-  `<span class="${className}">${text}</span>`;
\ No newline at end of file
+  `<span class="${className}">${text}</span>`;
+
+/**
+ * Downloads text or binary (e.g., compressed) content as a file
+ */
+export const downloadFile = (content: string | Uint8Array<ArrayBuffer>, filename: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
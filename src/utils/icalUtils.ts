@@ -0,0 +1,209 @@
+/**
+ * iCalendar (.ics) utilities for calendar exports
+ */
+
+import { ICalEvent } from '../types/index.js';
+import { addDaysISO, toISODate } from './dateUtils.js';
+
+/**
+ * Product identifier written to every calendar
+ */
+const PRODUCT_ID = '-//TV Show Guide//EN';
+
+/**
+ * Escapes text values (backslash, semicolon, comma and newlines)
+ */
+export const escapeICalText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Unescapes text values (reverses escapeICalText)
+ */
+export const unescapeICalText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/**
+ * Formats an ISO date (YYYY-MM-DD) as an iCalendar date (YYYYMMDD)
+ */
+export const toICalDate = (iso: string): string => iso.replace(/-/g, '');
+
+/**
+ * Formats a date as an iCalendar UTC timestamp (YYYYMMDDTHHMMSSZ)
+ */
+export const toICalTimestamp = (d: Date): string =>
+  d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Gets the number of UTF-8 octets a character (code point) takes
+ */
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Folds lines longer than 75 octets (RFC 5545 line length limit)
+ * Continuation lines start with a space, so they hold 74 octets of content;
+ * multi-byte UTF-8 characters are never split.
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += length;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Builds an iCalendar document from all-day events
+ * Events with an end day repeat weekly until then, skipping their excluded days
+ */
+export const buildICalendar = (
+  events: ICalEvent[],
+  calendarName: string,
+  now: Date = new Date()
+): string => {
+  const stamp = toICalTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeICalText(calendarName)}`
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICalDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toICalDate(addDaysISO(event.date, 1))}`,
+      `SUMMARY:${escapeICalText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    }
+    if (event.until) {
+      lines.push(`RRULE:FREQ=WEEKLY;UNTIL=${toICalDate(event.until)}`);
+      if (event.exdates && event.exdates.length > 0) {
+        lines.push(`EXDATE;VALUE=DATE:${event.exdates.map(toICalDate).join(',')}`);
+      }
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Checks whether text is an iCalendar document
+ */
+export const isICalendar = (text: string): boolean => /^\s*BEGIN:VCALENDAR/i.test(text);
+
+/**
+ * Reads the day of a DATE or DATE-TIME value as an ISO date
+ * UTC times are converted to the local day; floating and zoned times keep their written day
+ */
+export const fromICalDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (utc) {
+    return toISODate(new Date(Date.UTC(
+      Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)
+    )));
+  }
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Converts a parsed VEVENT's properties into an event (null without a valid start day)
+ */
+const toICalEvent = (properties: Record<string, string>, exdates: string[]): ICalEvent | null => {
+  const date = fromICalDate(properties.DTSTART ?? '');
+  if (!date) {
+    return null;
+  }
+
+  const event: ICalEvent = {
+    uid: properties.UID ?? '',
+    date,
+    summary: unescapeICalText(properties.SUMMARY ?? '')
+  };
+  if (properties.DESCRIPTION) {
+    event.description = unescapeICalText(properties.DESCRIPTION);
+  }
+
+  // Only weekly repeats with an end day are kept
+  const rule = properties.RRULE ?? '';
+  const until = /UNTIL=([\dTZ]+)/.exec(rule)?.[1];
+  const untilDate = until && /FREQ=WEEKLY/.test(rule) ? fromICalDate(until) : null;
+  if (untilDate) {
+    event.until = untilDate;
+    if (exdates.length > 0) {
+      event.exdates = exdates;
+    }
+  }
+
+  return event;
+};
+
+/**
+ * Parses the events of an iCalendar document
+ * Reads UID, DTSTART, SUMMARY, DESCRIPTION, weekly RRULEs and EXDATEs; other
+ * properties and components are ignored, as are events without a start day
+ */
+export const parseICalendar = (text: string): ICalEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ICalEvent[] = [];
+  let properties: Record<string, string> | null = null;
+  let exdates: string[] = [];
+
+  for (const line of lines) {
+    if (line.trim() === 'BEGIN:VEVENT') {
+      properties = {};
+      exdates = [];
+      continue;
+    }
+    if (line.trim() === 'END:VEVENT') {
+      const event = properties ? toICalEvent(properties, exdates) : null;
+      if (event) {
+        events.push(event);
+      }
+      properties = null;
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (!properties || colon < 0) {
+      continue;
+    }
+    const name = (line.slice(0, colon).split(';')[0] ?? '').toUpperCase();
+    const value = line.slice(colon + 1);
+    if (name === 'EXDATE') {
+      exdates.push(...value.split(',').map(fromICalDate).filter((date): date is string => date !== null));
+    } else {
+      properties[name] = value;
+    }
+  }
+
+  return events;
+};
@@ -2,16 +2,23 @@
  * Platform utility functions for the TV Show Guide application
  */
 
-import { Platform } from '../types/index.js';
+import { Show, Platform, Network } from '../types/index.js';
+import { registry } from '../services/registryService.js';
+import {
+  getAvailabilities,
+  getAvailabilityRule,
+  formatAvailabilityRule,
+  AVAILABILITY_LABELS
+} from '../modules/availability.js';
+import { escapeHtml } from './domUtils.js';
 
 /**
  * Gets the currently selected platforms from checkboxes
  */
 export const getSelectedPlatforms = (): Set<Platform> => {
   const platforms = new Set<Platform>();
-  const platformList: Platform[] = ['hulu', 'peacock', 'paramount'];
   
-  platformList.forEach((platform: Platform) => {
+  registry.getPlatforms().forEach(({ id: platform }) => {
     const checkbox = document.getElementById(`pf-${platform}`) as HTMLInputElement | null;
     if (checkbox?.checked) {
       platforms.add(platform);
@@ -19,4 +26,47 @@ export const getSelectedPlatforms = (): Set<Platform> => {
   });
   
   return platforms;
-};
\ No newline at end of file
+};
+
+/**
+ * Renders a platform chip colored from the registry
+ * Label defaults to the platform's display name
+ */
+export const renderPlatformChip = (
+  platform: Platform,
+  label: string = registry.getName('platform', platform),
+  options: { className?: string; title?: string } = {}
+): string => {
+  const color = registry.getColor('platform', platform);
+  const style = color ? ` style="background: ${color}"` : '';
+  const className = options.className ? ` ${options.className}` : '';
+  const title = options.title ? ` title="${escapeHtml(options.title)}"` : '';
+  return `<span class="${escapeHtml(platform)} chip${className}"${style}${title}>${escapeHtml(label)}</span>`;
+};
+
+/**
+ * Renders a chip for every platform carrying a show
+ * The primary platform (how we watch) is starred; others are dimmed
+ */
+export const renderAvailabilityChips = (show: Show): string =>
+  getAvailabilities(show).map(availability => {
+    const { platform, kind } = availability;
+    const name = registry.getName('platform', platform);
+    const isPrimary = platform === show.c;
+    const rule = getAvailabilityRule(availability);
+    const when = rule ? formatAvailabilityRule(rule) : AVAILABILITY_LABELS[kind];
+    return renderPlatformChip(platform, isPrimary ? `★ ${name}` : name, {
+      className: isPrimary ? 'chip--primary' : 'chip--secondary',
+      title: `${name}: ${when}${isPrimary ? ' (primary - how we watch)' : ''}`
+    });
+  }).join(' ');
+
+/**
+ * Renders a network badge colored from the registry
+ */
+export const renderNetworkBadge = (network: Network, className = ''): string => {
+  const color = registry.getColor('network', network);
+  const style = color ? ` style="color: ${color}"` : '';
+  const classes = `${escapeHtml(network.toLowerCase())}-logo${className ? ' ' + className : ''}`;
+  return `<span class="${classes}"${style}>${escapeHtml(registry.getName('network', network))}</span>`;
+};
@@ -4,12 +4,13 @@
  */
 
 import {
-  Platform,
-  Network,
   AirDay,
+  AvailabilityKind,
   ErrorCode,
+  TimeFeed,
   NotificationType
 } from './types/index.js';
+import { registry } from './services/registryService.js';
 
 // Custom Error Classes
 export class ShowValidationError extends Error {
@@ -56,9 +57,14 @@ export const VALIDATION_RULES = {
     REQUIRED: false
   },
   DATE_FORMAT: /^\d{4}-\d{2}-\d{2}$/,
-  PLATFORMS: ['hulu', 'peacock', 'paramount'] as const,
-  NETWORKS: ['ABC', 'NBC', 'CBS', 'FOX'] as const,
-  DAYS: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const
+  DAYS: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const,
+  AVAILABILITY_KINDS: ['next-day', 'full-season-later', 'library'] as const,
+  TIME_FORMAT: /^([01]?\d|2[0-3]):[0-5]\d$/,
+  RUNTIME: {
+    MIN_VALUE: 1,
+    MAX_VALUE: 360
+  },
+  TIME_FEEDS: ['ET', 'CT', 'MT', 'PT'] as const
 } as const;
 
 // Error codes for internationalization and debugging
@@ -189,6 +195,30 @@ export const validators = {
         }
       }
 
+      // Validate streaming availabilities (optional)
+      if (showObj.avail !== undefined) {
+        const availabilityValidation = this.validateAvailabilities(showObj.avail);
+        if (!availabilityValidation.isValid) {
+          errors.push(...availabilityValidation.errors);
+        }
+      }
+
+      // Validate broadcast timeslot (optional)
+      if (showObj.airtime !== undefined) {
+        const airtimeValidation = this.validateAirtime(showObj.airtime);
+        if (!airtimeValidation.isValid) {
+          errors.push(...airtimeValidation.errors);
+        }
+      }
+
+      // Validate season history (optional)
+      if (showObj.seasons !== undefined) {
+        const seasonsValidation = this.validateSeasons(showObj.seasons);
+        if (!seasonsValidation.isValid) {
+          errors.push(...seasonsValidation.errors);
+        }
+      }
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       errors.push(new ShowValidationError(
@@ -261,9 +291,9 @@ export const validators = {
         ERROR_CODES.VALIDATION.REQUIRED_FIELD,
         platform
       ));
-    } else if (!VALIDATION_RULES.PLATFORMS.includes(platform as Platform)) {
+    } else if (typeof platform !== 'string' || !registry.isPlatform(platform)) {
       errors.push(new ShowValidationError(
-        `Platform must be one of: ${VALIDATION_RULES.PLATFORMS.join(', ')}`,
+        `Platform must be one of: ${registry.getPlatforms().map(p => p.id).join(', ')}`,
         'platform',
         ERROR_CODES.VALIDATION.INVALID_ENUM_VALUE,
         platform
@@ -286,9 +316,9 @@ export const validators = {
         ERROR_CODES.VALIDATION.REQUIRED_FIELD,
         network
       ));
-    } else if (!VALIDATION_RULES.NETWORKS.includes(network as Network)) {
+    } else if (typeof network !== 'string' || !registry.isNetwork(network)) {
       errors.push(new ShowValidationError(
-        `Network must be one of: ${VALIDATION_RULES.NETWORKS.join(', ')}`,
+        `Network must be one of: ${registry.getNetworks().map(n => n.id).join(', ')}`,
         'network',
         ERROR_CODES.VALIDATION.INVALID_ENUM_VALUE,
         network
@@ -472,6 +502,166 @@ export const validators = {
     return { isValid: errors.length === 0, errors };
   },
 
+  /**
+   * Validates streaming availabilities (platform + kind per entry)
+   */
+  validateAvailabilities(avail: unknown): ValidationResult {
+    const errors: ShowValidationError[] = [];
+
+    if (!Array.isArray(avail)) {
+      errors.push(new ShowValidationError(
+        'Availabilities must be a list',
+        'avail',
+        ERROR_CODES.VALIDATION.INVALID_TYPE,
+        avail
+      ));
+      return { isValid: false, errors };
+    }
+
+    avail.forEach((entry: unknown) => {
+      const { platform, kind } = (entry ?? {}) as Record<string, unknown>;
+      const platformValidation = this.validatePlatform(platform);
+      if (!platformValidation.isValid) {
+        errors.push(...platformValidation.errors);
+      }
+      if (!VALIDATION_RULES.AVAILABILITY_KINDS.includes(kind as AvailabilityKind)) {
+        errors.push(new ShowValidationError(
+          `Availability kind must be one of: ${VALIDATION_RULES.AVAILABILITY_KINDS.join(', ')}`,
+          'avail',
+          ERROR_CODES.VALIDATION.INVALID_ENUM_VALUE,
+          kind
+        ));
+      }
+    });
+
+    return { isValid: errors.length === 0, errors };
+  },
+
+  /**
+   * Validates a broadcast timeslot (start time, runtime and feed)
+   */
+  validateAirtime(airtime: unknown): ValidationResult {
+    const errors: ShowValidationError[] = [];
+
+    if (!airtime || typeof airtime !== 'object') {
+      errors.push(new ShowValidationError(
+        'Airtime must be an object',
+        'airtime',
+        ERROR_CODES.VALIDATION.INVALID_TYPE,
+        airtime
+      ));
+      return { isValid: false, errors };
+    }
+
+    const { start, runtime, feed } = airtime as Record<string, unknown>;
+    if (typeof start !== 'string' || !VALIDATION_RULES.TIME_FORMAT.test(start)) {
+      errors.push(new ShowValidationError(
+        'Airtime start must be a 24-hour time (HH:MM)',
+        'airtime',
+        ERROR_CODES.VALIDATION.INVALID_FORMAT,
+        start
+      ));
+    }
+    if (typeof runtime !== 'number' || !Number.isInteger(runtime) ||
+        runtime < VALIDATION_RULES.RUNTIME.MIN_VALUE || runtime > VALIDATION_RULES.RUNTIME.MAX_VALUE) {
+      errors.push(new ShowValidationError(
+        `Airtime runtime must be between ${VALIDATION_RULES.RUNTIME.MIN_VALUE} and ${VALIDATION_RULES.RUNTIME.MAX_VALUE} minutes`,
+        'airtime',
+        ERROR_CODES.VALIDATION.OUT_OF_RANGE,
+        runtime
+      ));
+    }
+    if (!VALIDATION_RULES.TIME_FEEDS.includes(feed as TimeFeed)) {
+      errors.push(new ShowValidationError(
+        `Airtime feed must be one of: ${VALIDATION_RULES.TIME_FEEDS.join(', ')}`,
+        'airtime',
+        ERROR_CODES.VALIDATION.INVALID_ENUM_VALUE,
+        feed
+      ));
+    }
+
+    return { isValid: errors.length === 0, errors };
+  },
+
+  /**
+   * Validates a season history (season number, dates, episode count and air day per season)
+   */
+  validateSeasons(seasons: unknown): ValidationResult {
+    const errors: ShowValidationError[] = [];
+
+    if (!Array.isArray(seasons)) {
+      errors.push(new ShowValidationError(
+        'Seasons must be a list',
+        'seasons',
+        ERROR_CODES.VALIDATION.INVALID_TYPE,
+        seasons
+      ));
+      return { isValid: false, errors };
+    }
+
+    seasons.forEach((season: unknown, index) => {
+      const label = `Season entry ${index + 1}`;
+      if (!season || typeof season !== 'object' || Array.isArray(season)) {
+        errors.push(new ShowValidationError(
+          `${label} must be an object`,
+          'seasons',
+          ERROR_CODES.VALIDATION.INVALID_TYPE,
+          season
+        ));
+        return;
+      }
+
+      const { s, start, end, eps, air } = season as Record<string, unknown>;
+      const fieldErrors: ShowValidationError[] = [];
+      if (s !== null && typeof s !== 'number') {
+        fieldErrors.push(new ShowValidationError(
+          'Season must be a number or null',
+          'season',
+          ERROR_CODES.VALIDATION.INVALID_TYPE,
+          s
+        ));
+      } else {
+        fieldErrors.push(...this.validateSeason(s).errors);
+      }
+      if (eps !== null && typeof eps !== 'number') {
+        fieldErrors.push(new ShowValidationError(
+          'Episode count must be a number or null',
+          'episodes',
+          ERROR_CODES.VALIDATION.INVALID_TYPE,
+          eps
+        ));
+      } else {
+        fieldErrors.push(...this.validateEpisodes(eps).errors);
+      }
+      if (start !== '') {
+        fieldErrors.push(...this.validateDate(start, 'start').errors);
+      }
+      if (end !== '') {
+        fieldErrors.push(...this.validateDate(end, 'end').errors);
+      }
+      if (fieldErrors.length === 0 && start && end) {
+        fieldErrors.push(...this.validateDateLogic(start as string, end as string).errors);
+      }
+      if (air !== '' && !VALIDATION_RULES.DAYS.includes(air as AirDay)) {
+        fieldErrors.push(new ShowValidationError(
+          `Air day must be empty or one of: ${VALIDATION_RULES.DAYS.join(', ')}`,
+          'airDay',
+          ERROR_CODES.VALIDATION.INVALID_ENUM_VALUE,
+          air
+        ));
+      }
+
+      errors.push(...fieldErrors.map(error => new ShowValidationError(
+        `${label}: ${error.message}`,
+        'seasons',
+        error.code,
+        season
+      )));
+    });
+
+    return { isValid: errors.length === 0, errors };
+  },
+
   /**
    * Validates show ID
    */